@@ -4,7 +4,7 @@ import { describe, it } from 'node:test';
 import { Transport, PresenceState, ConnectionState, ActivityMode, TelemetryCategory, makeBrickKey } from '../contracts/index';
 import {
 	CockpitError, ErrorCode,
-	TransportError, ConnectionError, TimeoutError,
+	TransportError, ConnectionError, TimeoutError, AbortedError,
 	SessionError, HeartbeatError, ConsumerError, SubscriptionError,
 } from '../errors/index';
 
@@ -73,6 +73,7 @@ describe('CockpitError', () => {
 			[new TransportError('t'), 'TransportError', ErrorCode.TransportFailed],
 			[new ConnectionError('c'), 'ConnectionError', ErrorCode.ConnectionFailed],
 			[new TimeoutError('to'), 'TimeoutError', ErrorCode.Timeout],
+			[new AbortedError('a'), 'AbortedError', ErrorCode.Aborted],
 			[new SessionError('s'), 'SessionError', ErrorCode.SessionFailed],
 			[new HeartbeatError('h'), 'HeartbeatError', ErrorCode.HeartbeatFailed],
 			[new ConsumerError('co'), 'ConsumerError', ErrorCode.ConsumerFailed],
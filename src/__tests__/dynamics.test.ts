@@ -1,7 +1,7 @@
 import assert from 'assert/strict';
 import { describe, it } from 'node:test';
 
-import { evaluateDynamic } from '../mock/dynamics';
+import { evaluateDynamic, evaluateDatasets, dynamicRange } from '../mock/dynamics';
 import type { ValueDynamic } from '../mock/mockConfig';
 
 describe('evaluateDynamic', () => {
@@ -59,4 +59,15 @@ describe('evaluateDynamic', () => {
 		assert.equal(evaluateDynamic(d, 1000), 100);
 		assert.equal(evaluateDynamic(d, 1500), 100);
 	});
+
+	it('vector yields one dataset per component and reads as its first', () => {
+		const d: ValueDynamic = { kind: 'vector', components: [
+			{ kind: 'static', value: 200 },
+			{ kind: 'square', low: 0, high: 100, periodMs: 2000 },
+			{ kind: 'static', value: -4 },
+		] };
+		assert.equal(evaluateDynamic(d, 0), 200);
+		assert.deepEqual(evaluateDatasets(d, 1000), [200, 100, -4]);
+		assert.deepEqual(dynamicRange(d), { min: -4, max: 200 });
+	});
 });
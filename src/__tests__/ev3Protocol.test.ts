@@ -3,15 +3,26 @@ import { describe, it } from 'node:test';
 
 import {
 	uint16le, uint32le, readUint16le, readUint32le, readInt32le, readFloat32le,
-	concatBytes, lc0, lc1, lc2, lcs, cString, gv0, gv1, readFixedCString,
+	concatBytes, lc, lc0, lc1, lc2, lc4, lcs, cString, gv, gv0, gv1, lv, readFixedCString,
 } from '../protocol/ev3Bytecode';
 import {
 	encodeEv3Packet, decodeEv3Packet, extractLengthPrefixedPacket,
-	EV3_COMMAND, EV3_REPLY,
+	EV3_COMMAND, EV3_REPLY, EV3_OPCODE, EV3_SYSTEM, EV3_SYSTEM_STATUS, FILE_SUB, PROGRAM_INFO_SUB, PROGRAM_STATUS, SOUND_SUB,
+	DATA_FORMAT,
 } from '../protocol/ev3Packet';
-import { buildCommand } from '../protocol/ev3Commands';
-import { parseResponse } from '../protocol/ev3Responses';
+import {
+	buildCommand, buildBeginDownload, buildWriteMailbox, buildBatchCommand, planBatches, isBatchable,
+	buildNoReplyCommand, isNoReplyCommand, buildInfoCommand, buildSensorInfoCommand, buildStorageCommand,
+	INFO_LAYOUT,
+} from '../protocol/ev3Commands';
+import { disassemble } from '../protocol/ev3Disassembler';
+import { DirectCommandBuilder, MAX_GLOBAL_BYTES, MAX_LOCAL_BYTES } from '../protocol/directCommand';
+import {
+	parseResponse, parseBatchResponse, parseMailboxPacket, decodeMailboxValue, batteryLevel, sensorTypeName,
+} from '../protocol/ev3Responses';
+import type { BatteryResponse, InfoResponse, PortsResponse } from '../contracts';
 import type { Ev3Packet } from '../protocol/ev3Packet';
+import { ProtocolError, CommandRejectedError, ErrorCode } from '../errors';
 
 // ── Bytecode encoding ───────────────────────────────────────────────
 
@@ -106,6 +117,17 @@ describe('ev3Bytecode — LC encodings', () => {
 		const val = new DataView(result.buffer).getInt16(1, true);
 		assert.equal(val, -1000);
 	});
+
+	it('lc4 encodes 32-bit values', () => {
+		const result = lc4(100000);
+		assert.equal(result[0], 0x83);
+		assert.equal(new DataView(result.buffer).getInt32(1, true), 100000);
+	});
+
+	it('lc4 throws on non-integers', () => {
+		assert.throws(() => lc4(0.5));
+		assert.throws(() => lc4(2 ** 31));
+	});
 });
 
 describe('ev3Bytecode — string encoding', () => {
@@ -142,6 +164,18 @@ describe('ev3Bytecode — GV encodings', () => {
 		assert.throws(() => gv1(256));
 		assert.throws(() => gv1(-1));
 	});
+
+	it('gv, lv and lc pick the shortest form', () => {
+		assert.deepEqual([...gv(31)], [0x7f]);
+		assert.deepEqual([...gv(200)], [0xe1, 200]);
+		assert.deepEqual([...gv(1000)], [0xe2, 0xe8, 0x03]);
+		assert.deepEqual([...lv(4)], [0x44]);
+		assert.deepEqual([...lv(40)], [0xc1, 40]);
+		assert.deepEqual([...lc(-31)], [0x21]);
+		assert.deepEqual([...lc(-32)], [0x81, 0xe0]);
+		assert.deepEqual([...lc(720)], [0x82, 0xd0, 0x02]);
+		assert.deepEqual([...lc(100000)], [...lc4(100000)]);
+	});
 });
 
 describe('ev3Bytecode — readFixedCString', () => {
@@ -219,21 +253,126 @@ describe('ev3Packet — extractLengthPrefixedPacket', () => {
 	});
 });
 
+// ── Direct command builder ──────────────────────────────────────────
+
+describe('directCommand — DirectCommandBuilder', () => {
+	it('aligns numeric globals to their size and packs strings and bytes', () => {
+		const cmd = new DirectCommandBuilder();
+		const flag = cmd.global('uint8');
+		const value = cmd.global('float32');
+		const name = cmd.globalString(5);
+		const word = cmd.global('int16');
+		const raw = cmd.globalBytes(3);
+		assert.deepEqual([flag, value, name, word, raw].map(v => [v.offset, v.size]), [[0, 1], [4, 4], [8, 5], [14, 2], [16, 3]]);
+		assert.equal(cmd.build({}).globalSize, 19);
+	});
+
+	it('writes globals and locals into the header and encodes operands in their shortest form', () => {
+		const cmd = new DirectCommandBuilder();
+		const target = cmd.global('int32');
+		const scratch = cmd.local('int16');
+		cmd.op(EV3_OPCODE.OUTPUT_READ, 0, 300, 'ab', scratch, target, new Uint8Array([0xaa]));
+		const { type, payload } = cmd.build({ target });
+		assert.equal(type, EV3_COMMAND.DIRECT_COMMAND_REPLY);
+		assert.deepEqual([...payload], [
+			4, 2 << 2,
+			EV3_OPCODE.OUTPUT_READ, 0x00, 0x82, 0x2c, 0x01, 0x84, 0x61, 0x62, 0x00, 0x40, 0x60, 0xaa,
+		]);
+		assert.equal(new DirectCommandBuilder().build({}, EV3_COMMAND.DIRECT_COMMAND_NO_REPLY).type, EV3_COMMAND.DIRECT_COMMAND_NO_REPLY);
+	});
+
+	it('decodes the reply into the shape of its layout', () => {
+		const cmd = new DirectCommandBuilder();
+		const layers = [0, 1].map(() => ({ type: cmd.global('int8'), count: cmd.global('uint8') }));
+		const name = cmd.globalString(4);
+		const total = cmd.global('int32');
+		const { decode } = cmd.build({ layers, name, total });
+		const reply = concatBytes(new Uint8Array([0xff, 200, 7, 1]), cString('EV3'), uint32le(42));
+		assert.deepEqual(decode(reply), {
+			layers: [{ type: -1, count: 200 }, { type: 7, count: 1 }],
+			name: 'EV3',
+			total: 42,
+		});
+		assert.throws(() => decode(reply.subarray(0, 11)), /truncated: 11 of 12 bytes/);
+	});
+
+	it('rejects allocations beyond the firmware limits', () => {
+		const cmd = new DirectCommandBuilder();
+		cmd.globalBytes(MAX_GLOBAL_BYTES - 1);
+		assert.throws(() => cmd.global('int16'), /needs 1020 bytes of global variables; at most 1019 fit/);
+		cmd.global('uint8');
+		for (let i = 0; i < MAX_LOCAL_BYTES - 3; i += 4) { cmd.local('int32'); }
+		assert.throws(() => cmd.local('int32'), /local variables; at most 63 fit/);
+		assert.throws(() => cmd.globalBytes(0), /positive integer/);
+	});
+});
+
 // ── Command builder ─────────────────────────────────────────────────
 
 describe('ev3Commands — buildCommand', () => {
-	it('builds battery command as direct command with reply', () => {
+	it('builds battery command reading voltage and current', () => {
 		const result = buildCommand({ kind: 'battery' });
 		assert.equal(result.type, EV3_COMMAND.DIRECT_COMMAND_REPLY);
-		assert.ok(result.payload.length > 0);
+		assert.deepEqual([...result.payload], [
+			8, 0,
+			EV3_OPCODE.UI_READ, 0x01, 0x60,
+			EV3_OPCODE.UI_READ, 0x02, 0x64,
+		]);
 	});
 
 	it('builds ports command as direct command with reply', () => {
 		const result = buildCommand({ kind: 'ports' });
 		assert.equal(result.type, EV3_COMMAND.DIRECT_COMMAND_REPLY);
-		// Global allocation header should be 48 bytes
-		const globalBytes = readUint16le(result.payload, 0);
-		assert.equal(globalBytes, 48);
+		// Allocation header: type/mode, formats, 8 datasets per sensor, then motor speed and busy;
+		// the tacho count OUTPUT_READ always writes goes to a local
+		const header = readUint16le(result.payload, 0);
+		assert.equal(header & 0x3ff, 184);
+		assert.equal(header >> 10, 4);
+	});
+
+	it('reads sensors in their current mode unless a mode is selected', () => {
+		const result = buildCommand({ kind: 'ports', sensorModes: { '2': 1 } });
+		// First ops: INPUT_READEXT layer, port, type (keep), mode, SI format, 8 datasets, then 8 targets
+		assert.deepEqual([...result.payload.subarray(2, 11)], [
+			EV3_OPCODE.INPUT_READEXT, 0, 0, 0, 0x3f, 0x12, 8, 0xe1, 48,
+		]);
+		assert.deepEqual([...result.payload.subarray(23, 25)], [0xe1, 76]);
+		assert.deepEqual([...result.payload.subarray(25, 34)], [
+			EV3_OPCODE.INPUT_READEXT, 0, 1, 0, 1, 0x12, 8, 0xe1, 80,
+		]);
+	});
+
+	it('reads raw sensor datasets as int32 when asked', () => {
+		const result = buildCommand({ kind: 'ports', format: 'raw' });
+		assert.deepEqual([...result.payload.subarray(2, 9)], [
+			EV3_OPCODE.INPUT_READEXT, 0, 0, 0, 0x3f, DATA_FORMAT.RAW, 8,
+		]);
+	});
+
+	it('ends the ports command with OUTPUT_READ and OUTPUT_TEST per motor', () => {
+		const result = buildCommand({ kind: 'ports' });
+		// Last motor (D): speed into 179, discarded tacho into local 0, busy for bit 0x08 into 183
+		assert.deepEqual([...result.payload.subarray(result.payload.length - 11)], [
+			EV3_OPCODE.OUTPUT_READ, 0, 3, 0xe1, 179, 0x40,
+			EV3_OPCODE.OUTPUT_TEST, 0, 8, 0xe1, 183,
+		]);
+	});
+
+	it('builds sensor:info from INPUT_DEVICE queries on the port', () => {
+		const result = buildCommand({ kind: 'sensor:info', port: '4' });
+		assert.equal(readUint16le(result.payload, 0), 129); // 16 fixed, 12 name, 5 symbol, 8 × 12 mode names
+		assert.deepEqual([...result.payload.subarray(2, 8)], [EV3_OPCODE.INPUT_DEVICE, 0x05, 0, 3, 0x60, 0x61]);
+		// Last op: GET_MODENAME for mode 7 into the last name slot
+		assert.deepEqual([...result.payload.subarray(result.payload.length - 8)], [
+			EV3_OPCODE.INPUT_DEVICE, 0x16, 0, 3, 7, 12, 0xe1, 117,
+		]);
+	});
+
+	it('builds sensor:setMode as INPUT_DEVICE SET_TYPEMODE keeping the type', () => {
+		const result = buildCommand({ kind: 'sensor:setMode', port: '3', mode: 2 });
+		assert.deepEqual([...result.payload], [0, 0, EV3_OPCODE.INPUT_DEVICE, 0x01, 0, 2, 0, 2]);
+		assert.throws(() => buildCommand({ kind: 'sensor:setMode', port: '3', mode: 8 }), /0\.\.7/);
+		assert.throws(() => buildCommand({ kind: 'ports', sensorModes: { '1': -1 } }), /0\.\.7/);
 	});
 
 	it('builds buttons command as direct command with reply', () => {
@@ -247,7 +386,39 @@ describe('ev3Commands — buildCommand', () => {
 		const result = buildCommand({ kind: 'info' });
 		assert.equal(result.type, EV3_COMMAND.DIRECT_COMMAND_REPLY);
 		const globalBytes = readUint16le(result.payload, 0);
-		assert.equal(globalBytes, 56); // 16+8+8+12+12
+		assert.equal(globalBytes, 82); // 16+8+8+12+12 versions, 13 name, 13 BT ID
+	});
+
+	it('reads brick name and Bluetooth ID through opCOM_GET', () => {
+		const result = buildCommand({ kind: 'info' });
+		assert.deepEqual([...result.payload.subarray(result.payload.length - 11)], [
+			EV3_OPCODE.COM_GET, 0x0d, 13, 0xe1, 56,
+			EV3_OPCODE.COM_GET, 0x0c, 2, 13, 0xe1, 69,
+		]);
+	});
+
+	it('builds system:setName as opCOM_SET SET_BRICKNAME', () => {
+		const result = buildCommand({ kind: 'system:setName', name: 'Rover 2' });
+		assert.equal(result.type, EV3_COMMAND.DIRECT_COMMAND_REPLY);
+		assert.deepEqual([...result.payload], [
+			0, 0, EV3_OPCODE.COM_SET, 0x08, 0x84, ...Buffer.from('Rover 2', 'latin1'), 0,
+		]);
+	});
+
+	it('rejects brick names the firmware does not accept', () => {
+		assert.throws(() => buildCommand({ kind: 'system:setName', name: '' }), /1\.\.12/);
+		assert.throws(() => buildCommand({ kind: 'system:setName', name: 'ThirteenChars' }), /1\.\.12/);
+		assert.throws(() => buildCommand({ kind: 'system:setName', name: 'Robot!' }), /letters, digits/);
+	});
+
+	it('builds system:storage from MEMORY_USAGE and UI_READ GET_SDCARD', () => {
+		const result = buildCommand({ kind: 'system:storage' });
+		assert.equal(result.type, EV3_COMMAND.DIRECT_COMMAND_REPLY);
+		assert.deepEqual([...result.payload], [
+			17, 0,
+			EV3_OPCODE.MEMORY_USAGE, 0x60, 0x64,
+			EV3_OPCODE.UI_READ, 0x1d, 0x70, 0x68, 0x6c,
+		]);
 	});
 
 	it('builds fs:list as system command', () => {
@@ -260,10 +431,232 @@ describe('ev3Commands — buildCommand', () => {
 		assert.equal(result.type, EV3_COMMAND.SYSTEM_COMMAND_REPLY);
 	});
 
+	it('builds fs:writeBinary with the raw byte length', () => {
+		const result = buildCommand({ kind: 'fs:writeBinary', path: '/a', content: new Uint8Array([0xff, 0xfe]) });
+		assert.equal(result.payload[0], EV3_SYSTEM.BEGIN_DOWNLOAD);
+		assert.equal(readUint32le(result.payload, 1), 2);
+	});
+
+	it('builds fs:write as a BEGIN_DOWNLOAD header without content', () => {
+		const result = buildCommand({ kind: 'fs:write', path: '/a', content: 'hello' });
+		assert.equal(result.payload[0], EV3_SYSTEM.BEGIN_DOWNLOAD);
+		assert.equal(readUint32le(result.payload, 1), 5);
+		assert.deepEqual([...result.payload.subarray(5)], [0x2f, 0x61, 0x00]);
+	});
+
 	it('builds fs:delete as system command', () => {
 		const result = buildCommand({ kind: 'fs:delete', path: '/test.txt' });
 		assert.equal(result.type, EV3_COMMAND.SYSTEM_COMMAND_REPLY);
 	});
+
+	it('builds motor:run as OUTPUT_SPEED + OUTPUT_START on the port mask', () => {
+		const result = buildCommand({ kind: 'motor:run', ports: ['A', 'C'], speed: -50 });
+		assert.equal(result.type, EV3_COMMAND.DIRECT_COMMAND_REPLY);
+		assert.deepEqual([...result.payload], [
+			0x00, 0x00,
+			EV3_OPCODE.OUTPUT_SPEED, 0x00, 0x05, 0x81, 0xce,
+			EV3_OPCODE.OUTPUT_START, 0x00, 0x05,
+		]);
+	});
+
+	it('addresses a daisy-chained slave through the layer operand', () => {
+		const result = buildCommand({ kind: 'motor:run', ports: ['B'], speed: 10, layer: 2 });
+		assert.deepEqual([...result.payload.subarray(2)], [
+			EV3_OPCODE.OUTPUT_SPEED, 0x02, 0x02, 10,
+			EV3_OPCODE.OUTPUT_START, 0x02, 0x02,
+		]);
+		const ports = buildCommand({ kind: 'ports', layer: 3 });
+		assert.deepEqual([...ports.payload.subarray(2, 5)], [EV3_OPCODE.INPUT_READEXT, 0x03, 0x00]);
+		assert.throws(() => buildCommand({ kind: 'sensor:info', port: '1', layer: 4 as never }), /0\.\.3/);
+	});
+
+	it('lists devices on all layers for chain detection', () => {
+		const result = buildCommand({ kind: 'chain:list' });
+		assert.deepEqual([...result.payload], [33, 0, EV3_OPCODE.INPUT_DEVICE_LIST, 0x81, 32, 0x60, 0xe1, 32]);
+	});
+
+	it('builds motor:stop with brake flag', () => {
+		const result = buildCommand({ kind: 'motor:stop', ports: ['B'], brake: true });
+		assert.deepEqual([...result.payload], [0x00, 0x00, EV3_OPCODE.OUTPUT_STOP, 0x00, 0x02, 0x01]);
+	});
+
+	it('builds motor:resetTacho as OUTPUT_RESET + OUTPUT_CLR_COUNT', () => {
+		const result = buildCommand({ kind: 'motor:resetTacho', ports: ['D'] });
+		assert.deepEqual([...result.payload], [
+			0x00, 0x00,
+			EV3_OPCODE.OUTPUT_RESET, 0x00, 0x08,
+			EV3_OPCODE.OUTPUT_CLR_COUNT, 0x00, 0x08,
+		]);
+	});
+
+	it('builds motor:runForDegrees as OUTPUT_STEP_SPEED with the shortest constant step', () => {
+		const result = buildCommand({ kind: 'motor:runForDegrees', ports: ['A'], speed: 40, degrees: 720, brake: false });
+		assert.equal(result.payload[2], EV3_OPCODE.OUTPUT_STEP_SPEED);
+		assert.deepEqual([...result.payload.subarray(3, 7)], [0x00, 0x01, 0x81, 40]);
+		assert.equal(result.payload[7], 0);               // ramp-up
+		assert.equal(result.payload[8], 0x82);            // LC2 prefix
+		assert.equal(readUint16le(result.payload, 9), 720);
+		assert.deepEqual([...result.payload.subarray(11)], [0x00, 0x00]); // ramp-down, coast
+	});
+
+	it('builds motor:runForTime as OUTPUT_TIME_SPEED', () => {
+		const result = buildCommand({ kind: 'motor:runForTime', ports: ['B'], speed: 100, timeMs: 1500, brake: true });
+		assert.equal(result.payload[2], EV3_OPCODE.OUTPUT_TIME_SPEED);
+		assert.equal(readUint16le(result.payload, 9), 1500);
+		assert.equal(result.payload[result.payload.length - 1], 1);
+	});
+
+	it('rejects invalid motor arguments', () => {
+		assert.throws(() => buildCommand({ kind: 'motor:run', ports: [], speed: 10 }), /at least one port/);
+		assert.throws(() => buildCommand({ kind: 'motor:run', ports: ['A'], speed: 101 }), /-100\.\.100/);
+		assert.throws(
+			() => buildCommand({ kind: 'motor:runForTime', ports: ['A'], speed: 10, timeMs: 0, brake: false }),
+			/positive integer/,
+		);
+	});
+
+	it('builds program:run as LOAD_IMAGE + PROGRAM_START on the user slot', () => {
+		const result = buildCommand({ kind: 'program:run', path: '../prjs/Demo/Demo.rbf' });
+		assert.equal(result.type, EV3_COMMAND.DIRECT_COMMAND_REPLY);
+		assert.equal(readUint16le(result.payload, 0), 8 << 10); // image size and address stay in locals
+		assert.deepEqual([...result.payload.subarray(2, 5)], [EV3_OPCODE.FILE, FILE_SUB.LOAD_IMAGE, 0x01]);
+		const start = result.payload.indexOf(EV3_OPCODE.PROGRAM_START, 5 + '../prjs/Demo/Demo.rbf'.length);
+		assert.deepEqual([...result.payload.subarray(start)], [EV3_OPCODE.PROGRAM_START, 0x01, 0x40, 0x44, 0x00]);
+	});
+
+	it('rejects program:run for non-.rbf paths', () => {
+		assert.throws(() => buildCommand({ kind: 'program:run', path: '/x/sound.rsf' }), /\.rbf/);
+	});
+
+	it('builds sound:tone with volume, frequency and duration', () => {
+		const result = buildCommand({ kind: 'sound:tone', frequency: 440, durationMs: 500 });
+		assert.deepEqual([...result.payload], [
+			0x00, 0x00, EV3_OPCODE.SOUND, SOUND_SUB.TONE, 0x81, 50, 0x82, 0xb8, 0x01, 0x82, 0xf4, 0x01,
+		]);
+		assert.throws(() => buildCommand({ kind: 'sound:tone', frequency: 100, durationMs: 500 }), /250\.\.10000/);
+		assert.throws(() => buildCommand({ kind: 'sound:tone', frequency: 440, durationMs: 500, volume: 101 }), /0\.\.100/);
+	});
+
+	it('builds sound:play with the file name stripped of .rsf, and sound:stop', () => {
+		const play = buildCommand({ kind: 'sound:play', path: '../prjs/Demo/beep.rsf', volume: 80 });
+		assert.deepEqual([...play.payload.subarray(0, 6)], [0x00, 0x00, EV3_OPCODE.SOUND, SOUND_SUB.PLAY, 0x81, 80]);
+		assert.deepEqual([...play.payload.subarray(6)], [0x84, ...Buffer.from('../prjs/Demo/beep', 'latin1'), 0x00]);
+		assert.throws(() => buildCommand({ kind: 'sound:play', path: '/x/beep.wav', volume: 80 }), /\.rsf/);
+		const stop = buildCommand({ kind: 'sound:stop' });
+		assert.deepEqual([...stop.payload], [0x00, 0x00, EV3_OPCODE.SOUND, SOUND_SUB.BREAK]);
+	});
+
+	it('builds led:set as UI_WRITE LED with the firmware pattern', () => {
+		const led = (color: 'off' | 'green' | 'red' | 'orange', effect?: 'steady' | 'flashing' | 'pulsing') =>
+			[...buildCommand({ kind: 'led:set', color, effect }).payload];
+		assert.deepEqual(led('orange', 'pulsing'), [0x00, 0x00, EV3_OPCODE.UI_WRITE, 0x1b, 9]);
+		assert.deepEqual([led('off', 'flashing')[4], led('green')[4], led('red', 'flashing')[4]], [0, 1, 5]);
+		assert.throws(() => led('blue' as never), /Invalid LED pattern/);
+	});
+
+	it('builds program:stop and program:status on the user slot', () => {
+		const stop = buildCommand({ kind: 'program:stop' });
+		assert.deepEqual([...stop.payload], [0x00, 0x00, EV3_OPCODE.PROGRAM_STOP, 0x01]);
+		const status = buildCommand({ kind: 'program:status' });
+		assert.deepEqual([...status.payload], [0x01, 0x00, EV3_OPCODE.PROGRAM_INFO, PROGRAM_INFO_SUB.GET_STATUS, 0x01, 0x60]);
+	});
+
+	it('keeps the legacy info layout in step with the builder', () => {
+		const info = new Uint8Array(INFO_LAYOUT.TOTAL_INFO_BYTES);
+		info.set(Buffer.from('OS'), INFO_LAYOUT.OFF_OS_VERS);
+		info.set(Buffer.from('V1.21'), INFO_LAYOUT.OFF_FW_BUILD);
+		info.set(Buffer.from('EV3'), INFO_LAYOUT.OFF_BRICK_NAME);
+		info.set(Buffer.from('0016'), INFO_LAYOUT.OFF_BT_ID);
+		const decodedInfo = buildInfoCommand().decode(info);
+		assert.deepEqual(
+			[decodedInfo.osVersion, decodedInfo.firmwareBuild, decodedInfo.brickName, decodedInfo.btId],
+			['OS', 'V1.21', 'EV3', '0016'],
+		);
+	});
+
+	it('decodes sensor:info and storage replies from their global variables', () => {
+		// type, mode, 4 format bytes, min, max, then name (12), symbol (5), 8 mode names (12 each)
+		const sensorInfo = buildSensorInfoCommand('1', 0);
+		const sensor = new Uint8Array(sensorInfo.globalSize);
+		sensor[0] = 29;
+		sensor[1] = 2;
+		sensor.set(Buffer.from('COL-COLOR'), 16);
+		sensor.set(Buffer.from('col'), 28);
+		sensor.set(Buffer.from('COL-REFLECT'), 33);
+		const decodedSensor = sensorInfo.decode(sensor);
+		assert.deepEqual(
+			[decodedSensor.type, decodedSensor.mode, decodedSensor.name, decodedSensor.symbol, decodedSensor.modeNames[0]],
+			[29, 2, 'COL-COLOR', 'col', 'COL-REFLECT'],
+		);
+
+		// memory total, memory free, SD card total, SD card free (KB), then SD card state
+		const storageCommand = buildStorageCommand();
+		const storage = new Uint8Array(storageCommand.globalSize);
+		storage.set(uint32le(6000), 0);
+		storage.set(uint32le(4000), 4);
+		storage.set(uint32le(32000), 8);
+		storage.set(uint32le(30000), 12);
+		storage[16] = 1;
+		assert.deepEqual(storageCommand.decode(storage), {
+			internalTotal: 6000, internalFree: 4000, sdCardPresent: 1, sdCardTotal: 32000, sdCardFree: 30000,
+		});
+	});
+});
+
+// ── Disassembler ────────────────────────────────────────────────────
+
+describe('ev3Disassembler — disassemble', () => {
+	it('lists direct commands opcode by opcode with subcodes and operands', () => {
+		const battery = buildCommand({ kind: 'battery' });
+		assert.equal(disassemble({ messageCounter: 7, ...battery }), [
+			'#7 DIRECT_COMMAND_REPLY globals=8 locals=0',
+			'  UI_READ GET_VBATT GV(0)',
+			'  UI_READ GET_IBATT GV(4)',
+		].join('\n'));
+		const program = buildCommand({ kind: 'program:run', path: '../prjs/Demo/Demo.rbf' });
+		assert.equal(disassemble({ messageCounter: 1, ...program }), [
+			'#1 DIRECT_COMMAND_REPLY globals=0 locals=8',
+			'  FILE LOAD_IMAGE 1 "../prjs/Demo/Demo.rbf" LV(0) LV(4)',
+			'  PROGRAM_START 1 LV(0) LV(4) 0',
+		].join('\n'));
+	});
+
+	it('follows INPUT_READEXT targets and decodes every LC width', () => {
+		const ports = disassemble({ messageCounter: 1, ...buildCommand({ kind: 'ports', sensorModes: { '1': 3 } }) }).split('\n');
+		assert.equal(ports[1], '  INPUT_READEXT 0 0 0 3 18 8 GV(48) GV(52) GV(56) GV(60) GV(64) GV(68) GV(72) GV(76)');
+		assert.equal(ports[ports.length - 1], '  OUTPUT_TEST 0 8 GV(183)');
+		const step = buildCommand({ kind: 'motor:runForTime', ports: ['A'], speed: -100, timeMs: 100_000, brake: true });
+		assert.equal(disassemble({ messageCounter: 1, ...step }).split('\n')[1], '  OUTPUT_TIME_SPEED 0 1 -100 0 100000 0 1');
+	});
+
+	it('ends the listing with hex at the first byte it cannot decode', () => {
+		const payload = new Uint8Array([0, 0, EV3_OPCODE.OUTPUT_START, 0, 1, 0xfe, 0xff, EV3_OPCODE.OUTPUT_START, 0]);
+		assert.equal(disassemble({ messageCounter: 2, type: EV3_COMMAND.DIRECT_COMMAND_NO_REPLY, payload }), [
+			'#2 DIRECT_COMMAND_NO_REPLY globals=0 locals=0',
+			'  OUTPUT_START 0 1',
+			'  ?? fe ff a6 00',
+		].join('\n'));
+	});
+
+	it('names system commands, their parameters and reply statuses', () => {
+		assert.equal(
+			disassemble({ messageCounter: 3, ...buildBeginDownload('../prjs/a.rbf', 1024) }),
+			'#3 SYSTEM_COMMAND_REPLY BEGIN_DOWNLOAD size=1024 path="../prjs/a.rbf"',
+		);
+		assert.equal(
+			disassemble({ messageCounter: 4, ...buildWriteMailbox('abc', { type: 'text', value: 'hi' }) }),
+			'#4 SYSTEM_COMMAND_REPLY WRITEMAILBOX mailbox="abc" data=3 bytes: 68 69 00',
+		);
+		const error = new Uint8Array([EV3_SYSTEM.BEGIN_UPLOAD, EV3_SYSTEM_STATUS.ILLEGAL_PATH]);
+		assert.equal(
+			disassemble({ messageCounter: 5, type: EV3_REPLY.SYSTEM_REPLY_ERROR, payload: error }),
+			'#5 SYSTEM_REPLY_ERROR BEGIN_UPLOAD ILLEGAL_PATH',
+		);
+		assert.equal(
+			disassemble({ messageCounter: 6, type: EV3_REPLY.DIRECT_REPLY, payload: new Uint8Array(40) }),
+			`#6 DIRECT_REPLY data=40 bytes: ${Array(32).fill('00').join(' ')} … (+8 bytes)`,
+		);
+	});
 });
 
 // ── Response parser ─────────────────────────────────────────────────
@@ -274,14 +667,66 @@ describe('ev3Responses — parseResponse', () => {
 	}
 
 	it('parses battery response', () => {
-		const payload = new Uint8Array(4);
-		new DataView(payload.buffer).setFloat32(0, 0.35, true);
+		const payload = new Uint8Array(8);
+		new DataView(payload.buffer).setFloat32(0, 6.85, true);
+		new DataView(payload.buffer).setFloat32(4, 0.25, true);
 		const result = parseResponse(
 			{ kind: 'battery' },
 			makeReply(EV3_REPLY.DIRECT_REPLY, payload),
-		);
+		) as BatteryResponse;
 		assert.equal(result.kind, 'battery');
-		assert.ok((result as { level: number }).level > 0);
+		assert.equal(result.level, 35);
+		assert.ok(Math.abs(result.voltage! - 6.85) < 1e-5);
+		assert.ok(Math.abs(result.current! - 0.25) < 1e-5);
+	});
+
+	it('derives battery level from the curve of the given chemistry', () => {
+		const payload = new Uint8Array(8);
+		new DataView(payload.buffer).setFloat32(0, 7.3, true);
+		const reply = makeReply(EV3_REPLY.DIRECT_REPLY, payload);
+		const alkaline = parseResponse({ kind: 'battery', chemistry: 'alkaline' }, reply) as BatteryResponse;
+		const rechargeable = parseResponse({ kind: 'battery', chemistry: 'rechargeable' }, reply) as BatteryResponse;
+		assert.equal(alkaline.level, 83);
+		assert.equal(rechargeable.level, 45);
+	});
+
+	it('clamps battery level to 0..100 and hits the curve points exactly', () => {
+		assert.equal(batteryLevel(5.9, 'alkaline'), 0);
+		assert.equal(batteryLevel(8.1, 'rechargeable'), 100);
+		assert.equal(batteryLevel(7.0, 'alkaline'), 50);
+		assert.equal(batteryLevel(7.4, 'rechargeable'), 80);
+	});
+
+	it('parses every info field and formats the Bluetooth address', () => {
+		const payload = new Uint8Array(82);
+		const put = (offset: number, text: string) => payload.set(Buffer.from(text, 'latin1'), offset);
+		put(0, 'Linux 2.6.33-rc4');
+		put(16, 'V0.60');
+		put(24, 'V1.10E');
+		put(32, '1803051332');
+		put(44, '1803051258');
+		put(56, 'Cockpit');
+		put(69, '0016534a12bc');
+		const result = parseResponse({ kind: 'info' }, makeReply(EV3_REPLY.DIRECT_REPLY, payload));
+		assert.deepEqual(result, {
+			kind: 'info',
+			displayName: 'Cockpit',
+			firmwareVersion: 'V1.10E',
+			firmwareBuild: '1803051258',
+			osVersion: 'Linux 2.6.33-rc4',
+			osBuild: '1803051332',
+			hardwareVersion: 'V0.60',
+			serialNumber: '0016534A12BC',
+			btAddress: '00:16:53:4A:12:BC',
+		});
+	});
+
+	it('leaves serial and BT address unset when the brick reports no Bluetooth ID', () => {
+		const payload = new Uint8Array(82);
+		const result = parseResponse({ kind: 'info' }, makeReply(EV3_REPLY.DIRECT_REPLY, payload)) as InfoResponse;
+		assert.equal(result.displayName, 'EV3');
+		assert.equal(result.serialNumber, undefined);
+		assert.equal(result.btAddress, undefined);
 	});
 
 	it('parses buttons response', () => {
@@ -297,8 +742,127 @@ describe('ev3Responses — parseResponse', () => {
 		assert.equal(state['left'], true);
 	});
 
+	it('names EV3 touch and color sensors by their firmware type codes', () => {
+		assert.equal(sensorTypeName(1), 'touch');
+		assert.equal(sensorTypeName(16), 'touch');
+		assert.equal(sensorTypeName(29), 'color');
+		assert.equal(sensorTypeName(4), undefined);
+	});
+
+	it('reports sensor mode and the unit that matches it', () => {
+		const payload = new Uint8Array(184).fill(126);
+		const view = new DataView(payload.buffer);
+		payload.set([32, 1], 0);    // port 1: gyro, rate mode
+		payload.set([29, 2], 2);    // port 2: color, color index mode
+		payload.set([1, 0], 16);    // one dataset each
+		payload.set([1, 0], 20);
+		view.setFloat32(48, -12, true);
+		view.setFloat32(80, 5, true);
+		const result = parseResponse({ kind: 'ports' }, makeReply(EV3_REPLY.DIRECT_REPLY, payload)) as PortsResponse;
+		assert.deepEqual(
+			result.sensorPorts.slice(0, 3).map(p => [p.peripheralType, p.mode, p.unit, p.value]),
+			[['gyro', 1, 'd/s', -12], ['color', 2, 'col', 5], ['none', undefined, undefined, undefined]],
+		);
+	});
+
+	it('reports motor speed and busy state', () => {
+		const payload = new Uint8Array(188).fill(126);
+		payload.set([7, 0], 8);             // motor A: large motor
+		payload.set([8, 0], 10);            // motor B: medium motor
+		payload.set([0xce, 25], 176);       // speeds -50, 25
+		payload.set([1, 0], 180);           // A busy, B idle
+		const result = parseResponse({ kind: 'ports' }, makeReply(EV3_REPLY.DIRECT_REPLY, payload)) as PortsResponse;
+		assert.deepEqual(
+			result.motorPorts.map(p => [p.peripheralType, p.speed, p.busy]),
+			[['large-motor', -50, true], ['medium-motor', 25, false], ['none', undefined, undefined], ['none', undefined, undefined]],
+		);
+	});
+
+	it('reports every dataset of a multi-value reading', () => {
+		const payload = new Uint8Array(184).fill(126);
+		const view = new DataView(payload.buffer);
+		payload.set([29, 4], 0);    // port 1: color, RGB mode
+		payload.set([33, 1], 2);    // port 2: infrared, seek mode
+		payload.set([3, 0], 16);
+		payload.set([8, 0], 20);
+		[120, 64, 30].forEach((v, k) => view.setFloat32(48 + k * 4, v, true));
+		[-5, 40, 0, -128, 0, -128, 0, -128].forEach((v, k) => view.setFloat32(80 + k * 4, v, true));
+		const result = parseResponse({ kind: 'ports' }, makeReply(EV3_REPLY.DIRECT_REPLY, payload)) as PortsResponse;
+		const [color, infrared] = result.sensorPorts;
+		assert.deepEqual(color.datasets, [{ value: 120, unit: undefined }, { value: 64, unit: undefined }, { value: 30, unit: undefined }]);
+		assert.equal(color.value, 120);
+		assert.equal(infrared.datasets?.length, 8);
+		assert.deepEqual(infrared.datasets?.slice(0, 2), [{ value: -5, unit: 'pct' }, { value: 40, unit: 'pct' }]);
+		assert.equal(result.sensorPorts[2].datasets, undefined);
+	});
+
+	it('reports raw datasets as integers without a unit', () => {
+		const payload = new Uint8Array(184).fill(126);
+		const view = new DataView(payload.buffer);
+		payload.set([29, 4], 0);    // port 1: color, RGB mode
+		payload.set([3, 0], 16);
+		[412, 380, 95].forEach((v, k) => view.setInt32(48 + k * 4, v, true));
+		const result = parseResponse({ kind: 'ports', format: 'raw' }, makeReply(EV3_REPLY.DIRECT_REPLY, payload)) as PortsResponse;
+		const [color] = result.sensorPorts;
+		assert.deepEqual(color.datasets, [{ value: 412, unit: undefined }, { value: 380, unit: undefined }, { value: 95, unit: undefined }]);
+		assert.equal(color.unit, undefined);
+	});
+
+	it('parses sensor:info metadata and keeps only the available mode names', () => {
+		const payload = new Uint8Array(129);
+		const view = new DataView(payload.buffer);
+		const put = (offset: number, text: string) => payload.set(Buffer.from(text, 'latin1'), offset);
+		payload.set([4, 1, 1, 0, 3, 3], 0);   // NXT color, mode 1; 3 modes
+		view.setFloat32(8, 0, true);
+		view.setFloat32(12, 100, true);
+		put(16, 'NXT-COL-AMB');
+		put(28, 'pct');
+		put(33, 'NXT-COL-REF');
+		put(45, 'NXT-COL-AMB');
+		put(57, 'NXT-COL-COL');
+		put(69, 'garbage');
+		const result = parseResponse({ kind: 'sensor:info', port: '1' }, makeReply(EV3_REPLY.DIRECT_REPLY, payload));
+		assert.deepEqual(result, {
+			kind: 'sensor:info',
+			metadata: {
+				type: 4, mode: 1, name: 'NXT-COL-AMB', symbol: 'pct', min: 0, max: 100,
+				modes: ['NXT-COL-REF', 'NXT-COL-AMB', 'NXT-COL-COL'],
+			},
+		});
+	});
+
+	it('reports slave layers that have a device attached', () => {
+		const payload = new Uint8Array(33).fill(126);
+		payload[4 + 2] = 29;     // layer 1, sensor port 3: color sensor
+		payload[16 + 12] = 7;    // layer 3, motor port A: large motor
+		payload[8] = 125;        // layer 2 only reports unknown types
+		const result = parseResponse({ kind: 'chain:list' }, makeReply(EV3_REPLY.DIRECT_REPLY, payload));
+		assert.deepEqual(result, { kind: 'chain:list', layers: [1, 3] });
+	});
+
+	it('parses system:storage in bytes and drops the SD card when none is inserted', () => {
+		const payload = concatBytes(uint32le(6000), uint32le(4500), uint32le(0), uint32le(0), new Uint8Array([0]));
+		const internalOnly = parseResponse({ kind: 'system:storage' }, makeReply(EV3_REPLY.DIRECT_REPLY, payload));
+		assert.deepEqual(internalOnly, {
+			kind: 'system:storage',
+			storage: { internal: { total: 6000 * 1024, free: 4500 * 1024 }, sdCard: undefined },
+		});
+
+		payload.set(uint32le(3_900_000), 8);
+		payload.set(uint32le(1_200_000), 12);
+		payload[16] = 1;
+		const withCard = parseResponse({ kind: 'system:storage' }, makeReply(EV3_REPLY.DIRECT_REPLY, payload));
+		assert.deepEqual(withCard.kind === 'system:storage' && withCard.storage.sdCard, {
+			total: 3_900_000 * 1024, free: 1_200_000 * 1024,
+		});
+		assert.throws(
+			() => parseResponse({ kind: 'system:storage' }, makeReply(EV3_REPLY.DIRECT_REPLY, payload.subarray(0, 16))),
+			/truncated/,
+		);
+	});
+
 	it('parses ports response with all empty', () => {
-		const payload = new Uint8Array(48).fill(126);
+		const payload = new Uint8Array(184).fill(126);
 		const result = parseResponse(
 			{ kind: 'ports' },
 			makeReply(EV3_REPLY.DIRECT_REPLY, payload),
@@ -322,9 +886,79 @@ describe('ev3Responses — parseResponse', () => {
 		assert.throws(() => {
 			parseResponse(
 				{ kind: 'fs:list', path: '/bad' },
-				makeReply(EV3_REPLY.SYSTEM_REPLY_ERROR, new Uint8Array([0x06])),
+				makeReply(EV3_REPLY.SYSTEM_REPLY_ERROR, new Uint8Array([EV3_SYSTEM.LIST_FILES, 0x06])),
 			);
-		}, /system command error/i);
+		}, /system command error.*ILLEGAL_PATH/i);
+	});
+
+	it('reports the command, status and packet of a rejected command', () => {
+		const reply = makeReply(EV3_REPLY.SYSTEM_REPLY_ERROR, new Uint8Array([EV3_SYSTEM.LIST_FILES, EV3_SYSTEM_STATUS.ILLEGAL_PATH]));
+		assert.throws(() => parseResponse({ kind: 'fs:list', path: '/bad' }, reply), (error: unknown) => {
+			assert.ok(error instanceof CommandRejectedError);
+			assert.equal(error.code, ErrorCode.CommandRejected);
+			assert.equal(error.commandKind, 'fs:list');
+			assert.equal(error.status, EV3_SYSTEM_STATUS.ILLEGAL_PATH);
+			assert.equal(error.packetExcerpt, '05 00 01 00 05 99 06');
+			return true;
+		});
+	});
+
+	it('reports a malformed reply as a protocol error, not a rejection', () => {
+		const reply = makeReply(EV3_REPLY.DIRECT_REPLY, new Uint8Array([1, 2, 3]));
+		assert.throws(() => parseResponse({ kind: 'battery' }, reply), (error: unknown) => {
+			assert.ok(error instanceof ProtocolError && !(error instanceof CommandRejectedError));
+			assert.equal(error.code, ErrorCode.ProtocolFailed);
+			assert.equal(error.commandKind, 'battery');
+			assert.equal(error.packetExcerpt, '06 00 01 00 02 01 02 03');
+			assert.equal(error.request, '#1 DIRECT_COMMAND_REPLY globals=8 locals=0\n  UI_READ GET_VBATT GV(0)\n  UI_READ GET_IBATT GV(4)');
+			assert.match(error.message, /Malformed reply to 'battery': Direct command reply is truncated: 3 of 8 bytes/);
+			return true;
+		});
+		assert.throws(() => readUint32le(new Uint8Array([1, 2]), 0), ProtocolError);
+		assert.throws(() => decodeEv3Packet(new Uint8Array([9, 0, 1, 0, 2])), ProtocolError);
+	});
+
+	it('parses fs:read first chunk up to the declared file size', () => {
+		const payload = new Uint8Array([EV3_SYSTEM.BEGIN_UPLOAD, 0x08, 2, 0, 0, 0, 1, 0x68, 0x69, 0x00]);
+		const result = parseResponse(
+			{ kind: 'fs:read', path: '/a' },
+			makeReply(EV3_REPLY.SYSTEM_REPLY, payload),
+		);
+		assert.deepEqual(result, { kind: 'fs:read', content: 'hi' });
+	});
+
+	it('parses program:status from the slot OBJSTAT byte', () => {
+		const running = parseResponse({ kind: 'program:status' }, makeReply(EV3_REPLY.DIRECT_REPLY, new Uint8Array([0x10])));
+		const waiting = parseResponse({ kind: 'program:status' }, makeReply(EV3_REPLY.DIRECT_REPLY, new Uint8Array([0x20])));
+		const stopped = parseResponse({ kind: 'program:status' }, makeReply(EV3_REPLY.DIRECT_REPLY, new Uint8Array([0x40])));
+		assert.deepEqual(running, { kind: 'program:status', status: 'running' });
+		assert.deepEqual(waiting, { kind: 'program:status', status: 'stopped' });
+		assert.deepEqual(stopped, { kind: 'program:status', status: 'stopped' });
+	});
+
+	it('parses fs:list entries from the first listing chunk', () => {
+		const listing = Buffer.from('./\n../\nsub/\n0123456789ABCDEF0123456789abcdef 0000040A main.rbf\n', 'latin1');
+		const payload = new Uint8Array([EV3_SYSTEM.LIST_FILES, 0x08, listing.length, 0, 0, 0, 0, ...listing]);
+		const result = parseResponse(
+			{ kind: 'fs:list', path: '/prjs/' },
+			makeReply(EV3_REPLY.SYSTEM_REPLY, payload),
+		);
+		assert.deepEqual(result, {
+			kind: 'fs:list',
+			entries: [
+				{ name: 'sub', kind: 'folder' },
+				{ name: 'main.rbf', kind: 'file', size: 0x40a, md5: '0123456789ABCDEF0123456789ABCDEF' },
+			],
+		});
+	});
+
+	it('parses fs:readBinary first chunk as raw bytes', () => {
+		const payload = new Uint8Array([EV3_SYSTEM.BEGIN_UPLOAD, 0x08, 3, 0, 0, 0, 1, 0x00, 0xff, 0x80]);
+		const result = parseResponse(
+			{ kind: 'fs:readBinary', path: '/a.rbf' },
+			makeReply(EV3_REPLY.SYSTEM_REPLY, payload),
+		);
+		assert.deepEqual(result, { kind: 'fs:readBinary', content: Uint8Array.from([0x00, 0xff, 0x80]) });
 	});
 
 	it('parses fs:write response', () => {
@@ -335,6 +969,14 @@ describe('ev3Responses — parseResponse', () => {
 		assert.equal(result.kind, 'fs:write');
 	});
 
+	it('parses motor command replies without data', () => {
+		const result = parseResponse(
+			{ kind: 'motor:run', ports: ['A'], speed: 30 },
+			makeReply(EV3_REPLY.DIRECT_REPLY, new Uint8Array()),
+		);
+		assert.deepEqual(result, { kind: 'motor:run' });
+	});
+
 	it('parses fs:delete response', () => {
 		const result = parseResponse(
 			{ kind: 'fs:delete', path: '/test' },
@@ -344,3 +986,143 @@ describe('ev3Responses — parseResponse', () => {
 		assert.equal((result as { deleted: boolean }).deleted, true);
 	});
 });
+
+// ── Batched reads ───────────────────────────────────────────────────
+
+describe('ev3 — batched reads', () => {
+	function makeReply(type: number, payload: Uint8Array): Ev3Packet {
+		return { messageCounter: 1, type, payload };
+	}
+
+	it('combines the reads into one direct command with a shared variable layout', () => {
+		const { type, payload } = buildBatchCommand([{ kind: 'battery' }, { kind: 'buttons' }]);
+		assert.equal(type, EV3_COMMAND.DIRECT_COMMAND_REPLY);
+		assert.equal(readUint16le(payload, 0), 8 + 6);
+		const listing = disassemble(decodeEv3Packet(encodeEv3Packet(1, type, payload)));
+		assert.match(listing, /UI_READ GET_IBATT GV\(4\)\n/);
+		assert.match(listing, /UI_READ GET_PRESS 1 GV\(8\)\n/);
+	});
+
+	it('splits the reply into one response per command', () => {
+		const payload = new Uint8Array(15);
+		new DataView(payload.buffer).setFloat32(0, 6.85, true);
+		payload.set([1, 0, 0, 0, 0, 1], 8);
+		payload[14] = PROGRAM_STATUS.RUNNING;
+		const [battery, buttons, status] = parseBatchResponse(
+			[{ kind: 'battery' }, { kind: 'buttons' }, { kind: 'program:status' }],
+			makeReply(EV3_REPLY.DIRECT_REPLY, payload),
+		);
+		assert.equal((battery as BatteryResponse).level, 35);
+		assert.deepEqual(buttons, {
+			kind: 'buttons', state: { up: true, enter: false, down: false, right: false, left: false, back: true },
+		});
+		assert.deepEqual(status, { kind: 'program:status', status: 'running' });
+	});
+
+	it('names the whole batch when the brick rejects it or the reply is short', () => {
+		const commands = [{ kind: 'battery' }, { kind: 'buttons' }] as const;
+		assert.throws(
+			() => parseBatchResponse(commands, makeReply(EV3_REPLY.DIRECT_REPLY_ERROR, new Uint8Array(14))),
+			(error: unknown) => error instanceof CommandRejectedError && error.commandKind === 'batch(battery, buttons)',
+		);
+		assert.throws(
+			() => parseBatchResponse(commands, makeReply(EV3_REPLY.DIRECT_REPLY, new Uint8Array(10))),
+			(error: unknown) => error instanceof ProtocolError
+				&& /^Malformed reply to 'batch\(battery, buttons\)': .*10 of 14 bytes/.test(error.message)
+				&& /^#1 DIRECT_COMMAND_REPLY globals=14 .*\n {2}UI_READ GET_VBATT GV\(0\)/.test(error.request ?? ''),
+		);
+	});
+
+	it('plans as many reads per packet as their variables allow', () => {
+		const ports = Array.from({ length: 6 }, () => ({ kind: 'ports' } as const));
+		assert.deepEqual(planBatches(ports).map((batch) => batch.length), [5, 1]);
+		assert.deepEqual(
+			planBatches([{ kind: 'ports' }, { kind: 'buttons' }, { kind: 'battery' }]).map((batch) => batch.length),
+			[3],
+		);
+		for (const batch of planBatches([...ports, { kind: 'info' }, { kind: 'sensor:info', port: '1' }])) {
+			assert.doesNotThrow(() => buildBatchCommand(batch));
+		}
+	});
+
+	it('tells read-only commands from the rest', () => {
+		assert.equal(isBatchable({ kind: 'ports' }), true);
+		assert.equal(isBatchable({ kind: 'sensor:info', port: '2' }), true);
+		assert.equal(isBatchable({ kind: 'motor:stop', ports: ['A'], brake: true }), false);
+		assert.equal(isBatchable({ kind: 'fs:list', path: '/' }), false);
+		assert.throws(() => buildBatchCommand([]), /at least one command/);
+	});
+});
+
+// ── No-reply commands ───────────────────────────────────────────────
+
+describe('ev3Commands — no-reply commands', () => {
+	it('sends the same bytecode as the no-reply variant of the command type', () => {
+		const run = { kind: 'motor:run', ports: ['A'], speed: 50 } as const;
+		const noReply = buildNoReplyCommand(run);
+		assert.equal(noReply.type, EV3_COMMAND.DIRECT_COMMAND_NO_REPLY);
+		assert.deepEqual(noReply.payload, buildCommand(run).payload);
+
+		const mailbox = buildNoReplyCommand({ kind: 'mailbox:write', mailbox: 'abc', message: { type: 'text', value: 'go' } });
+		assert.equal(mailbox.type, EV3_COMMAND.SYSTEM_COMMAND_NO_REPLY);
+	});
+
+	it('allows only commands that read nothing back', () => {
+		assert.equal(isNoReplyCommand({ kind: 'led:set', color: 'green' }), true);
+		assert.equal(isNoReplyCommand({ kind: 'sound:stop' }), true);
+		assert.equal(isNoReplyCommand({ kind: 'battery' }), false);
+		assert.equal(isNoReplyCommand({ kind: 'fs:delete', path: '/a' }), false);
+	});
+});
+
+// ── Mailbox ─────────────────────────────────────────────────────────
+
+describe('ev3 — mailbox messages', () => {
+	it('builds WRITEMAILBOX with name, length and payload', () => {
+		const result = buildCommand({ kind: 'mailbox:write', mailbox: 'abc', message: { type: 'text', value: 'hi' } });
+		assert.equal(result.type, EV3_COMMAND.SYSTEM_COMMAND_REPLY);
+		assert.deepEqual([...result.payload], [
+			EV3_SYSTEM.WRITEMAILBOX, 4, 0x61, 0x62, 0x63, 0,
+			3, 0, 0x68, 0x69, 0,
+		]);
+	});
+
+	it('encodes numeric messages as float32 and logic messages as one byte', () => {
+		const numeric = buildCommand({ kind: 'mailbox:write', mailbox: 'n', message: { type: 'numeric', value: 1.5 } });
+		const logic = buildCommand({ kind: 'mailbox:write', mailbox: 'l', message: { type: 'logic', value: true } });
+		assert.deepEqual([...numeric.payload.subarray(4)], [4, 0, 0x00, 0x00, 0xc0, 0x3f]);
+		assert.deepEqual([...logic.payload.subarray(4)], [1, 0, 1]);
+	});
+
+	it('rejects an empty mailbox name', () => {
+		assert.throws(() => buildCommand({ kind: 'mailbox:write', mailbox: '', message: { type: 'logic', value: false } }), /Mailbox name/);
+	});
+
+	it('parses an unsolicited WRITEMAILBOX packet from the brick', () => {
+		const packet: Ev3Packet = {
+			messageCounter: 7,
+			type: EV3_COMMAND.SYSTEM_COMMAND_NO_REPLY,
+			payload: new Uint8Array([EV3_SYSTEM.WRITEMAILBOX, 4, 0x61, 0x62, 0x63, 0, 2, 0, 0x6f, 0x6b]),
+		};
+		const parsed = parseMailboxPacket(packet);
+		assert.equal(parsed?.mailbox, 'abc');
+		assert.deepEqual([...parsed!.data], [0x6f, 0x6b]);
+	});
+
+	it('ignores replies and truncated mailbox packets', () => {
+		const reply: Ev3Packet = { messageCounter: 1, type: EV3_REPLY.SYSTEM_REPLY, payload: new Uint8Array([EV3_SYSTEM.WRITEMAILBOX, 0]) };
+		const truncated: Ev3Packet = {
+			messageCounter: 1,
+			type: EV3_COMMAND.SYSTEM_COMMAND_NO_REPLY,
+			payload: new Uint8Array([EV3_SYSTEM.WRITEMAILBOX, 2, 0x61, 0, 5, 0, 1]),
+		};
+		assert.equal(parseMailboxPacket(reply), undefined);
+		assert.equal(parseMailboxPacket(truncated), undefined);
+	});
+
+	it('decodes payloads as text, numeric or logic', () => {
+		assert.deepEqual(decodeMailboxValue(new Uint8Array([0x20, 0x61, 0]), 'text'), { type: 'text', value: ' a' });
+		assert.deepEqual(decodeMailboxValue(new Uint8Array([0, 0, 0xc0, 0x3f]), 'numeric'), { type: 'numeric', value: 1.5 });
+		assert.deepEqual(decodeMailboxValue(new Uint8Array([1]), 'logic'), { type: 'logic', value: true });
+	});
+});
@@ -2,12 +2,17 @@ import assert from 'assert/strict';
 import { describe, it } from 'node:test';
 
 import { Transport, makeBrickKey } from '../contracts';
-import type { BatteryResponse, PortsResponse, ButtonsResponse, FsListResponse, FsReadResponse, FsExistsResponse } from '../contracts';
+import type {
+	BatteryResponse, PortsResponse, ButtonsResponse,
+	FsListResponse, FsReadResponse, FsReadBinaryResponse, FsExistsResponse, FsMkdirResponse, FsRmdirResponse,
+	MailboxEvent, InfoResponse, SensorInfoResponse,
+} from '../contracts';
 import {
 	MockTransportProvider,
 	validateMockConfig,
 	MockConfig,
 } from '../mock';
+import { CommandRejectedError } from '../errors';
 
 // ── Helpers ─────────────────────────────────────────────────────────
 
@@ -116,7 +121,7 @@ describe('MockTransportProvider — send', () => {
 	it('returns battery info', async () => {
 		const provider = new MockTransportProvider(makeConfig([{
 			id: 'a',
-			battery: { level: 82, voltage: 7.2 },
+			battery: { level: 82, voltage: 7.2, current: 0.18 },
 		}]));
 		const key = makeBrickKey(Transport.Mock, 'a');
 		await provider.connect(key);
@@ -124,6 +129,40 @@ describe('MockTransportProvider — send', () => {
 		const result = await provider.send(key, { kind: 'battery' }) as BatteryResponse;
 		assert.equal(result.level, 82);
 		assert.equal(result.voltage, 7.2);
+		assert.equal(result.current, 0.18);
+	});
+
+	it('returns brick identity with serial derived from the BT address', async () => {
+		const provider = new MockTransportProvider(makeConfig([{
+			id: 'a',
+			displayName: 'Alpha',
+			firmwareVersion: 'V1.10E',
+			btAddress: '00:16:53:4a:12:bc',
+		}]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+
+		const result = await provider.send(key, { kind: 'info' }) as InfoResponse;
+		assert.equal(result.displayName, 'Alpha');
+		assert.equal(result.firmwareVersion, 'V1.10E');
+		assert.equal(result.btAddress, '00:16:53:4A:12:BC');
+		assert.equal(result.serialNumber, '0016534A12BC');
+		assert.ok(result.hardwareVersion);
+	});
+
+	it('renames the brick in info and discovery', async () => {
+		const provider = new MockTransportProvider(makeConfig([{ id: 'a', displayName: 'Alpha' }]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+
+		await provider.send(key, { kind: 'system:setName', name: 'Rover_2' });
+		const info = await provider.send(key, { kind: 'info' }) as InfoResponse;
+		const discovered = await provider.discover();
+		assert.equal(info.displayName, 'Rover_2');
+		assert.equal(discovered.items[0].displayName, 'Rover_2');
+
+		await assert.rejects(() => provider.send(key, { kind: 'system:setName', name: 'bad/name' }), /letters, digits/);
+		assert.equal((await provider.send(key, { kind: 'info' }) as InfoResponse).displayName, 'Rover_2');
 	});
 
 	it('returns port values', async () => {
@@ -140,6 +179,90 @@ describe('MockTransportProvider — send', () => {
 		assert.equal(result.sensorPorts[0].value, 3);
 	});
 
+	it('reports sensor values in the selected mode', async () => {
+		const provider = new MockTransportProvider(makeConfig([{
+			id: 'a',
+			sensorPorts: [{
+				port: '2', peripheralType: 'gyro', unit: 'deg', dynamic: { kind: 'static', value: 90 },
+				modes: [{ mode: 1, unit: 'd/s', dynamic: { kind: 'static', value: 15 } }],
+			}],
+		}]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+
+		const before = await provider.send(key, { kind: 'ports' }) as PortsResponse;
+		await provider.send(key, { kind: 'sensor:setMode', port: '2', mode: 1 });
+		const after = await provider.send(key, { kind: 'ports' }) as PortsResponse;
+		const viaRead = await provider.send(key, { kind: 'ports', sensorModes: { '2': 0 } }) as PortsResponse;
+
+		assert.deepEqual([before.sensorPorts[0].mode, before.sensorPorts[0].value, before.sensorPorts[0].unit], [0, 90, 'deg']);
+		assert.deepEqual([after.sensorPorts[0].mode, after.sensorPorts[0].value, after.sensorPorts[0].unit], [1, 15, 'd/s']);
+		assert.equal(viaRead.sensorPorts[0].mode, 0);
+		await assert.rejects(() => provider.send(key, { kind: 'sensor:setMode', port: '2', mode: 9 }), /0\.\.7/);
+	});
+
+	it('reports one dataset per component of a vector dynamic', async () => {
+		const provider = new MockTransportProvider(makeConfig([{
+			id: 'a',
+			sensorPorts: [
+				{ port: '1', peripheralType: 'color', dynamic: { kind: 'vector', components: [
+					{ kind: 'static', value: 10 }, { kind: 'static', value: 20 }, { kind: 'static', value: 30 },
+				] } },
+				{ port: '2', peripheralType: 'touch', dynamic: { kind: 'none' } },
+			],
+		}]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+
+		const result = await provider.send(key, { kind: 'ports' }) as PortsResponse;
+		assert.deepEqual(result.sensorPorts[0].datasets?.map(d => d.value), [10, 20, 30]);
+		assert.equal(result.sensorPorts[0].value, 10);
+		assert.equal(result.sensorPorts[1].datasets, undefined);
+		assert.throws(
+			() => makeConfig([{ sensorPorts: [{ port: '1', dynamic: { kind: 'vector', components: [
+				{ kind: 'vector', components: [{ kind: 'static', value: 1 }] },
+			] } as never }] }]),
+			/cannot be vectors/,
+		);
+	});
+
+	it('reports raw readings as integers without a unit', async () => {
+		const provider = new MockTransportProvider(makeConfig([{
+			id: 'a',
+			sensorPorts: [{ port: '1', peripheralType: 'gyro', unit: 'deg', dynamic: { kind: 'static', value: 12.6 } }],
+		}]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+
+		const result = await provider.send(key, { kind: 'ports', format: 'raw' }) as PortsResponse;
+		assert.deepEqual([result.sensorPorts[0].value, result.sensorPorts[0].unit], [13, undefined]);
+		assert.deepEqual(result.sensorPorts[0].datasets, [{ value: 13, unit: undefined }]);
+	});
+
+	it('describes sensors in their current mode', async () => {
+		const provider = new MockTransportProvider(makeConfig([{
+			id: 'a',
+			sensorPorts: [{
+				port: '1', peripheralType: 'gyro', deviceType: 32, modeName: 'GYRO-ANG', unit: 'deg',
+				dynamic: { kind: 'sine', min: -180, max: 180, periodMs: 1000 },
+				modes: [{ mode: 1, name: 'GYRO-RATE', unit: 'd/s', dynamic: { kind: 'static', value: 0 } }],
+			}],
+		}]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+
+		const angle = await provider.send(key, { kind: 'sensor:info', port: '1' }) as SensorInfoResponse;
+		await provider.send(key, { kind: 'sensor:setMode', port: '1', mode: 1 });
+		const rate = await provider.send(key, { kind: 'sensor:info', port: '1' }) as SensorInfoResponse;
+		const empty = await provider.send(key, { kind: 'sensor:info', port: '2' }) as SensorInfoResponse;
+
+		assert.deepEqual(angle.metadata, {
+			type: 32, mode: 0, name: 'GYRO-ANG', symbol: 'deg', min: -180, max: 180, modes: ['GYRO-ANG', 'GYRO-RATE'],
+		});
+		assert.deepEqual([rate.metadata.mode, rate.metadata.name, rate.metadata.symbol], [1, 'GYRO-RATE', 'd/s']);
+		assert.equal(empty.metadata.type, 126);
+	});
+
 	it('returns undefined value for none dynamic', async () => {
 		const provider = new MockTransportProvider(makeConfig([{
 			id: 'a',
@@ -163,6 +286,28 @@ describe('MockTransportProvider — send', () => {
 		});
 	});
 
+	it('reports storage left by the mock filesystem and rejects writes that do not fit', async () => {
+		const provider = new MockTransportProvider(makeConfig([{
+			id: 'a',
+			storage: { internalTotal: 100, sdCardTotal: 50 },
+			filesystem: [{ path: '/prjs/a.txt', content: 'x'.repeat(30) }, { path: '/media/card/b.txt', content: 'y'.repeat(20) }],
+		}]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+
+		assert.deepEqual(await provider.send(key, { kind: 'system:storage' }), {
+			kind: 'system:storage',
+			storage: { internal: { total: 100, free: 70 }, sdCard: { total: 50, free: 30 } },
+		});
+		await assert.rejects(
+			() => provider.send(key, { kind: 'fs:write', path: '/media/card/c.txt', content: 'z'.repeat(31) }),
+			/Not enough space.*31 bytes needed, 30 free/,
+		);
+		await provider.send(key, { kind: 'fs:write', path: '/prjs/c.txt', content: 'z'.repeat(31) });
+		assert.equal(provider.getFilesystem(key)?.read('/media/card/c.txt'), undefined);
+		assert.throws(() => makeConfig([{ id: 'b', storage: { internalTotal: -1 } }]), /internalTotal/);
+	});
+
 	it('throws when not connected', async () => {
 		const provider = new MockTransportProvider(makeConfig([{ id: 'a' }]));
 		const key = makeBrickKey(Transport.Mock, 'a');
@@ -182,6 +327,128 @@ describe('MockTransportProvider — send', () => {
 	});
 });
 
+// ── Motors ──────────────────────────────────────────────────────────
+
+describe('MockTransportProvider — motors', () => {
+	async function connectedMotorBrick() {
+		const provider = new MockTransportProvider(makeConfig([{
+			id: 'a',
+			motorPorts: [{ port: 'A', peripheralType: 'large-motor', unit: 'deg', dynamic: { kind: 'static', value: 5 } }],
+		}]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+		return { provider, key };
+	}
+
+	it('switches a port to simulated tacho after resetTacho', async () => {
+		const { provider, key } = await connectedMotorBrick();
+
+		const before = await provider.send(key, { kind: 'ports' }) as PortsResponse;
+		assert.equal(before.motorPorts[0].value, 5);
+
+		const reset = await provider.send(key, { kind: 'motor:resetTacho', ports: ['A'] });
+		assert.deepEqual(reset, { kind: 'motor:resetTacho' });
+		const after = await provider.send(key, { kind: 'ports' }) as PortsResponse;
+		assert.equal(after.motorPorts[0].value, 0);
+	});
+
+	it('advances tacho while running and holds it after stop', async () => {
+		const { provider, key } = await connectedMotorBrick();
+
+		await provider.send(key, { kind: 'motor:run', ports: ['A'], speed: 100 });
+		await new Promise<void>((r) => setTimeout(r, 30));
+		await provider.send(key, { kind: 'motor:stop', ports: ['A'], brake: true });
+
+		const first = await provider.send(key, { kind: 'ports' }) as PortsResponse;
+		assert.ok((first.motorPorts[0].value as number) > 0);
+		await new Promise<void>((r) => setTimeout(r, 10));
+		const second = await provider.send(key, { kind: 'ports' }) as PortsResponse;
+		assert.equal(second.motorPorts[0].value, first.motorPorts[0].value);
+	});
+
+	it('stops runForDegrees at the target angle', async () => {
+		const { provider, key } = await connectedMotorBrick();
+
+		// 1000 deg/s at full speed → 10 degrees take 10 ms
+		await provider.send(key, { kind: 'motor:runForDegrees', ports: ['A'], speed: -100, degrees: 10, brake: true });
+		await new Promise<void>((r) => setTimeout(r, 30));
+
+		const result = await provider.send(key, { kind: 'ports' }) as PortsResponse;
+		assert.equal(result.motorPorts[0].value, -10);
+	});
+
+	it('reports speed and busy state of a timed run until it ends', async () => {
+		const { provider, key } = await connectedMotorBrick();
+
+		const idle = await provider.send(key, { kind: 'ports' }) as PortsResponse;
+		await provider.send(key, { kind: 'motor:runForTime', ports: ['A'], speed: -40, timeMs: 20, brake: true });
+		const running = await provider.send(key, { kind: 'ports' }) as PortsResponse;
+		await new Promise<void>((r) => setTimeout(r, 40));
+		const done = await provider.send(key, { kind: 'ports' }) as PortsResponse;
+
+		assert.deepEqual([idle.motorPorts[0].speed, idle.motorPorts[0].busy], [0, false]);
+		assert.deepEqual([running.motorPorts[0].speed, running.motorPorts[0].busy], [-40, true]);
+		assert.deepEqual([done.motorPorts[0].speed, done.motorPorts[0].busy], [0, false]);
+	});
+
+	it('derives speed from a configured tacho dynamic', async () => {
+		const provider = new MockTransportProvider(makeConfig([{
+			id: 'a',
+			motorPorts: [{ port: 'B', peripheralType: 'large-motor', unit: 'deg', dynamic: { kind: 'triangle', min: 0, max: 500, periodMs: 2000 } }],
+		}]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+
+		const result = await provider.send(key, { kind: 'ports' }) as PortsResponse;
+		// 500 degrees per half period (1 s) is half of full speed
+		assert.equal(Math.abs(result.motorPorts[0].speed ?? 0), 50);
+		assert.equal(result.motorPorts[0].busy, true);
+	});
+
+	it('rejects out-of-range speed', async () => {
+		const { provider, key } = await connectedMotorBrick();
+
+		await assert.rejects(
+			() => provider.send(key, { kind: 'motor:runForTime', ports: ['A'], speed: 150, timeMs: 100, brake: false }),
+			/-100\.\.100/,
+		);
+	});
+});
+
+// ── Daisy chain ─────────────────────────────────────────────────────
+
+describe('MockTransportProvider — daisy chain', () => {
+	const chainConfig = () => makeConfig([
+		{ id: 'master', motorPorts: [{ port: 'A', dynamic: { kind: 'static', value: 1 } }] },
+		{ id: 'first', parentId: 'master', motorPorts: [{ port: 'A', dynamic: { kind: 'static', value: 2 } }] },
+		{ id: 'second', parentId: 'master', motorPorts: [{ port: 'A', dynamic: { kind: 'static', value: 3 } }] },
+	]);
+
+	it('reaches slaves only through their master, one layer each', async () => {
+		const provider = new MockTransportProvider(chainConfig());
+		const key = makeBrickKey(Transport.Mock, 'master');
+		await provider.connect(key);
+
+		const { items } = await provider.discover();
+		assert.deepEqual(items.map(i => i.brickKey), [key]);
+		await assert.rejects(() => provider.connect(makeBrickKey(Transport.Mock, 'first')), /daisy-chained to 'master'/);
+		assert.deepEqual(await provider.send(key, { kind: 'chain:list' }), { kind: 'chain:list', layers: [1, 2] });
+
+		const read = async (layer?: 0 | 1 | 2 | 3) =>
+			((await provider.send(key, { kind: 'ports', layer })) as PortsResponse).motorPorts[0].value;
+		assert.deepEqual([await read(), await read(1), await read(2)], [1, 2, 3]);
+		await assert.rejects(() => read(3), /layer 3/);
+
+		await provider.send(key, { kind: 'motor:resetTacho', ports: ['A'], layer: 2 });
+		assert.deepEqual([await read(1), await read(2)], [2, 0]);
+	});
+
+	it('rejects slaves of unknown or chained masters', () => {
+		assert.throws(() => makeConfig([{ id: 'a', parentId: 'missing' }]), /another configured brick/);
+		assert.throws(() => makeConfig([{ id: 'a' }, { id: 'b', parentId: 'a' }, { id: 'c', parentId: 'b' }]), /chained to slave/);
+	});
+});
+
 // ── Recover ─────────────────────────────────────────────────────────
 
 describe('MockTransportProvider — recover', () => {
@@ -199,6 +466,161 @@ describe('MockTransportProvider — recover', () => {
 	});
 });
 
+// ── Programs ────────────────────────────────────────────────────────
+
+describe('MockTransportProvider — programs', () => {
+	it('tracks the running program per brick', async () => {
+		const provider = new MockTransportProvider(makeConfig([
+			{ id: 'a', filesystem: [{ path: '/prjs/Demo/Demo.rbf', content: 'LEGO' }] },
+			{ id: 'b' },
+		]));
+		const a = makeBrickKey(Transport.Mock, 'a');
+		const b = makeBrickKey(Transport.Mock, 'b');
+		await provider.connect(a);
+		await provider.connect(b);
+
+		assert.deepEqual(await provider.send(a, { kind: 'program:status' }), { kind: 'program:status', status: 'stopped' });
+		await provider.send(a, { kind: 'program:run', path: '/prjs/Demo/Demo.rbf' });
+		assert.deepEqual(await provider.send(a, { kind: 'program:status' }), { kind: 'program:status', status: 'running' });
+		assert.deepEqual(await provider.send(b, { kind: 'program:status' }), { kind: 'program:status', status: 'stopped' });
+		assert.equal(provider.getRunningProgram(a), '/prjs/Demo/Demo.rbf');
+
+		await provider.send(a, { kind: 'program:stop' });
+		assert.deepEqual(await provider.send(a, { kind: 'program:status' }), { kind: 'program:status', status: 'stopped' });
+	});
+
+	it('rejects programs that are missing or not .rbf', async () => {
+		const provider = new MockTransportProvider(makeConfig([
+			{ id: 'a', filesystem: [{ path: '/prjs/beep.rsf', content: '' }] },
+		]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+
+		await assert.rejects(() => provider.send(key, { kind: 'program:run', path: '/prjs/none.rbf' }), /File not found/);
+		await assert.rejects(() => provider.send(key, { kind: 'program:run', path: '/prjs/beep.rsf' }), /\.rbf/);
+	});
+});
+
+// ── Sound ───────────────────────────────────────────────────────────
+
+describe('MockTransportProvider — sound', () => {
+	it('records tones, played files and stops in order', async () => {
+		const provider = new MockTransportProvider(makeConfig([
+			{ id: 'a', filesystem: [{ path: '/prjs/beep.rsf', content: '' }] },
+		]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+
+		await provider.send(key, { kind: 'sound:tone', frequency: 880, durationMs: 200 });
+		await provider.send(key, { kind: 'sound:play', path: '/prjs/beep.rsf', volume: 30 });
+		await provider.send(key, { kind: 'sound:stop' });
+
+		assert.deepEqual(provider.getPlayedSounds(key).map(({ timestamp: _, ...sound }) => sound), [
+			{ kind: 'tone', frequency: 880, durationMs: 200, volume: 50 },
+			{ kind: 'file', path: '/prjs/beep.rsf', volume: 30 },
+			{ kind: 'stop' },
+		]);
+		await assert.rejects(() => provider.send(key, { kind: 'sound:play', path: '/prjs/none.rsf', volume: 30 }), /File not found/);
+		await assert.rejects(() => provider.send(key, { kind: 'sound:tone', frequency: 20000, durationMs: 200 }), /frequency/);
+		assert.equal(provider.getPlayedSounds(key).length, 3);
+	});
+});
+
+// ── LED ─────────────────────────────────────────────────────────────
+
+describe('MockTransportProvider — LED', () => {
+	it('starts steady green and keeps the last pattern set', async () => {
+		const provider = new MockTransportProvider(makeConfig([{ id: 'a' }]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+
+		assert.deepEqual(provider.getLed(key), { color: 'green', effect: 'steady' });
+		assert.deepEqual(await provider.send(key, { kind: 'led:set', color: 'red', effect: 'flashing' }), { kind: 'led:set' });
+		assert.deepEqual(provider.getLed(key), { color: 'red', effect: 'flashing' });
+		await assert.rejects(() => provider.send(key, { kind: 'led:set', color: 'red', effect: 'strobe' as never }), /Invalid LED/);
+		assert.deepEqual(provider.getLed(key), { color: 'red', effect: 'flashing' });
+	});
+
+	it('sets the pattern without a reply, but not for reads', async () => {
+		const provider = new MockTransportProvider(makeConfig([{ id: 'a' }]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+
+		assert.equal(await provider.sendNoReply(key, { kind: 'led:set', color: 'orange', effect: 'pulsing' }), undefined);
+		assert.deepEqual(provider.getLed(key), { color: 'orange', effect: 'pulsing' });
+		await assert.rejects(() => provider.sendNoReply(key, { kind: 'battery' }), /needs a reply/);
+	});
+});
+
+// ── Mailbox ─────────────────────────────────────────────────────────
+
+describe('MockTransportProvider — mailbox', () => {
+	function collect(provider: MockTransportProvider): MailboxEvent[] {
+		const events: MailboxEvent[] = [];
+		provider.onMailboxMessage((event) => events.push(event));
+		return events;
+	}
+
+	it('echoes host messages and sends scripted replies', async () => {
+		const provider = new MockTransportProvider(makeConfig([{
+			id: 'a',
+			mailbox: { echo: true, replies: [{ on: 'cmd', mailbox: 'status', message: { type: 'text', value: 'done' } }] },
+		}]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+		const events = collect(provider);
+
+		await provider.send(key, { kind: 'mailbox:write', mailbox: 'cmd', message: { type: 'logic', value: true } });
+		await new Promise((r) => setTimeout(r, 10));
+
+		assert.deepEqual(events.map(e => e.mailbox), ['cmd', 'status']);
+		assert.deepEqual([...events[0].data], [1]);
+		assert.equal(Buffer.from(events[1].data).toString('latin1'), 'done\0');
+		assert.ok(events.every(e => e.brickKey === key));
+		provider.dispose();
+	});
+
+	it('refuses mailbox names the real transports cannot encode', async () => {
+		const provider = new MockTransportProvider(makeConfig([{ id: 'a', mailbox: { echo: true } }]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+		const events = collect(provider);
+		const message = { type: 'logic', value: true } as const;
+
+		for (const mailbox of ['', 'x'.repeat(255)]) {
+			await assert.rejects(() => provider.send(key, { kind: 'mailbox:write', mailbox, message }), /Mailbox name must be 1\.\.254 bytes/);
+		}
+		await provider.send(key, { kind: 'mailbox:write', mailbox: 'x'.repeat(254), message });
+		await new Promise((r) => setTimeout(r, 10));
+		assert.equal(events.length, 1);
+		provider.dispose();
+	});
+
+	it('stays silent without a mailbox config', async () => {
+		const provider = new MockTransportProvider(makeConfig([{ id: 'a' }]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+		const events = collect(provider);
+
+		await provider.send(key, { kind: 'mailbox:write', mailbox: 'cmd', message: { type: 'numeric', value: 2 } });
+		await new Promise((r) => setTimeout(r, 10));
+		assert.equal(events.length, 0);
+		provider.dispose();
+	});
+
+	it('delivers injected messages', async () => {
+		const provider = new MockTransportProvider(makeConfig([{ id: 'a' }]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+		const events = collect(provider);
+
+		provider.injectMailboxMessage(key, 'abc', { type: 'numeric', value: 1.5 });
+		assert.equal(events.length, 1);
+		assert.deepEqual([...events[0].data], [0, 0, 0xc0, 0x3f]);
+		provider.dispose();
+	});
+});
+
 // ── Filesystem ──────────────────────────────────────────────────────
 
 describe('MockTransportProvider — filesystem', () => {
@@ -206,8 +628,8 @@ describe('MockTransportProvider — filesystem', () => {
 		const provider = new MockTransportProvider(makeConfig([{
 			id: 'a',
 			filesystem: [
+				{ path: '/home/root/lms2012/prjs/Proj/b.rbf', content: 'LEGO' },
 				{ path: '/home/root/lms2012/prjs/Proj/a.rbf', content: '' },
-				{ path: '/home/root/lms2012/prjs/Proj/b.rbf', content: '' },
 				{ path: '/other/c.rbf',                        content: '' },
 			],
 		}]));
@@ -216,11 +638,33 @@ describe('MockTransportProvider — filesystem', () => {
 
 		const result = await provider.send(key, { kind: 'fs:list', path: '/home/root/lms2012/prjs/Proj' }) as FsListResponse;
 		assert.deepEqual(result.entries, [
-			'/home/root/lms2012/prjs/Proj/a.rbf',
-			'/home/root/lms2012/prjs/Proj/b.rbf',
+			{ name: 'a.rbf', kind: 'file', size: 0, md5: 'D41D8CD98F00B204E9800998ECF8427E' },
+			{ name: 'b.rbf', kind: 'file', size: 4, md5: '045AB0F2A6744CAB9DF05F98D3B0D0AF' },
 		]);
 	});
 
+	it('lists subfolders before files', async () => {
+		const provider = new MockTransportProvider(makeConfig([{
+			id: 'a',
+			filesystem: [
+				{ path: '/prjs/readme.txt',       content: 'x' },
+				{ path: '/prjs/Beta/main.rbf',    content: '' },
+				{ path: '/prjs/Alpha/sub/x.rsf',  content: '' },
+				{ path: '/prjs/Alpha/main.rbf',   content: '' },
+			],
+		}]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+
+		const result = await provider.send(key, { kind: 'fs:list', path: '/prjs/' }) as FsListResponse;
+		assert.deepEqual(result.entries.map((e) => `${e.kind}:${e.name}`), [
+			'folder:Alpha',
+			'folder:Beta',
+			'file:readme.txt',
+		]);
+		assert.equal(result.entries[0].size, undefined);
+	});
+
 	it('reads a file', async () => {
 		const provider = new MockTransportProvider(makeConfig([{
 			id: 'a',
@@ -233,6 +677,18 @@ describe('MockTransportProvider — filesystem', () => {
 		assert.equal(result.content, 'LEGO');
 	});
 
+	it('round-trips binary content byte-for-byte', async () => {
+		const provider = new MockTransportProvider(makeConfig([{ id: 'a' }]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+
+		// Not valid UTF-8 — a text round-trip would replace these bytes.
+		const bytes = Uint8Array.from([0x4c, 0x45, 0x47, 0x4f, 0x00, 0xff, 0xfe, 0x80]);
+		await provider.send(key, { kind: 'fs:writeBinary', path: '/prog.rbf', content: bytes });
+		const result = await provider.send(key, { kind: 'fs:readBinary', path: '/prog.rbf' }) as FsReadBinaryResponse;
+		assert.deepEqual(result.content, bytes);
+	});
+
 	it('throws on missing file read', async () => {
 		const provider = new MockTransportProvider(makeConfig([{ id: 'a' }]));
 		const key = makeBrickKey(Transport.Mock, 'a');
@@ -256,6 +712,38 @@ describe('MockTransportProvider — filesystem', () => {
 		assert.equal(missing.exists, false);
 	});
 
+	it('creates folders and removes them recursively', async () => {
+		const provider = new MockTransportProvider(makeConfig([{
+			id: 'a',
+			filesystem: [{ path: '/prjs/Old/sub/a.rbf', content: 'x' }],
+		}]));
+		const key = makeBrickKey(Transport.Mock, 'a');
+		await provider.connect(key);
+
+		const created = await provider.send(key, { kind: 'fs:mkdir', path: '/prjs/New' }) as FsMkdirResponse;
+		assert.equal(created.created, true);
+		const again = await provider.send(key, { kind: 'fs:mkdir', path: '/prjs/New/' }) as FsMkdirResponse;
+		assert.equal(again.created, false);
+		await assert.rejects(
+			() => provider.send(key, { kind: 'fs:mkdir', path: '/nope/New' }),
+			(error: unknown) => error instanceof CommandRejectedError && /Parent folder/.test(error.message),
+		);
+
+		const listed = await provider.send(key, { kind: 'fs:list', path: '/prjs' }) as FsListResponse;
+		assert.deepEqual(listed.entries.map((e) => e.name), ['New', 'Old']);
+
+		await assert.rejects(() => provider.send(key, { kind: 'fs:rmdir', path: '/prjs/Old', recursive: false }), /not empty/);
+		const removed = await provider.send(key, { kind: 'fs:rmdir', path: '/prjs/Old', recursive: true }) as FsRmdirResponse;
+		assert.equal(removed.deleted, true);
+		const exists = await provider.send(key, { kind: 'fs:exists', path: '/prjs/Old/sub/a.rbf' }) as FsExistsResponse;
+		assert.equal(exists.exists, false);
+
+		const empty = await provider.send(key, { kind: 'fs:rmdir', path: '/prjs/New', recursive: false }) as FsRmdirResponse;
+		assert.equal(empty.deleted, true);
+		const missing = await provider.send(key, { kind: 'fs:rmdir', path: '/prjs/New', recursive: true }) as FsRmdirResponse;
+		assert.equal(missing.deleted, false);
+	});
+
 	it('provides filesystem via getFilesystem()', () => {
 		const provider = new MockTransportProvider(makeConfig([{
 			id: 'a',
@@ -322,4 +810,18 @@ describe('validateMockConfig', () => {
 			bricks: [{ id: 'a', displayName: 'A', battery: { level: 150 }, motorPorts: [], sensorPorts: [] }],
 		}), /battery\.level/);
 	});
+
+	it('rejects a malformed btAddress', () => {
+		assert.throws(() => validateMockConfig({
+			transport: 'mock',
+			bricks: [{ id: 'a', displayName: 'A', btAddress: '0016534A12BC', battery: { level: 50 }, motorPorts: [], sensorPorts: [] }],
+		}), /btAddress/);
+	});
+
+	it('rejects a negative battery voltage', () => {
+		assert.throws(() => validateMockConfig({
+			transport: 'mock',
+			bricks: [{ id: 'a', displayName: 'A', battery: { level: 50, voltage: -1 }, motorPorts: [], sensorPorts: [] }],
+		}), /battery\.voltage/);
+	});
 });
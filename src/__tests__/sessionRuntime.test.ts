@@ -21,8 +21,12 @@ import { HeartbeatMonitor } from '../runtime/heartbeatMonitor';
 import { ReconnectStrategy } from '../runtime/reconnectStrategy';
 import { ProviderRegistry } from '../transports/providerRegistry';
 import { MockTransportProvider } from '../mock/mockTransportProvider';
-import { ConnectionState, ActivityMode, Transport } from '../contracts/enums';
+import { ConnectionState, ActivityMode, TelemetryCategory, Transport } from '../contracts/enums';
+import type { SystemTelemetry } from '../contracts/models';
 import { BrickKey, makeBrickKey } from '../contracts/brickKey';
+import type { BrickCommand, BrickResponse, TransportProvider } from '../contracts/transport';
+import { CommandRejectedError } from '../errors/CockpitError';
+import type * as vscode from 'vscode';
 
 // ═══════════════════════════════════════════════════════════════════════
 // SessionEntry — state machine
@@ -173,6 +177,112 @@ describe('CommandQueue', () => {
 		assert.equal(queue.depth >= 0, true); // At least 0 after shift
 	});
 
+	it('skips commands aborted while queued and passes options to the executor', async () => {
+		const seen: Array<{ kind: string; hasSignal: boolean }> = [];
+		const queue = new CommandQueue();
+		queue.setExecutor(async (cmd, options) => {
+			seen.push({ kind: cmd.kind, hasSignal: options?.signal !== undefined });
+			await new Promise<void>((r) => setTimeout(r, 10));
+			return { kind: 'battery', level: 50 } as const;
+		});
+
+		const controller = new AbortController();
+		const p1 = queue.send({ kind: 'battery' });
+		const p2 = queue.send({ kind: 'ports' }, { signal: controller.signal });
+		const p3 = queue.send({ kind: 'info' }, { signal: new AbortController().signal });
+		controller.abort();
+
+		await p1;
+		await assert.rejects(() => p2, /aborted before dispatch/);
+		await p3;
+		assert.deepEqual(seen, [
+			{ kind: 'battery', hasSignal: false },
+			{ kind: 'info', hasSignal: true },
+		]);
+	});
+
+	const isRead = (cmd: BrickCommand) => ['battery', 'ports', 'buttons', 'sensor:info'].includes(cmd.kind);
+
+	it('batches read commands queued back to back, up to the next other command', async () => {
+		const calls: string[] = [];
+		const queue = new CommandQueue();
+		queue.setExecutor(async (cmd) => {
+			calls.push(cmd.kind);
+			await new Promise<void>((r) => setTimeout(r, 10));
+			return { kind: cmd.kind } as BrickResponse;
+		});
+		queue.setBatchExecutor((cmds) => {
+			calls.push(cmds.map((c) => c.kind).join('+'));
+			return Promise.resolve(cmds.map((c) => ({ kind: c.kind }) as BrickResponse));
+		}, isRead);
+
+		const responses = await Promise.all([
+			queue.send({ kind: 'battery' }),
+			queue.send({ kind: 'ports' }),
+			queue.send({ kind: 'buttons' }),
+			queue.send({ kind: 'motor:stop', ports: ['A'], brake: true }),
+			queue.send({ kind: 'battery' }),
+		]);
+		assert.deepEqual(calls, ['battery', 'ports+buttons', 'motor:stop', 'battery']);
+		assert.deepEqual(responses.map((r) => r.kind), ['battery', 'ports', 'buttons', 'motor:stop', 'battery']);
+	});
+
+	it('resends a rejected batch command by command', async () => {
+		const queue = new CommandQueue();
+		queue.setExecutor(async (cmd) => {
+			await new Promise<void>((r) => setTimeout(r, 5));
+			if (cmd.kind === 'sensor:info') {
+				throw new CommandRejectedError('EV3 direct command error', { commandKind: cmd.kind });
+			}
+			return { kind: cmd.kind } as BrickResponse;
+		});
+		queue.setBatchExecutor(() => Promise.reject(new CommandRejectedError('EV3 direct command error')), isRead);
+
+		const first = queue.send({ kind: 'battery' });
+		const results = await Promise.allSettled([
+			queue.send({ kind: 'ports' }),
+			queue.send({ kind: 'sensor:info', port: '1' }),
+		]);
+		await first;
+		assert.equal(results[0].status, 'fulfilled');
+		assert.equal(results[1].status, 'rejected');
+	});
+
+	it('rejects a batched command aborted in flight and delivers the rest', async () => {
+		const queue = new CommandQueue();
+		queue.setExecutor(async (cmd) => {
+			await new Promise<void>((r) => setTimeout(r, 5));
+			return { kind: cmd.kind } as BrickResponse;
+		});
+		queue.setBatchExecutor(async (cmds) => {
+			await new Promise<void>((r) => setTimeout(r, 20));
+			return cmds.map((c) => ({ kind: c.kind }) as BrickResponse);
+		}, isRead);
+		const controller = new AbortController();
+
+		const first = queue.send({ kind: 'battery' });
+		const ports = queue.send({ kind: 'ports' }, { signal: controller.signal });
+		const buttons = queue.send({ kind: 'buttons' });
+		await first;
+		controller.abort();
+		await assert.rejects(() => ports, /'ports' aborted/);
+		assert.equal((await buttons).kind, 'buttons');
+	});
+
+	it('never batches without a predicate that accepts the command', async () => {
+		const calls: string[] = [];
+		const queue = new CommandQueue();
+		queue.setExecutor(async (cmd) => {
+			calls.push(cmd.kind);
+			await new Promise<void>((r) => setTimeout(r, 5));
+			return { kind: cmd.kind } as BrickResponse;
+		});
+		queue.setBatchExecutor(() => Promise.reject(new Error('unexpected batch')));
+
+		await Promise.all([queue.send({ kind: 'battery' }), queue.send({ kind: 'ports' }), queue.send({ kind: 'buttons' })]);
+		assert.deepEqual(calls, ['battery', 'ports', 'buttons']);
+	});
+
 	it('rejects after dispose', async () => {
 		const queue = new CommandQueue();
 		queue.setExecutor(async () => ({ kind: 'battery', level: 50 } as const));
@@ -298,6 +408,7 @@ describe('SessionManager', () => {
 				battery: { level: 75, voltage: 7.2 },
 				motorPorts: [],
 				sensorPorts: [],
+				storage: { internalTotal: 6 * 1024 * 1024, sdCardTotal: 2 * 1024 * 1024 * 1024 },
 			},
 			{
 				id: 'brick-b',
@@ -490,6 +601,181 @@ describe('SessionManager', () => {
 		);
 	});
 
+	it('reports battery and storage in the system telemetry snapshot', async () => {
+		const keyA = makeBrickKey(Transport.Mock, 'brick-a');
+		await manager.connect(keyA, Transport.Mock);
+
+		const snapshot = await manager.refreshSystemTelemetry(keyA);
+		assert.equal(snapshot.brickKey, keyA);
+		assert.equal(snapshot.category, TelemetryCategory.System);
+		const data = snapshot.data as SystemTelemetry;
+		assert.equal(data.battery?.level, 75);
+		assert.equal(data.storage?.internal.total, 6 * 1024 * 1024);
+		assert.equal(data.storage?.sdCard?.total, 2 * 1024 * 1024 * 1024);
+		const storage = await manager.send(keyA, { kind: 'system:storage' });
+		if (storage.kind === 'system:storage') {
+			assert.deepEqual(data.storage, storage.storage);
+		}
+		await assert.rejects(() => manager.refreshSystemTelemetry('unknown' as BrickKey), /not connected/);
+	});
+
+	it('forwards mailbox messages of connected bricks only', async () => {
+		const keyA = makeBrickKey(Transport.Mock, 'brick-a');
+		const keyB = makeBrickKey(Transport.Mock, 'brick-b');
+		await manager.connect(keyA, Transport.Mock);
+		await mockProvider.connect(keyB);
+		const mailboxes: string[] = [];
+		manager.onMailboxMessage((e) => mailboxes.push(`${e.brickKey}:${e.mailbox}`));
+
+		mockProvider.injectMailboxMessage(keyA, 'one', { type: 'logic', value: true });
+		mockProvider.injectMailboxMessage(keyB, 'two', { type: 'logic', value: true });
+		await manager.disconnect(keyA);
+		await mockProvider.connect(keyA);
+		mockProvider.injectMailboxMessage(keyA, 'three', { type: 'logic', value: true });
+
+		assert.deepEqual(mailboxes, [`${keyA}:one`]);
+	});
+
+	// ── Sensor modes ────────────────────────────────────────────
+
+	it('applies and persists sensor mode preferences', async () => {
+		const stored = new Map<string, unknown>();
+		const storage = {
+			keys: () => [...stored.keys()],
+			get: <T>(key: string) => stored.get(key) as T | undefined,
+			update: (key: string, value: unknown) => { stored.set(key, value); return Promise.resolve(); },
+		} as vscode.Memento;
+		const keyA = makeBrickKey(Transport.Mock, 'brick-a');
+		const sent: BrickCommand[] = [];
+		const send = mockProvider.send.bind(mockProvider);
+		mockProvider.send = (key, command, options) => { sent.push(command); return send(key, command, options); };
+		const persisted = new SessionManager({ providerRegistry: registry, storage });
+
+		await persisted.connect(keyA, Transport.Mock);
+		await persisted.setSensorMode(keyA, '1', 2);
+		await persisted.send(keyA, { kind: 'ports' });
+		assert.deepEqual(sent.map(c => c.kind), ['chain:list', 'sensor:setMode', 'ports']);
+		assert.deepEqual((sent[2] as { sensorModes?: unknown }).sensorModes, { '1': 2 });
+		persisted.dispose();
+
+		// A new manager over the same storage remembers the preference.
+		const restored = new SessionManager({ providerRegistry: registry, storage });
+		assert.deepEqual(restored.getSensorModes(keyA), { '1': 2 });
+		await assert.rejects(() => restored.setSensorMode(keyA, '1', 8), /0\.\.7/);
+		restored.dispose();
+	});
+
+	it('names sensor ports from cached firmware metadata', async () => {
+		const provider = new MockTransportProvider({
+			transport: Transport.Mock,
+			bricks: [{
+				id: 'nxt', displayName: 'NXT', battery: { level: 50 }, motorPorts: [],
+				sensorPorts: [{ port: '1', deviceType: 5, modeName: 'NXT-US-CM', unit: 'cm', dynamic: { kind: 'static', value: 42 } }],
+			}],
+		});
+		const sent: string[] = [];
+		const send = provider.send.bind(provider);
+		provider.send = (key, command, options) => { sent.push(command.kind); return send(key, command, options); };
+		const nxtRegistry = new ProviderRegistry();
+		nxtRegistry.register(provider);
+		const nxtManager = new SessionManager({ providerRegistry: nxtRegistry });
+		const key = makeBrickKey(Transport.Mock, 'nxt');
+		await nxtManager.connect(key, Transport.Mock);
+
+		const first = await nxtManager.send(key, { kind: 'ports' });
+		await nxtManager.send(key, { kind: 'ports' });
+
+		assert.equal(first.kind, 'ports');
+		if (first.kind === 'ports') {
+			assert.deepEqual([first.sensorPorts[0].peripheralType, first.sensorPorts[0].unit], ['nxt-us-cm', 'cm']);
+		}
+		assert.deepEqual(sent, ['chain:list', 'ports', 'sensor:info', 'ports']);
+		nxtManager.dispose();
+	});
+
+	it('looks sensors up in one batch and keeps the mode unit when the symbol is blank', async () => {
+		const provider = new MockTransportProvider({
+			transport: Transport.Mock,
+			bricks: [{
+				id: 'b', displayName: 'B', battery: { level: 50 }, motorPorts: [],
+				sensorPorts: [
+					{ port: '1', deviceType: 5, modeName: 'NXT-US-CM', unit: 'cm', dynamic: { kind: 'static', value: 42 } },
+					{ port: '2', deviceType: 9, modeName: 'NXT-TEMP-C', unit: 'C', dynamic: { kind: 'static', value: 21 } },
+				],
+			}],
+		});
+		const send = provider.send.bind(provider);
+		// The firmware leaves the temperature symbol blank.
+		provider.send = async (key, command, options) => {
+			const reply = await send(key, command, options);
+			return reply.kind === 'sensor:info' && reply.metadata.type === 9
+				? { ...reply, metadata: { ...reply.metadata, symbol: '' } }
+				: reply;
+		};
+		const batches: string[][] = [];
+		const batching: TransportProvider = provider;
+		batching.sendBatch = (key, commands) => {
+			batches.push(commands.map((c) => c.kind));
+			return Promise.all(commands.map((c) => provider.send(key, c)));
+		};
+		batching.canBatch = (command) => command.kind === 'sensor:info';
+		const batchRegistry = new ProviderRegistry();
+		batchRegistry.register(provider);
+		const batchManager = new SessionManager({ providerRegistry: batchRegistry });
+		const key = makeBrickKey(Transport.Mock, 'b');
+		await batchManager.connect(key, Transport.Mock);
+
+		const ports = await batchManager.send(key, { kind: 'ports' });
+		assert.deepEqual(batches, [['sensor:info', 'sensor:info']]);
+		assert.equal(ports.kind, 'ports');
+		if (ports.kind === 'ports') {
+			assert.deepEqual(ports.sensorPorts.map((p) => p.unit), ['cm', 'C']);
+		}
+		batchManager.dispose();
+	});
+
+	it('models daisy-chained slaves as child bricks of the master session', async () => {
+		const provider = new MockTransportProvider({
+			transport: Transport.Mock,
+			bricks: [
+				{ id: 'master', displayName: 'Master', battery: { level: 50 }, motorPorts: [], sensorPorts: [] },
+				{
+					id: 'slave', displayName: 'Slave', battery: { level: 50 }, parentId: 'master', sensorPorts: [],
+					motorPorts: [{ port: 'A', peripheralType: 'large-motor', unit: 'deg', dynamic: { kind: 'static', value: 7 } }],
+				},
+			],
+		});
+		const chainRegistry = new ProviderRegistry();
+		chainRegistry.register(provider);
+		const chainManager = new SessionManager({ providerRegistry: chainRegistry });
+		const masterKey = makeBrickKey(Transport.Mock, 'master');
+		const events: number[] = [];
+		chainManager.onChainChange((e) => events.push(e.chainedBricks.length));
+		const detected = new Promise((resolve) => chainManager.onChainChange(resolve));
+
+		// Detection runs after connect returns, so the session is usable before the chain is known.
+		await chainManager.connect(masterKey, Transport.Mock, 'Master');
+		assert.deepEqual(chainManager.getChainedBricks(masterKey), []);
+		await detected;
+		const [slave] = chainManager.getChainedBricks(masterKey);
+		assert.deepEqual([slave.brickKey, slave.layer, slave.displayName], [`${masterKey}#1`, 1, 'Master (layer 1)']);
+		assert.deepEqual(events, [1]);
+
+		// An unchanged chain does not fire again.
+		await chainManager.detectChain(masterKey);
+		assert.deepEqual(events, [1]);
+
+		const ports = await chainManager.send(slave.brickKey, { kind: 'ports' });
+		assert.equal(ports.kind === 'ports' && ports.motorPorts[0].value, 7);
+		assert.equal(chainManager.getChainedBricks(masterKey)[0].motorPorts[0].value, 7);
+		await assert.rejects(() => chainManager.send(slave.brickKey, { kind: 'fs:list', path: '/' }), /daisy-chained/);
+
+		await chainManager.disconnect(masterKey);
+		assert.deepEqual(chainManager.getChainedBricks(masterKey), []);
+		await assert.rejects(() => chainManager.send(slave.brickKey, { kind: 'ports' }), /not connected/);
+		chainManager.dispose();
+	});
+
 	// ── Disconnect clears active brick ──────────────────────────
 
 	it('clears active brick on disconnect', async () => {
@@ -3,6 +3,9 @@
  * - TransportGuard (rate limiting, firmware safety, degradation)
  * - BtConnectionQueue (serialized RFCOMM, cooldowns, backoff)
  * - PendingReply utilities (message counter matching, drain, length-prefix extraction)
+ * - File transfers in both directions (chunking, progress, cancellation, handle cleanup)
+ * - Protocol trace (tracing adapter, capture files)
+ * - Protocol errors surfaced by the packet exchange
  */
 
 import { describe, it, beforeEach } from 'node:test';
@@ -16,6 +19,22 @@ import {
 	extractLengthPrefixedPacket,
 	PendingReply,
 } from '../transports/pendingReply';
+import {
+	uploadFile, downloadFile, listDirectory, createDirectory, removeDirectory, PacketExchange,
+} from '../transports/fileTransfer';
+import {
+	ProtocolTrace, TracingAdapter, TraceEntry, serializeTrace, parseTrace, formatTraceEntry,
+} from '../transports/protocolTrace';
+import { TransportAdapter } from '../transports/transportAdapter';
+import {
+	createPacketExchange, sendCommandViaAdapter, sendBatchViaAdapter, sendNoReplyViaAdapter, PacketAdapter,
+} from '../transports/protocolBridge';
+import { BtTransportProvider } from '../transports/btTransportProvider';
+import { ProtocolError, CommandRejectedError, AbortedError } from '../errors';
+import { Transport, BrickKey, makeBrickKey } from '../contracts';
+import { EncodedCommand, buildCommand } from '../protocol/ev3Commands';
+import { readUint16le } from '../protocol/ev3Bytecode';
+import { Ev3Packet, EV3_COMMAND, EV3_REPLY, EV3_SYSTEM, EV3_SYSTEM_STATUS, encodeEv3Packet } from '../protocol/ev3Packet';
 
 // ═══════════════════════════════════════════════════════════════════════
 // TransportGuard
@@ -319,6 +338,58 @@ describe('PendingReply utilities', () => {
 			drainPendingReply(pending, () => packet);
 			assert.equal(resolved, true);
 		});
+
+		it('routes non-matching packets to the unsolicited handler', () => {
+			let resolved: Uint8Array | undefined;
+			const pending: PendingReply = {
+				resolve: (p) => { resolved = p; },
+				reject: () => {},
+				cleanup: () => {},
+				expectedMessageCounter: 42,
+			};
+			const mailbox = new Uint8Array([5, 0, 0, 0, 0x81, 0x9e, 0]);
+			const reply = new Uint8Array([5, 0, 42, 0, 0x03, 0x9e, 0]);
+			const queue = [mailbox, reply];
+			const unsolicited: Uint8Array[] = [];
+
+			const result = drainPendingReply(pending, () => queue.shift(), (p) => unsolicited.push(p));
+
+			assert.equal(result, undefined);
+			assert.deepEqual(resolved, reply);
+			assert.deepEqual(unsolicited, [mailbox]);
+		});
+
+		it('never takes a mailbox write for the reply, even with the same counter', () => {
+			// The brick may send WRITEMAILBOX with (0x01) or without (0x81) a reply requested.
+			for (const type of [0x81, 0x01]) {
+				let resolved: Uint8Array | undefined;
+				const pending: PendingReply = {
+					resolve: (p) => { resolved = p; },
+					reject: () => {},
+					cleanup: () => {},
+					expectedMessageCounter: 42,
+				};
+				const mailbox = new Uint8Array([5, 0, 42, 0, type, 0x9e, 0]);
+				const reply = new Uint8Array([5, 0, 42, 0, 0x03, 0x9e, 0]);
+				const queue = [mailbox, reply];
+				const unsolicited: Uint8Array[] = [];
+
+				const result = drainPendingReply(pending, () => queue.shift(), (p) => unsolicited.push(p));
+
+				assert.equal(result, undefined);
+				assert.deepEqual(resolved, reply);
+				assert.deepEqual(unsolicited, [mailbox]);
+			}
+		});
+
+		it('consumes packets while nothing is pending when a handler is set', () => {
+			const queue = [new Uint8Array([3, 0, 0, 0, 0x81]), new Uint8Array([3, 0, 1, 0, 0x81])];
+			const unsolicited: Uint8Array[] = [];
+
+			assert.equal(drainPendingReply(undefined, () => queue.shift(), (p) => unsolicited.push(p)), undefined);
+			assert.equal(unsolicited.length, 2);
+			assert.equal(queue.length, 0);
+		});
 	});
 
 	describe('rejectPendingReply', () => {
@@ -375,3 +446,629 @@ describe('PendingReply utilities', () => {
 		});
 	});
 });
+
+// ═══════════════════════════════════════════════════════════════════════
+// File transfers
+// ═══════════════════════════════════════════════════════════════════════
+
+/**
+ * Minimal brick-side handler for the file transfer system commands. Direct
+ * commands are taken to be the storage query; they are counted in
+ * `storageQueries`, not recorded in `sent`.
+ */
+class FakeFileBrick {
+	readonly files = new Map<string, Uint8Array>();
+	readonly sent: number[] = [];
+	storageQueries = 0;
+	/** Free space reported per medium, in KB; `sdCardFreeKb` undefined = no card. */
+	internalFreeKb = 4096;
+	sdCardFreeKb?: number;
+	readonly closed: number[] = [];
+	readonly deleted: string[] = [];
+	readonly folders = new Set<string>();
+	failOnChunk?: number;
+	private readonly open = new Map<number, { path: string; size: number; data: number[] }>();
+	private readonly reading = new Map<number, { data: Uint8Array; offset: number }>();
+	private nextHandle = 1;
+	private chunks = 0;
+
+	readonly exchange: PacketExchange = async (command: EncodedCommand): Promise<Ev3Packet> => {
+		const p = command.payload;
+		if (command.type === EV3_COMMAND.DIRECT_COMMAND_REPLY) {
+			this.storageQueries++;
+			return this.storageReply();
+		}
+		this.sent.push(p[0]);
+		switch (p[0]) {
+			case EV3_SYSTEM.BEGIN_DOWNLOAD: {
+				const size = new DataView(p.buffer, p.byteOffset).getUint32(1, true);
+				const path = Buffer.from(p.subarray(5, p.length - 1)).toString('utf8');
+				const handle = this.nextHandle++;
+				this.open.set(handle, { path, size, data: [] });
+				return this.reply(p[0], EV3_SYSTEM_STATUS.OK, [handle]);
+			}
+			case EV3_SYSTEM.CONTINUE_DOWNLOAD: {
+				this.chunks++;
+				if (this.chunks === this.failOnChunk) {
+					return this.reply(p[0], EV3_SYSTEM_STATUS.UNKNOWN_ERROR, [p[1]]);
+				}
+				const file = this.open.get(p[1]);
+				if (!file) { return this.reply(p[0], EV3_SYSTEM_STATUS.UNKNOWN_HANDLE, [p[1]]); }
+				file.data.push(...p.subarray(2));
+				if (file.data.length < file.size) {
+					return this.reply(p[0], EV3_SYSTEM_STATUS.OK, [p[1]]);
+				}
+				this.files.set(file.path, Uint8Array.from(file.data));
+				this.open.delete(p[1]);
+				return this.reply(p[0], EV3_SYSTEM_STATUS.END_OF_FILE, [p[1]]);
+			}
+			case EV3_SYSTEM.BEGIN_UPLOAD:
+			case EV3_SYSTEM.LIST_FILES: {
+				const max = new DataView(p.buffer, p.byteOffset).getUint16(1, true);
+				const path = Buffer.from(p.subarray(3, p.length - 1)).toString('utf8');
+				const data = this.files.get(path);
+				if (!data) { return this.reply(p[0], EV3_SYSTEM_STATUS.UNKNOWN_ERROR, []); }
+				const handle = this.nextHandle++;
+				const size = [data.length & 0xff, (data.length >> 8) & 0xff, (data.length >> 16) & 0xff, 0];
+				return this.reply(p[0], ...this.readChunk(handle, data, 0, max, size));
+			}
+			case EV3_SYSTEM.CONTINUE_UPLOAD:
+			case EV3_SYSTEM.CONTINUE_LIST_FILES: {
+				this.chunks++;
+				const file = this.reading.get(p[1]);
+				if (this.chunks === this.failOnChunk || !file) {
+					return this.reply(p[0], EV3_SYSTEM_STATUS.UNKNOWN_HANDLE, [p[1]]);
+				}
+				const max = new DataView(p.buffer, p.byteOffset).getUint16(2, true);
+				return this.reply(p[0], ...this.readChunk(p[1], file.data, file.offset, max, []));
+			}
+			case EV3_SYSTEM.CREATE_DIR: {
+				const path = Buffer.from(p.subarray(1, p.length - 1)).toString('utf8');
+				const status = this.folders.has(path) ? EV3_SYSTEM_STATUS.FILE_EXISTS : EV3_SYSTEM_STATUS.OK;
+				this.folders.add(path);
+				return this.reply(p[0], status, []);
+			}
+			case EV3_SYSTEM.DELETE_FILE:
+				this.deleted.push(Buffer.from(p.subarray(1, p.length - 1)).toString('utf8'));
+				return this.reply(p[0], EV3_SYSTEM_STATUS.OK, []);
+			case EV3_SYSTEM.CLOSE_FILEHANDLE:
+				this.closed.push(p[1]);
+				this.open.delete(p[1]);
+				this.reading.delete(p[1]);
+				return this.reply(p[0], EV3_SYSTEM_STATUS.OK, [p[1]]);
+			default:
+				throw new Error(`Unexpected system command 0x${p[0].toString(16)}`);
+		}
+	};
+
+	private storageReply(): Ev3Packet {
+		const payload = new Uint8Array(17);
+		const view = new DataView(payload.buffer);
+		view.setInt32(0, 8192, true);
+		view.setInt32(4, this.internalFreeKb, true);
+		if (this.sdCardFreeKb !== undefined) {
+			view.setInt32(8, 32768, true);
+			view.setInt32(12, this.sdCardFreeKb, true);
+			payload[16] = 1;
+		}
+		return { messageCounter: 0, type: EV3_REPLY.DIRECT_REPLY, payload };
+	}
+
+	private readChunk(handle: number, data: Uint8Array, offset: number, max: number, prefix: number[]): [number, number[]] {
+		const chunk = data.subarray(offset, offset + max);
+		const done = offset + chunk.length >= data.length;
+		if (done) {
+			this.reading.delete(handle);
+		} else {
+			this.reading.set(handle, { data, offset: offset + chunk.length });
+		}
+		const prefixData = prefix.length > 0 ? [...prefix, handle] : [handle];
+		return [done ? EV3_SYSTEM_STATUS.END_OF_FILE : EV3_SYSTEM_STATUS.OK, [...prefixData, ...chunk]];
+	}
+
+	private reply(command: number, status: number, data: number[]): Ev3Packet {
+		const type = status === EV3_SYSTEM_STATUS.OK || status === EV3_SYSTEM_STATUS.END_OF_FILE
+			? EV3_REPLY.SYSTEM_REPLY
+			: EV3_REPLY.SYSTEM_REPLY_ERROR;
+		return { messageCounter: 0, type, payload: new Uint8Array([command, status, ...data]) };
+	}
+}
+
+describe('uploadFile', () => {
+	const content = Uint8Array.from({ length: 2500 }, (_, i) => i & 0xff);
+
+	it('splits content into CONTINUE_DOWNLOAD chunks and reports progress', async () => {
+		const brick = new FakeFileBrick();
+		const progress: number[] = [];
+
+		await uploadFile(brick.exchange, '/home/root/lms2012/prjs/big.bin', content, {
+			onProgress: (p) => { progress.push(p.transferred); assert.equal(p.total, 2500); },
+		});
+
+		assert.deepEqual(brick.sent, [
+			EV3_SYSTEM.BEGIN_DOWNLOAD,
+			EV3_SYSTEM.CONTINUE_DOWNLOAD,
+			EV3_SYSTEM.CONTINUE_DOWNLOAD,
+			EV3_SYSTEM.CONTINUE_DOWNLOAD,
+		]);
+		assert.deepEqual(progress, [0, 1017, 2034, 2500]);
+		assert.deepEqual(brick.files.get('/home/root/lms2012/prjs/big.bin'), content);
+		assert.deepEqual(brick.closed, []);
+	});
+
+	it('sends only BEGIN_DOWNLOAD for empty content', async () => {
+		const brick = new FakeFileBrick();
+		await uploadFile(brick.exchange, '/empty', new Uint8Array());
+		assert.deepEqual(brick.sent, [EV3_SYSTEM.BEGIN_DOWNLOAD]);
+	});
+
+	it('closes the handle when a chunk is rejected', async () => {
+		const brick = new FakeFileBrick();
+		brick.failOnChunk = 2;
+
+		await assert.rejects(() => uploadFile(brick.exchange, '/f', content), /UNKNOWN_ERROR/);
+		assert.deepEqual(brick.closed, [1]);
+	});
+
+	it('closes the handle when aborted between chunks', async () => {
+		const brick = new FakeFileBrick();
+		const controller = new AbortController();
+
+		await assert.rejects(
+			() => uploadFile(brick.exchange, '/f', content, {
+				signal: controller.signal,
+				onProgress: (p) => { if (p.transferred > 0) { controller.abort(); } },
+			}),
+			AbortedError,
+		);
+		assert.equal(brick.sent.filter((c) => c === EV3_SYSTEM.CONTINUE_DOWNLOAD).length, 1);
+		assert.deepEqual(brick.closed, [1]);
+	});
+
+	it('does not open a handle when already aborted', async () => {
+		const brick = new FakeFileBrick();
+		const controller = new AbortController();
+		controller.abort();
+
+		await assert.rejects(() => uploadFile(brick.exchange, '/f', content, { signal: controller.signal }), AbortedError);
+		assert.deepEqual(brick.sent, []);
+	});
+
+	it('fails before opening a handle when the brick is short of space', async () => {
+		const brick = new FakeFileBrick();
+		brick.internalFreeKb = 2;
+
+		await assert.rejects(
+			() => uploadFile(brick.exchange, '/home/root/lms2012/prjs/big.bin', content),
+			(error) => error instanceof CommandRejectedError
+				&& /Not enough space on the brick for \/home\/root\/lms2012\/prjs\/big\.bin: 2500 bytes needed, 2048 free/.test(error.message),
+		);
+		assert.deepEqual(brick.sent, []);
+	});
+
+	it('checks the space for content that fits one packet too', async () => {
+		const brick = new FakeFileBrick();
+		brick.internalFreeKb = 0;
+
+		await assert.rejects(() => uploadFile(brick.exchange, '/small.txt', content.subarray(0, 1017)), CommandRejectedError);
+		assert.equal(brick.storageQueries, 1);
+		assert.deepEqual(brick.sent, []);
+	});
+
+	it('checks the SD card for paths below /media/card', async () => {
+		const brick = new FakeFileBrick();
+		await assert.rejects(
+			() => uploadFile(brick.exchange, '/media/card/big.bin', content),
+			(error) => error instanceof CommandRejectedError && /No SD card/.test(error.message),
+		);
+
+		brick.internalFreeKb = 0;
+		brick.sdCardFreeKb = 100;
+		await uploadFile(brick.exchange, '/media/card/big.bin', content);
+		assert.deepEqual(brick.files.get('/media/card/big.bin'), content);
+	});
+});
+
+describe('downloadFile', () => {
+	const content = Uint8Array.from({ length: 2500 }, (_, i) => (i * 7) & 0xff);
+
+	it('reads past the first chunk using the declared file size', async () => {
+		const brick = new FakeFileBrick();
+		brick.files.set('/big.bin', content);
+		const progress: number[] = [];
+
+		const result = await downloadFile(brick.exchange, '/big.bin', {
+			onProgress: (p) => { progress.push(p.transferred); assert.equal(p.total, 2500); },
+		});
+
+		assert.deepEqual(result, content);
+		assert.deepEqual(brick.sent, [
+			EV3_SYSTEM.BEGIN_UPLOAD,
+			EV3_SYSTEM.CONTINUE_UPLOAD,
+			EV3_SYSTEM.CONTINUE_UPLOAD,
+		]);
+		assert.deepEqual(progress, [1012, 2024, 2500]);
+		assert.deepEqual(brick.closed, []);
+	});
+
+	it('returns small files from the BEGIN_UPLOAD reply alone', async () => {
+		const brick = new FakeFileBrick();
+		brick.files.set('/small', Uint8Array.from([1, 2, 3]));
+
+		assert.deepEqual(await downloadFile(brick.exchange, '/small'), Uint8Array.from([1, 2, 3]));
+		assert.deepEqual(brick.sent, [EV3_SYSTEM.BEGIN_UPLOAD]);
+	});
+
+	it('closes the handle when a chunk is rejected', async () => {
+		const brick = new FakeFileBrick();
+		brick.files.set('/big.bin', content);
+		brick.failOnChunk = 1;
+
+		await assert.rejects(() => downloadFile(brick.exchange, '/big.bin'), /UNKNOWN_HANDLE/);
+		assert.deepEqual(brick.closed, [1]);
+	});
+
+	it('closes the handle when aborted between chunks', async () => {
+		const brick = new FakeFileBrick();
+		brick.files.set('/big.bin', content);
+		const controller = new AbortController();
+
+		await assert.rejects(
+			() => downloadFile(brick.exchange, '/big.bin', {
+				signal: controller.signal,
+				onProgress: () => controller.abort(),
+			}),
+			AbortedError,
+		);
+		assert.deepEqual(brick.sent, [EV3_SYSTEM.BEGIN_UPLOAD, EV3_SYSTEM.CLOSE_FILEHANDLE]);
+		assert.deepEqual(brick.closed, [1]);
+	});
+
+	it('closes the handle when the brick declares no bytes but keeps it open', async () => {
+		const sent: number[][] = [];
+		const exchange: PacketExchange = async (command) => {
+			sent.push([...command.payload.subarray(0, 2)]);
+			// Size 0 and handle 4, but OK instead of END_OF_FILE.
+			const payload = command.payload[0] === EV3_SYSTEM.BEGIN_UPLOAD
+				? new Uint8Array([EV3_SYSTEM.BEGIN_UPLOAD, EV3_SYSTEM_STATUS.OK, 0, 0, 0, 0, 4])
+				: new Uint8Array([command.payload[0], EV3_SYSTEM_STATUS.OK]);
+			return { messageCounter: 0, type: EV3_REPLY.SYSTEM_REPLY, payload };
+		};
+
+		assert.deepEqual(await downloadFile(exchange, '/empty'), new Uint8Array());
+		assert.deepEqual(sent.map(([c]) => c), [EV3_SYSTEM.BEGIN_UPLOAD, EV3_SYSTEM.CLOSE_FILEHANDLE]);
+		assert.equal(sent[1][1], 4);
+	});
+});
+
+describe('listDirectory', () => {
+	it('pages through listings longer than one reply', async () => {
+		const brick = new FakeFileBrick();
+		const lines = Array.from({ length: 40 }, (_, i) =>
+			`${'0'.repeat(31)}${i % 10} ${(i * 16).toString(16).toUpperCase().padStart(8, '0')} program-${String(i).padStart(2, '0')}.rbf`);
+		// The fake brick serves listings from its file table, keyed by directory path.
+		brick.files.set('/prjs/', Buffer.from(['../', 'Sub/', ...lines].join('\n') + '\n'));
+
+		const entries = await listDirectory(brick.exchange, '/prjs/');
+
+		assert.deepEqual(brick.sent, [
+			EV3_SYSTEM.LIST_FILES,
+			EV3_SYSTEM.CONTINUE_LIST_FILES,
+			EV3_SYSTEM.CONTINUE_LIST_FILES,
+		]);
+		assert.equal(entries.length, 41);
+		assert.deepEqual(entries[0], { name: 'Sub', kind: 'folder' });
+		assert.deepEqual(entries[40], {
+			name: 'program-39.rbf', kind: 'file', size: 39 * 16, md5: '00000000000000000000000000000009',
+		});
+	});
+});
+
+describe('folder operations', () => {
+	it('createDirectory reports an existing folder instead of failing', async () => {
+		const brick = new FakeFileBrick();
+		assert.equal(await createDirectory(brick.exchange, '/prjs/New'), true);
+		assert.equal(await createDirectory(brick.exchange, '/prjs/New'), false);
+	});
+
+	it('removeDirectory empties nested folders depth-first', async () => {
+		const brick = new FakeFileBrick();
+		const md5 = '0'.repeat(32);
+		brick.files.set('/prjs/Proj/', Buffer.from(`../\nSub/\n${md5} 00000001 a.rbf\n`));
+		brick.files.set('/prjs/Proj/Sub/', Buffer.from(`./\n${md5} 00000002 b.rsf\n`));
+
+		await removeDirectory(brick.exchange, '/prjs/Proj/');
+
+		assert.deepEqual(brick.deleted, [
+			'/prjs/Proj/Sub/b.rsf',
+			'/prjs/Proj/Sub',
+			'/prjs/Proj/a.rbf',
+			'/prjs/Proj',
+		]);
+	});
+});
+
+// ═══════════════════════════════════════════════════════════════════════
+// Protocol trace
+// ═══════════════════════════════════════════════════════════════════════
+
+/** Adapter that answers every packet with a fixed reply, or fails when told to. No-reply packets are kept. */
+class EchoAdapter implements TransportAdapter {
+	isOpen = true;
+	failWith: Error | undefined;
+	unsolicited: ((packet: Uint8Array) => void) | undefined;
+	readonly written: Uint8Array[] = [];
+
+	open(): Promise<void> { return Promise.resolve(); }
+	close(): Promise<void> { return Promise.resolve(); }
+
+	send(packet: Uint8Array): Promise<Uint8Array> {
+		if (this.failWith) { return Promise.reject(this.failWith); }
+		return Promise.resolve(encodeEv3Packet(getMessageCounter(packet), EV3_REPLY.DIRECT_REPLY, new Uint8Array([1, 2])));
+	}
+
+	sendNoReply(packet: Uint8Array): Promise<void> {
+		if (this.failWith) { return Promise.reject(this.failWith); }
+		this.written.push(packet);
+		return Promise.resolve();
+	}
+
+	setUnsolicitedPacketHandler(handler: ((packet: Uint8Array) => void) | undefined): void {
+		this.unsolicited = handler;
+	}
+}
+
+describe('Protocol trace', () => {
+	const brickKey: BrickKey = makeBrickKey(Transport.USB, '0016535d7e2d');
+	const battery = buildCommand({ kind: 'battery' });
+	const request = encodeEv3Packet(7, battery.type, battery.payload);
+
+	it('records requests, replies with their round trip, failures and unsolicited packets', async () => {
+		const trace = new ProtocolTrace({ enabled: true });
+		const inner = new EchoAdapter();
+		const adapter = new TracingAdapter(inner, trace, Transport.USB, brickKey);
+		const received: Uint8Array[] = [];
+		adapter.setUnsolicitedPacketHandler((packet) => received.push(packet));
+
+		await adapter.send(request);
+		inner.failWith = new Error('USB read timeout');
+		await assert.rejects(adapter.send(request), /USB read timeout/);
+		const mailbox = encodeEv3Packet(0, EV3_COMMAND.SYSTEM_COMMAND_NO_REPLY, new Uint8Array([EV3_SYSTEM.WRITEMAILBOX]));
+		inner.unsolicited?.(mailbox);
+
+		const entries = trace.snapshot();
+		assert.deepEqual(entries.map((e) => e.kind), ['request', 'reply', 'request', 'failure', 'unsolicited']);
+		assert.ok(entries.every((e) => e.transport === Transport.USB && e.brickKey === brickKey));
+		assert.deepEqual([...entries[0].packet], [...request]);
+		assert.equal(getMessageCounter(entries[1].packet), 7);
+		assert.ok(entries[1].rttMs !== undefined && entries[1].rttMs >= 0);
+		assert.equal(entries[3].error, 'USB read timeout');
+		assert.deepEqual(received, [mailbox]);
+	});
+
+	it('passes traffic through untouched while disabled and keeps only the newest entries', async () => {
+		const trace = new ProtocolTrace({ maxEntries: 3 });
+		const adapter = new TracingAdapter(new EchoAdapter(), trace, Transport.TCP, brickKey);
+		await adapter.send(request);
+		assert.equal(trace.snapshot().length, 0);
+
+		trace.enabled = true;
+		const fired: TraceEntry[] = [];
+		trace.onEntry((entry) => fired.push(entry));
+		await adapter.send(request);
+		await adapter.send(request);
+		assert.equal(fired.length, 4);
+		assert.deepEqual(trace.snapshot(), fired.slice(1));
+		trace.clear();
+		assert.equal(trace.snapshot().length, 0);
+	});
+
+	it('saves a capture that loads back entry for entry', () => {
+		const entries: TraceEntry[] = [
+			{ timestamp: 1_760_000_000_000, transport: Transport.BT, brickKey, kind: 'request', packet: request },
+			{ timestamp: 1_760_000_000_040, transport: Transport.BT, brickKey, kind: 'failure', packet: new Uint8Array(), rttMs: 40, error: 'timeout' },
+		];
+		assert.deepEqual(parseTrace(serializeTrace(entries)), entries);
+		assert.throws(() => parseTrace('{"format":"something-else"}'), /not a protocol trace capture/);
+		assert.throws(() => parseTrace('not json'), /not valid JSON/);
+		const broken = serializeTrace(entries).replace('"bt"', '"serial"');
+		assert.throws(() => parseTrace(broken), /entry 0 has an invalid transport/);
+	});
+
+	it('formats entries with the disassembled packet', () => {
+		const entry: TraceEntry = {
+			timestamp: Date.UTC(2026, 0, 1, 12, 30, 5, 250), transport: Transport.USB, brickKey, kind: 'request', packet: request,
+		};
+		assert.equal(formatTraceEntry(entry), [
+			`12:30:05.250 USB ${brickKey} → #7 DIRECT_COMMAND_REPLY globals=8 locals=0`,
+			'      UI_READ GET_VBATT GV(0)',
+			'      UI_READ GET_IBATT GV(4)',
+		].join('\n'));
+		assert.equal(
+			formatTraceEntry({ ...entry, kind: 'failure', packet: new Uint8Array(), rttMs: 12.34, error: 'timeout' }),
+			`12:30:05.250 USB ${brickKey} ✗ timeout (12.3 ms)`,
+		);
+	});
+});
+
+// ═══════════════════════════════════════════════════════════════════════
+// Protocol errors
+// ═══════════════════════════════════════════════════════════════════════
+
+describe('Protocol errors over the packet exchange', () => {
+	/** Answers with `reply(counter)`, built from the request's message counter. */
+	function adapterReplying(reply: (counter: number) => Uint8Array): PacketAdapter {
+		return { send: (packet) => Promise.resolve(reply(getMessageCounter(packet))) };
+	}
+
+	it('reports a reply counter mismatch as a protocol error with the packet', async () => {
+		const exchange = createPacketExchange(
+			adapterReplying((counter) => encodeEv3Packet(counter + 1, EV3_REPLY.DIRECT_REPLY)),
+			{ messageCounter: 0 },
+			'USB',
+		);
+		await assert.rejects(exchange(buildCommand({ kind: 'battery' })), (error: unknown) => {
+			assert.ok(error instanceof ProtocolError);
+			assert.match(error.message, /expected 1, got 2/);
+			assert.equal(error.packetExcerpt, '03 00 02 00 02');
+			return true;
+		});
+	});
+
+	it('answers fs:exists with false when the brick refuses the listing', async () => {
+		const refusing = adapterReplying((counter) => encodeEv3Packet(
+			counter, EV3_REPLY.SYSTEM_REPLY_ERROR, new Uint8Array([EV3_SYSTEM.LIST_FILES, EV3_SYSTEM_STATUS.UNKNOWN_HANDLE]),
+		));
+		const command = { kind: 'fs:exists', path: '/prjs/Missing/' } as const;
+		assert.deepEqual(
+			await sendCommandViaAdapter(refusing, command, { messageCounter: 0 }, 'USB'),
+			{ kind: 'fs:exists', exists: false },
+		);
+
+		const garbled = adapterReplying((counter) => encodeEv3Packet(counter + 5, EV3_REPLY.SYSTEM_REPLY));
+		await assert.rejects(sendCommandViaAdapter(garbled, command, { messageCounter: 0 }, 'USB'), ProtocolError);
+	});
+
+	it('answers fs:rmdir of a missing folder with deleted: false, like the mock', async () => {
+		const refuse = (counter: number, command: number) => encodeEv3Packet(
+			counter, EV3_REPLY.SYSTEM_REPLY_ERROR, new Uint8Array([command, EV3_SYSTEM_STATUS.UNKNOWN_HANDLE]),
+		);
+		const missing = adapterReplying((counter) => refuse(counter, EV3_SYSTEM.LIST_FILES));
+		for (const recursive of [false, true]) {
+			assert.deepEqual(
+				await sendCommandViaAdapter(missing, { kind: 'fs:rmdir', path: '/prjs/Gone', recursive }, { messageCounter: 0 }, 'USB'),
+				{ kind: 'fs:rmdir', deleted: false },
+			);
+		}
+
+		// The folder is there but the brick refuses to delete it (not empty): still a failure.
+		// Its listing is longer than one reply, so the handle the check opened is closed again.
+		const sent: number[] = [];
+		const notEmpty: PacketAdapter = {
+			send: (packet) => {
+				sent.push(packet[5]);
+				const counter = getMessageCounter(packet);
+				if (packet[5] === EV3_SYSTEM.DELETE_FILE) {
+					return Promise.resolve(refuse(counter, EV3_SYSTEM.DELETE_FILE));
+				}
+				if (packet[5] === EV3_SYSTEM.CLOSE_FILEHANDLE) {
+					assert.equal(packet[6], 3);
+					return Promise.resolve(encodeEv3Packet(counter, EV3_REPLY.SYSTEM_REPLY, new Uint8Array([EV3_SYSTEM.CLOSE_FILEHANDLE, 0])));
+				}
+				return Promise.resolve(encodeEv3Packet(
+					counter, EV3_REPLY.SYSTEM_REPLY, new Uint8Array([EV3_SYSTEM.LIST_FILES, 0, 0x00, 0x10, 0, 0, 3]),
+				));
+			},
+		};
+		await assert.rejects(
+			sendCommandViaAdapter(notEmpty, { kind: 'fs:rmdir', path: '/prjs/Full', recursive: false }, { messageCounter: 0 }, 'USB'),
+			CommandRejectedError,
+		);
+		assert.deepEqual(sent, [EV3_SYSTEM.DELETE_FILE, EV3_SYSTEM.LIST_FILES, EV3_SYSTEM.CLOSE_FILEHANDLE]);
+	});
+});
+
+describe('No-reply sends', () => {
+	const stop = { kind: 'motor:stop', ports: ['A', 'B'], brake: true } as const;
+
+	it('takes the next message counter, so replies to later commands still match', async () => {
+		const adapter = new EchoAdapter();
+		const counter = { messageCounter: 41 };
+		await sendNoReplyViaAdapter(adapter, stop, counter);
+		assert.equal(counter.messageCounter, 42);
+		assert.equal(getMessageCounter(adapter.written[0]), 42);
+		assert.equal(adapter.written[0][4], EV3_COMMAND.DIRECT_COMMAND_NO_REPLY);
+
+		const reply = await createPacketExchange(adapter, counter, 'USB')(buildCommand({ kind: 'battery' }));
+		assert.equal(reply.messageCounter, 43);
+	});
+
+	it('refuses commands that read data back without sending anything', async () => {
+		const adapter = new EchoAdapter();
+		const counter = { messageCounter: 0 };
+		await assert.rejects(sendNoReplyViaAdapter(adapter, { kind: 'battery' }, counter), /'battery' needs a reply/);
+		assert.equal(adapter.written.length, 0);
+		assert.equal(counter.messageCounter, 0);
+	});
+
+	it('refuses adapters that cannot send without a reply, also behind a trace', async () => {
+		const echo = new EchoAdapter();
+		const replyOnly: TransportAdapter = {
+			isOpen: true,
+			open: () => echo.open(),
+			close: () => echo.close(),
+			send: (packet) => echo.send(packet),
+		};
+		const counter = { messageCounter: 0 };
+		await assert.rejects(sendNoReplyViaAdapter(replyOnly, stop, counter), /does not support sending 'motor:stop' without a reply/);
+		assert.equal(counter.messageCounter, 0);
+
+		const brickKey = makeBrickKey(Transport.USB, '0016535d7e2d');
+		const traced = new TracingAdapter(replyOnly, new ProtocolTrace({ enabled: true }), Transport.USB, brickKey);
+		assert.equal(traced.sendNoReply, undefined);
+
+		const provider = new BtTransportProvider({ backends: new Map([['spp', () => replyOnly]]) });
+		const btKey = makeBrickKey(Transport.BT, '00:16:53:5D:7E:2D');
+		await provider.connect(btKey);
+		await assert.rejects(provider.sendNoReply(btKey, stop), /without a reply/);
+		provider.dispose();
+	});
+
+	it('traces the request alone', async () => {
+		const trace = new ProtocolTrace({ enabled: true });
+		const brickKey = makeBrickKey(Transport.USB, '0016535d7e2d');
+		await sendNoReplyViaAdapter(new TracingAdapter(new EchoAdapter(), trace, Transport.USB, brickKey), stop, { messageCounter: 0 });
+		assert.deepEqual(trace.snapshot().map((e) => e.kind), ['request']);
+	});
+
+	it('holds providers to the transport guard rate limit', async () => {
+		const adapter = new EchoAdapter();
+		const provider = new BtTransportProvider({
+			backends: new Map([['spp', () => adapter]]),
+			guard: new TransportGuard({ maxCommandsPerSec: 2 }),
+		});
+		const brickKey = makeBrickKey(Transport.BT, '00:16:53:5D:7E:2D');
+		await provider.connect(brickKey);
+		const beep = { kind: 'sound:tone', frequency: 440, durationMs: 100 } as const;
+		await provider.sendNoReply(brickKey, beep);
+		await provider.sendNoReply(brickKey, beep);
+		await assert.rejects(provider.sendNoReply(brickKey, beep), /Rate limit/);
+		assert.equal(adapter.written.length, 2);
+		provider.dispose();
+	});
+});
+
+describe('Batched reads over the packet exchange', () => {
+	/** Answers every direct command with zeroed globals, as many as its header reserves. */
+	function zeroingAdapter(sent: Uint8Array[]): PacketAdapter {
+		return {
+			send: (packet) => {
+				sent.push(packet);
+				const globals = readUint16le(packet, 5) & 0x3ff;
+				return Promise.resolve(encodeEv3Packet(getMessageCounter(packet), EV3_REPLY.DIRECT_REPLY, new Uint8Array(globals)));
+			},
+		};
+	}
+
+	it('sends the reads in as few packets as fit and answers in command order', async () => {
+		const sent: Uint8Array[] = [];
+		const counter = { messageCounter: 0 };
+		const commands = [
+			...Array.from({ length: 6 }, () => ({ kind: 'ports' } as const)),
+			{ kind: 'battery' } as const,
+		];
+		const responses = await sendBatchViaAdapter(zeroingAdapter(sent), commands, counter, 'BT');
+		assert.equal(sent.length, 2);
+		assert.equal(counter.messageCounter, 2);
+		assert.deepEqual(responses.map((r) => r.kind), [...Array(6).fill('ports'), 'battery']);
+	});
+
+	it('refuses commands that are not read-only without sending anything', async () => {
+		const sent: Uint8Array[] = [];
+		await assert.rejects(
+			sendBatchViaAdapter(zeroingAdapter(sent), [{ kind: 'battery' }, { kind: 'program:stop' }], { messageCounter: 0 }, 'BT'),
+			/'program:stop' cannot be batched/,
+		);
+		assert.equal(sent.length, 0);
+	});
+});
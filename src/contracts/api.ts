@@ -41,3 +41,14 @@ export interface FilesystemEvent {
     success: boolean;
     error?: string;
 }
+
+/**
+ * Mailbox message sent by a program running on the brick.
+ * `data` holds the raw payload — decode it with the type the program wrote.
+ */
+export interface MailboxEvent {
+    brickKey: BrickKey;
+    mailbox: string;
+    data: Uint8Array;
+    timestamp: number;
+}
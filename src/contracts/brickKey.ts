@@ -1,4 +1,5 @@
 import { Transport } from './enums';
+import type { BrickLayer } from './transport';
 
 /** Stable identifier for a brick within a given transport. Never based on displayName. */
 export type BrickKey = string & { readonly __brand: 'BrickKey' };
@@ -6,3 +7,14 @@ export type BrickKey = string & { readonly __brand: 'BrickKey' };
 export function makeBrickKey(transport: Transport, id: string): BrickKey {
 	return `${transport}:${id}` as BrickKey;
 }
+
+/** Key of the slave brick on daisy-chain `layer` (1..3) behind a connected master. */
+export function makeChainedBrickKey(masterKey: BrickKey, layer: number): BrickKey {
+	return `${masterKey}#${layer}` as BrickKey;
+}
+
+/** Master key and layer of a daisy-chained brick, or `undefined` for a directly connected one. */
+export function parseChainedBrickKey(brickKey: BrickKey): { masterKey: BrickKey; layer: BrickLayer } | undefined {
+	const match = /^(.+)#([1-3])$/.exec(brickKey);
+	return match ? { masterKey: match[1] as BrickKey, layer: Number(match[2]) as BrickLayer } : undefined;
+}
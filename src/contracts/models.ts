@@ -43,16 +43,72 @@ export type ValueDisplayStyle = 'numeric' | 'visual';
 export interface BatteryState {
     level: number;
     voltage?: number;
+    current?: number;
+}
+
+/** Size and free space of one storage medium, in bytes. */
+export interface StorageSpace {
+    total: number;
+    free: number;
+}
+
+/** Internal flash of the brick and, when a card is inserted, its SD card. */
+export interface StorageState {
+    internal: StorageSpace;
+    sdCard?: StorageSpace;
+}
+
+/** Data of a {@link TelemetryCategory.System} snapshot. */
+export interface SystemTelemetry {
+    battery?: BatteryState;
+    firmwareVersion?: string;
+    storage?: StorageState;
+}
+
+/**
+ * One value of a multi-value sensor reading, e.g. a colour channel or a beacon heading.
+ * The firmware reports one unit per mode, so all datasets of a reading share it.
+ */
+export interface PortDataset {
+    value: number;
+    unit?: string;
 }
 
 export interface PortState {
     port: string;
     peripheralType?: string;
+    /** Primary reading; for sensors, the first of `datasets`. */
     value?: number | string;
     unit?: string;
+    /** Every value of a sensor reading, in firmware dataset order. */
+    datasets?: PortDataset[];
+    /** Firmware device type code of the connected device. */
+    deviceType?: number;
+    /** Sensor mode the value was read in. */
+    mode?: number;
+    /**
+     * Motor speed in percent of full speed (-100..100), signed by direction.
+     * There is no motor power field: the firmware cannot read power back, as
+     * opOUTPUT_READ reports only speed and tacho count.
+     */
+    speed?: number;
+    /** Whether the motor is still executing a command (e.g. a timed or stepped run). */
+    busy?: boolean;
     timestamp?: number;
 }
 
+/** Slave brick daisy-chained to a connected master, reached through the master's session. */
+export interface ChainedBrick {
+    brickKey: BrickKey;
+    masterKey: BrickKey;
+    /** Daisy-chain layer, 1..3. */
+    layer: number;
+    displayName: string;
+    /** Port states of the last `ports` read on this brick; empty until then. */
+    motorPorts: PortState[];
+    sensorPorts: PortState[];
+}
+
 export interface ActiveBrickViewModel {
     brickKey: BrickKey;
     displayName: string;
@@ -65,6 +121,7 @@ export interface ActiveBrickViewModel {
     sensorPorts: PortState[];
     buttons: Record<string, boolean>;
     firmwareVersion?: string;
+    storage?: StorageState;
     favorite: boolean;
     valueDisplayStyle: ValueDisplayStyle;
 }
@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
 import { Transport } from './enums';
 import { BrickKey } from './brickKey';
-import { DiscoveryItem, PortState } from './models';
+import { DiscoveryItem, PortState, StorageState } from './models';
+import { MailboxEvent } from './api';
 
 /** Opaque handle returned by a successful connect(). */
 export interface SessionHandle {
@@ -23,29 +24,219 @@ export interface DiscoveryScanResult {
 
 // ── Command types ────────────────────────────────────────────────────
 
-/** Typed command sent to a brick via {@link TransportProvider.send}. */
+/**
+ * Typed mailbox message. The brick program decides how to read a mailbox, so
+ * the sender picks the encoding: text (zero-terminated UTF-8), numeric
+ * (float32) or logic (one byte).
+ */
+export type MailboxValue =
+	| { readonly type: 'text'; readonly value: string }
+	| { readonly type: 'numeric'; readonly value: number }
+	| { readonly type: 'logic'; readonly value: boolean };
+
+/** State of the user program slot. */
+export type ProgramStatus = 'running' | 'stopped';
+
+/** Battery pack type — alkaline cells and the rechargeable pack discharge along different curves. */
+export type BatteryChemistry = 'alkaline' | 'rechargeable';
+
+/** Output port label of an EV3 motor. */
+export type MotorPort = 'A' | 'B' | 'C' | 'D';
+
+/** Input port label of an EV3 sensor. */
+export type SensorPort = '1' | '2' | '3' | '4';
+
+/** Colour of the brick button LEDs; `off` darkens them. */
+export type LedColor = 'off' | 'green' | 'red' | 'orange';
+
+/** How lit LEDs behave: constantly on, blinking, or fading in and out. */
+export type LedEffect = 'steady' | 'flashing' | 'pulsing';
+
+/** Daisy-chain layer: 0 is the brick the host is connected to, 1..3 are its slaves. */
+export type BrickLayer = 0 | 1 | 2 | 3;
+
+/** Selected mode per sensor port; ports left out keep whatever mode they are in. */
+export type SensorModes = Readonly<Partial<Record<SensorPort, number>>>;
+
+/** Scaling of sensor readings: `si` in the mode's unit, `raw` as the device's unscaled integer values. */
+export type SensorDataFormat = 'si' | 'raw';
+
+/** How the firmware describes a device in one of its modes. */
+export interface SensorMetadata {
+	/** Firmware device type code. */
+	readonly type: number;
+	readonly mode: number;
+	/** Device name reported by the firmware, e.g. `COL-REFLECT`. */
+	readonly name: string;
+	/** SI unit symbol of the mode; empty for unitless values. */
+	readonly symbol: string;
+	/** SI value range of the mode. */
+	readonly min: number;
+	readonly max: number;
+	/** Names of all modes the device offers, indexed by mode number. */
+	readonly modes: readonly string[];
+}
+
+/**
+ * Typed command sent to a brick via {@link TransportProvider.send}.
+ *
+ * `fs:read` / `fs:write` carry UTF-8 text; use `fs:readBinary` / `fs:writeBinary`
+ * for program files, sounds and graphics, which must arrive byte-for-byte.
+ * `fs:mkdir` creates a single folder (its parent must exist); `fs:rmdir` with
+ * `recursive: false` only removes empty folders.
+ *
+ * `sensor:setMode` switches the sensor on a port to another mode (0..7, meaning
+ * depends on the sensor type). `ports` reads each sensor in the mode given in
+ * `sensorModes`, which also switches it; other ports are read in their current mode.
+ * Readings are in SI units unless `format` is `raw`; raw datasets carry no unit.
+ *
+ * `sensor:info` asks the firmware to describe the device on a port in its current mode.
+ *
+ * Port, sensor and motor commands take an optional `layer` that addresses a
+ * daisy-chained slave brick through the connected master (default 0, the master
+ * itself). `chain:list` reports which slave layers are present; a slave with
+ * nothing plugged into it cannot be told apart from an empty layer.
+ *
+ * `system:setName` renames the brick: at most 12 characters out of letters,
+ * digits, space, `_` and `-`.
+ *
+ * `system:storage` reports total and free internal memory and, if a card is
+ * inserted, the SD card's size and free space.
+ *
+ * `battery` converts the measured voltage into a percentage along the discharge
+ * curve of the given pack; alkaline cells are assumed when `chemistry` is omitted.
+ *
+ * Sound commands use the brick speaker. `sound:tone` beeps at `frequency` Hz
+ * (250..10000) for `durationMs`; `sound:play` plays an .rsf file stored on the
+ * brick once; `sound:stop` silences either. `volume` is a percentage (0..100),
+ * 50 when a tone omits it.
+ *
+ * `led:set` sets the button LEDs; the effect is ignored when the colour is `off`.
+ *
+ * Program commands act on the user program slot: `program:run` loads an .rbf
+ * file that is already on the brick into the slot and starts it.
+ *
+ * Motor commands address one or more output ports at once. `speed` is a signed
+ * percentage (-100..100); negative values run the motor backwards. `brake: true`
+ * actively holds the motor when it stops, `false` lets it coast.
+ */
 export type BrickCommand =
-	| { readonly kind: 'battery' }
-	| { readonly kind: 'ports' }
+	| { readonly kind: 'battery'; readonly chemistry?: BatteryChemistry }
+	| {
+		readonly kind: 'ports'; readonly sensorModes?: SensorModes; readonly format?: SensorDataFormat; readonly layer?: BrickLayer;
+	}
 	| { readonly kind: 'buttons' }
 	| { readonly kind: 'info' }
+	| { readonly kind: 'system:setName'; readonly name: string }
+	| { readonly kind: 'system:storage' }
+	| { readonly kind: 'sensor:setMode'; readonly port: SensorPort; readonly mode: number; readonly layer?: BrickLayer }
+	| { readonly kind: 'sensor:info'; readonly port: SensorPort; readonly layer?: BrickLayer }
+	| { readonly kind: 'chain:list' }
 	| { readonly kind: 'fs:list'; readonly path: string }
 	| { readonly kind: 'fs:read'; readonly path: string }
 	| { readonly kind: 'fs:write'; readonly path: string; readonly content: string }
+	| { readonly kind: 'fs:readBinary'; readonly path: string }
+	| { readonly kind: 'fs:writeBinary'; readonly path: string; readonly content: Uint8Array }
 	| { readonly kind: 'fs:exists'; readonly path: string }
-	| { readonly kind: 'fs:delete'; readonly path: string };
+	| { readonly kind: 'fs:delete'; readonly path: string }
+	| { readonly kind: 'fs:mkdir'; readonly path: string }
+	| { readonly kind: 'fs:rmdir'; readonly path: string; readonly recursive: boolean }
+	| { readonly kind: 'mailbox:write'; readonly mailbox: string; readonly message: MailboxValue }
+	| { readonly kind: 'sound:tone'; readonly frequency: number; readonly durationMs: number; readonly volume?: number }
+	| { readonly kind: 'sound:play'; readonly path: string; readonly volume: number }
+	| { readonly kind: 'sound:stop' }
+	| { readonly kind: 'led:set'; readonly color: LedColor; readonly effect?: LedEffect }
+	| { readonly kind: 'program:run'; readonly path: string }
+	| { readonly kind: 'program:stop' }
+	| { readonly kind: 'program:status' }
+	| { readonly kind: 'motor:run'; readonly ports: readonly MotorPort[]; readonly speed: number; readonly layer?: BrickLayer }
+	| { readonly kind: 'motor:stop'; readonly ports: readonly MotorPort[]; readonly brake: boolean; readonly layer?: BrickLayer }
+	| { readonly kind: 'motor:resetTacho'; readonly ports: readonly MotorPort[]; readonly layer?: BrickLayer }
+	| {
+		readonly kind: 'motor:runForDegrees'; readonly ports: readonly MotorPort[];
+		readonly speed: number; readonly degrees: number; readonly brake: boolean; readonly layer?: BrickLayer;
+	}
+	| {
+		readonly kind: 'motor:runForTime'; readonly ports: readonly MotorPort[];
+		readonly speed: number; readonly timeMs: number; readonly brake: boolean; readonly layer?: BrickLayer;
+	};
 
 // ── Response types ───────────────────────────────────────────────────
 
-export interface BatteryResponse { readonly kind: 'battery'; readonly level: number; readonly voltage?: number }
+/** Battery voltage (V) and current draw (A) next to the charge level (%) estimated from the voltage. */
+export interface BatteryResponse {
+	readonly kind: 'battery';
+	readonly level: number;
+	readonly voltage?: number;
+	readonly current?: number;
+}
 export interface PortsResponse { readonly kind: 'ports'; readonly motorPorts: PortState[]; readonly sensorPorts: PortState[] }
 export interface ButtonsResponse { readonly kind: 'buttons'; readonly state: Record<string, boolean> }
-export interface InfoResponse { readonly kind: 'info'; readonly displayName: string; readonly firmwareVersion?: string }
-export interface FsListResponse { readonly kind: 'fs:list'; readonly entries: string[] }
+/**
+ * Identity and versions of a brick. The serial number is the Bluetooth address
+ * without separators — the same value the brick reports as its USB serial — so
+ * it identifies one brick across all transports.
+ */
+export interface InfoResponse {
+	readonly kind: 'info';
+	/** Brick name as shown on its display. */
+	readonly displayName: string;
+	readonly firmwareVersion?: string;
+	readonly firmwareBuild?: string;
+	readonly osVersion?: string;
+	readonly osBuild?: string;
+	readonly hardwareVersion?: string;
+	/** 12 upper-case hex digits, e.g. `0016534A12BC`. */
+	readonly serialNumber?: string;
+	/** Colon-separated, e.g. `00:16:53:4A:12:BC`. */
+	readonly btAddress?: string;
+}
+/** One entry of a directory listing. Folders carry neither size nor checksum. */
+export interface FsListEntry {
+	/** Name relative to the listed directory, without a trailing slash. */
+	readonly name: string;
+	readonly kind: 'file' | 'folder';
+	/** File size in bytes. */
+	readonly size?: number;
+	/** Upper-case hex MD5 of the file content, as reported by the firmware. */
+	readonly md5?: string;
+}
+
+export interface FsListResponse { readonly kind: 'fs:list'; readonly entries: FsListEntry[] }
 export interface FsReadResponse { readonly kind: 'fs:read'; readonly content: string }
 export interface FsWriteResponse { readonly kind: 'fs:write' }
+export interface FsReadBinaryResponse { readonly kind: 'fs:readBinary'; readonly content: Uint8Array }
+export interface FsWriteBinaryResponse { readonly kind: 'fs:writeBinary' }
 export interface FsExistsResponse { readonly kind: 'fs:exists'; readonly exists: boolean }
 export interface FsDeleteResponse { readonly kind: 'fs:delete'; readonly deleted: boolean }
+/** `created` is false if the folder already existed. */
+export interface FsMkdirResponse { readonly kind: 'fs:mkdir'; readonly created: boolean }
+/** `deleted` is false if there was no folder at the path. */
+export interface FsRmdirResponse { readonly kind: 'fs:rmdir'; readonly deleted: boolean }
+export interface SystemSetNameResponse { readonly kind: 'system:setName' }
+/** Storage sizes in bytes; `sdCard` is absent when no card is inserted. */
+export interface SystemStorageResponse { readonly kind: 'system:storage'; readonly storage: StorageState }
+export interface SensorSetModeResponse { readonly kind: 'sensor:setMode' }
+export interface SensorInfoResponse { readonly kind: 'sensor:info'; readonly metadata: SensorMetadata }
+/** Slave layers (1..3) with at least one device attached, in ascending order. */
+export interface ChainListResponse { readonly kind: 'chain:list'; readonly layers: BrickLayer[] }
+export interface MailboxWriteResponse { readonly kind: 'mailbox:write' }
+export interface SoundToneResponse { readonly kind: 'sound:tone' }
+export interface SoundPlayResponse { readonly kind: 'sound:play' }
+export interface SoundStopResponse { readonly kind: 'sound:stop' }
+export interface LedSetResponse { readonly kind: 'led:set' }
+export interface ProgramRunResponse { readonly kind: 'program:run' }
+export interface ProgramStopResponse { readonly kind: 'program:stop' }
+/**
+ * `'running'` only while the firmware reports the user slot as RUNNING. A slot
+ * that is WAITING, STOPPED or HALTED reads `'stopped'`.
+ */
+export interface ProgramStatusResponse { readonly kind: 'program:status'; readonly status: ProgramStatus }
+export interface MotorRunResponse { readonly kind: 'motor:run' }
+export interface MotorStopResponse { readonly kind: 'motor:stop' }
+export interface MotorResetTachoResponse { readonly kind: 'motor:resetTacho' }
+export interface MotorRunForDegreesResponse { readonly kind: 'motor:runForDegrees' }
+export interface MotorRunForTimeResponse { readonly kind: 'motor:runForTime' }
 
 /** Union of all possible brick responses. Narrow on `kind` to access typed fields. */
 export type BrickResponse =
@@ -53,11 +244,51 @@ export type BrickResponse =
 	| PortsResponse
 	| ButtonsResponse
 	| InfoResponse
+	| SystemSetNameResponse
+	| SystemStorageResponse
+	| SensorSetModeResponse
+	| SensorInfoResponse
+	| ChainListResponse
 	| FsListResponse
 	| FsReadResponse
 	| FsWriteResponse
+	| FsReadBinaryResponse
+	| FsWriteBinaryResponse
 	| FsExistsResponse
-	| FsDeleteResponse;
+	| FsDeleteResponse
+	| FsMkdirResponse
+	| FsRmdirResponse
+	| MailboxWriteResponse
+	| SoundToneResponse
+	| SoundPlayResponse
+	| SoundStopResponse
+	| LedSetResponse
+	| ProgramRunResponse
+	| ProgramStopResponse
+	| ProgramStatusResponse
+	| MotorRunResponse
+	| MotorStopResponse
+	| MotorResetTachoResponse
+	| MotorRunForDegreesResponse
+	| MotorRunForTimeResponse;
+
+// ── Send options ─────────────────────────────────────────────────────
+
+/** Progress of a multi-packet transfer, reported after each packet. */
+export interface TransferProgress {
+	/** Bytes transferred so far. */
+	readonly transferred: number;
+	/** Total bytes of the transfer. */
+	readonly total: number;
+}
+
+/** Optional per-call controls for {@link TransportProvider.send}. */
+export interface SendCommandOptions {
+	/** Cancels the command. Multi-packet transfers stop between packets and release their file handle. */
+	readonly signal?: AbortSignal;
+	/** Progress callback for multi-packet transfers (file upload/download). */
+	readonly onProgress?: (progress: TransferProgress) => void;
+}
 
 // ── Provider interface ───────────────────────────────────────────────
 
@@ -87,7 +318,26 @@ export interface TransportProvider extends vscode.Disposable {
 	disconnect(brickKey: BrickKey): Promise<void>;
 
 	/** Send a typed command to a connected brick and receive a typed response. */
-	send(brickKey: BrickKey, command: BrickCommand): Promise<BrickResponse>;
+	send(brickKey: BrickKey, command: BrickCommand, options?: SendCommandOptions): Promise<BrickResponse>;
+
+	/**
+	 * Send several read-only commands (battery, ports, buttons, info, storage,
+	 * sensor info, chain list, program status) combined into as few packets as
+	 * fit, and receive their responses in command order.
+	 * Present only on providers that speak the EV3 protocol themselves.
+	 */
+	sendBatch?(brickKey: BrickKey, commands: readonly BrickCommand[], options?: SendCommandOptions): Promise<BrickResponse[]>;
+
+	/** Whether `sendBatch` can combine `command` with others. Present whenever `sendBatch` is. */
+	canBatch?(command: BrickCommand): boolean;
+
+	/**
+	 * Send a command that only acts (motors, sound, LEDs, mailbox writes,
+	 * sensor modes, program stop) without waiting for the brick to acknowledge
+	 * it. Resolves once the packet is written; failures on the brick go unreported.
+	 * Unlike `send`, these are rate-limited per brick, as no reply paces them.
+	 */
+	sendNoReply?(brickKey: BrickKey, command: BrickCommand, options?: SendCommandOptions): Promise<void>;
 
 	/**
 	 * Attempt to re-establish a lost connection.
@@ -100,4 +350,10 @@ export interface TransportProvider extends vscode.Disposable {
 	 * Present only on providers that support the forget operation.
 	 */
 	forget?(brickKey: BrickKey): Promise<void>;
+
+	/**
+	 * Fires for mailbox messages the brick sends on its own (WRITEMAILBOX from a running program).
+	 * Present only on providers that can receive unsolicited packets.
+	 */
+	readonly onMailboxMessage?: vscode.Event<MailboxEvent>;
 }
@@ -3,6 +3,10 @@ export const ErrorCode = {
 	TransportFailed: 'transport_failed',
 	ConnectionFailed: 'connection_failed',
 	Timeout: 'timeout',
+	Aborted: 'aborted',
+	// Protocol
+	ProtocolFailed: 'protocol_failed',
+	CommandRejected: 'command_rejected',
 	// Session
 	SessionFailed: 'session_failed',
 	HeartbeatFailed: 'heartbeat_failed',
@@ -45,6 +49,51 @@ export class TimeoutError extends CockpitError {
 	}
 }
 
+/** The caller cancelled the operation through its `AbortSignal`. The link is fine. */
+export class AbortedError extends CockpitError {
+	constructor(message: string, cause?: unknown) {
+		super(ErrorCode.Aborted, message, cause);
+		this.name = 'AbortedError';
+	}
+}
+
+/** What a protocol error was about: the command, the brick's status and the packet. */
+export interface ProtocolErrorDetails {
+	/** Kind of the command being answered, e.g. `fs:read`. */
+	readonly commandKind?: string;
+	/** `EV3_SYSTEM_STATUS` code of a failed system command. */
+	readonly status?: number;
+	/** Hex excerpt of the offending packet. */
+	readonly packetExcerpt?: string;
+	/** Disassembly of the request a malformed reply answers. */
+	readonly request?: string;
+}
+
+/** A reply that cannot be trusted — malformed, truncated or mismatched. Points at a broken link. */
+export class ProtocolError extends CockpitError {
+	readonly commandKind?: string;
+	readonly status?: number;
+	readonly packetExcerpt?: string;
+	readonly request?: string;
+
+	constructor(message: string, details?: ProtocolErrorDetails, cause?: unknown, code: ErrorCode = ErrorCode.ProtocolFailed) {
+		super(code, message, cause);
+		this.name = 'ProtocolError';
+		this.commandKind = details?.commandKind;
+		this.status = details?.status;
+		this.packetExcerpt = details?.packetExcerpt;
+		this.request = details?.request;
+	}
+}
+
+/** A well-formed reply in which the brick refused the command, e.g. a missing file. The link is fine. */
+export class CommandRejectedError extends ProtocolError {
+	constructor(message: string, details?: ProtocolErrorDetails, cause?: unknown) {
+		super(message, details, cause, ErrorCode.CommandRejected);
+		this.name = 'CommandRejectedError';
+	}
+}
+
 export class SessionError extends CockpitError {
 	constructor(message: string, cause?: unknown) {
 		super(ErrorCode.SessionFailed, message, cause);
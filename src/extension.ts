@@ -1,11 +1,12 @@
 import * as vscode from 'vscode';
 import { DisposableStore } from './events';
 import {
-	ProviderRegistry,
+	ProviderRegistry, ProtocolTrace, TransportGuard,
 	UsbTransportProvider, TcpTransportProvider, BtTransportProvider,
 } from './transports';
 import { DiscoveryScheduler, PresenceAggregator, SessionManager } from './runtime';
 import { MockTransportProvider, DEFAULT_MOCK_CONFIG } from './mock';
+import { registerProtocolTraceView } from './ui/protocolTraceView';
 
 export function activate(context: vscode.ExtensionContext): void {
 	const logger = vscode.window.createOutputChannel('EVƎ Cockpit', { log: true });
@@ -19,13 +20,20 @@ export function activate(context: vscode.ExtensionContext): void {
 	// ── Transport layer ─────────────────────────────────────────
 	const registry = services.add(new ProviderRegistry());
 
+	// Protocol trace (records USB / TCP / BT packets while the setting is on)
+	const trace = services.add(new ProtocolTrace());
+	services.add(registerProtocolTraceView(trace));
+
+	// Firmware safety limits for commands sent without waiting for a reply
+	const guard = services.add(new TransportGuard());
+
 	// Mock transport (always — for development and testing)
 	const mockProvider = services.add(new MockTransportProvider(DEFAULT_MOCK_CONFIG));
 	registry.register(mockProvider);
 	logger.info(`Mock transport registered (${DEFAULT_MOCK_CONFIG.bricks.length} brick(s))`);
 
 	// USB transport (lazy-loads node-hid; returns empty list if unavailable)
-	const usbProvider = services.add(new UsbTransportProvider());
+	const usbProvider = services.add(new UsbTransportProvider({ trace, guard }));
 	registry.register(usbProvider);
 	try {
 		// eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -37,17 +45,20 @@ export function activate(context: vscode.ExtensionContext): void {
 	}
 
 	// TCP transport (UDP beacon discovery on port 3015, connects on port 5555)
-	const tcpProvider = services.add(new TcpTransportProvider());
+	const tcpProvider = services.add(new TcpTransportProvider({ trace, guard }));
 	registry.register(tcpProvider);
 	logger.info('TCP transport registered');
 
 	// BT transport (discovery requires platform backend — silent until wired)
-	const btProvider = services.add(new BtTransportProvider());
+	const btProvider = services.add(new BtTransportProvider({ trace, guard }));
 	registry.register(btProvider);
 	logger.info('BT transport registered (discovery not yet wired)');
 
 	// ── Session Manager ─────────────────────────────────────────
-	const sessionManager = services.add(new SessionManager({ providerRegistry: registry }));
+	const sessionManager = services.add(new SessionManager({
+		providerRegistry: registry,
+		storage: context.globalState,
+	}));
 
 	sessionManager.onSessionStateChange(e => {
 		logger.info(`Session: ${e.brickKey} ${e.previousState} → ${e.newState}`);
@@ -40,7 +40,13 @@ export const DEFAULT_MOCK_CONFIG: MockConfig = {
 			],
 			sensorPorts: [
 				{ port: '1', peripheralType: 'touch-sensor',       unit: '',   dynamic: { kind: 'static', value: 0 } },
-				{ port: '2', peripheralType: 'color-sensor',       unit: '',   dynamic: { kind: 'square', low: 0, high: 7, periodMs: 3000 } },
+				{ port: '2', peripheralType: 'color-sensor',       unit: '',   dynamic: { kind: 'square', low: 0, high: 7, periodMs: 3000 }, modes: [
+					{ mode: 4, name: 'RGB-RAW', dynamic: { kind: 'vector', components: [
+						{ kind: 'sine', min: 0, max: 1020, periodMs: 3000 },
+						{ kind: 'sine', min: 0, max: 1020, periodMs: 4000 },
+						{ kind: 'sine', min: 0, max: 1020, periodMs: 5000 },
+					] } },
+				] },
 			],
 			filesystem: [
 				{ path: '/home/root/lms2012/prjs/BiteMyShinyMetal/BiteMyShinyMetal.rbf', content: '' },
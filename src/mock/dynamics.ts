@@ -1,6 +1,9 @@
 import { ValueDynamic } from './mockConfig';
 
-/** Evaluate a dynamic value at a given timestamp. Returns undefined for `none` dynamics. */
+/**
+ * Evaluate a dynamic value at a given timestamp. Returns undefined for `none` dynamics;
+ * vectors evaluate to their first component.
+ */
 export function evaluateDynamic(dynamic: ValueDynamic, now: number): number | string | undefined {
 	switch (dynamic.kind) {
 	case 'none':
@@ -25,5 +28,46 @@ export function evaluateDynamic(dynamic: ValueDynamic, now: number): number | st
 		const t = (now % dynamic.periodMs) / dynamic.periodMs;
 		return t < 0.5 ? dynamic.low : dynamic.high;
 	}
+
+	case 'vector':
+		return dynamic.components.length > 0 ? evaluateDynamic(dynamic.components[0], now) : undefined;
+	}
+}
+
+/** Numeric datasets of a dynamic at a given timestamp: one per vector component, else the single value. */
+export function evaluateDatasets(dynamic: ValueDynamic, now: number): number[] {
+	const components = dynamic.kind === 'vector' ? dynamic.components : [dynamic];
+	return components.map(c => evaluateDynamic(c, now)).filter((v): v is number => typeof v === 'number');
+}
+
+/** Rate of change of a numeric dynamic per second at a given timestamp; text and `none` dynamics do not change. */
+export function dynamicRate(dynamic: ValueDynamic, now: number): number {
+	const stepMs = 10;
+	const before = evaluateDynamic(dynamic, now);
+	const after = evaluateDynamic(dynamic, now + stepMs);
+	if (typeof before !== 'number' || typeof after !== 'number') {
+		return 0;
+	}
+	return (after - before) * 1000 / stepMs;
+}
+
+/** Smallest and largest value a dynamic produces, across all vector components. Text and `none` dynamics span 0..0. */
+export function dynamicRange(dynamic: ValueDynamic): { min: number; max: number } {
+	switch (dynamic.kind) {
+	case 'none':
+		return { min: 0, max: 0 };
+	case 'static':
+		return typeof dynamic.value === 'number' ? { min: dynamic.value, max: dynamic.value } : { min: 0, max: 0 };
+	case 'sine':
+	case 'triangle':
+		return { min: dynamic.min, max: dynamic.max };
+	case 'square':
+		return { min: Math.min(dynamic.low, dynamic.high), max: Math.max(dynamic.low, dynamic.high) };
+	case 'vector': {
+		const ranges = dynamic.components.map(dynamicRange);
+		return ranges.length === 0
+			? { min: 0, max: 0 }
+			: { min: Math.min(...ranges.map(r => r.min)), max: Math.max(...ranges.map(r => r.max)) };
+	}
 	}
 }
@@ -1,11 +1,11 @@
 export { MockTransportProvider } from './mockTransportProvider';
-export type { MockTransportOptions } from './mockTransportProvider';
+export type { MockTransportOptions, MockSoundRecord } from './mockTransportProvider';
 export { MockFilesystem } from './mockFilesystem';
-export { evaluateDynamic } from './dynamics';
+export { evaluateDynamic, evaluateDatasets, dynamicRange, dynamicRate } from './dynamics';
 export { DEFAULT_MOCK_CONFIG } from './defaultConfig';
 export type {
 	MockConfig, MockBrickConfig, MockPortConfig,
-	MockErrorConfig, MockLossConfig, MockFileEntry,
-	ValueDynamic, StaticDynamic, SineDynamic, TriangleDynamic, SquareDynamic,
+	MockErrorConfig, MockLossConfig, MockFileEntry, MockMailboxConfig, MockMailboxReply, MockSensorModeConfig,
+	ValueDynamic, ScalarDynamic, VectorDynamic, StaticDynamic, SineDynamic, TriangleDynamic, SquareDynamic,
 } from './mockConfig';
 export { validateMockConfig } from './mockConfig';
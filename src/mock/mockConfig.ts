@@ -1,4 +1,4 @@
-import { Transport } from '../contracts';
+import { MailboxValue, Transport } from '../contracts';
 
 // ── Value dynamics ──────────────────────────────────────────────────
 
@@ -33,10 +33,18 @@ export interface SquareDynamic {
 	readonly periodMs: number;
 }
 
-export type ValueDynamic = NoneDynamic | StaticDynamic | SineDynamic | TriangleDynamic | SquareDynamic;
+export type ScalarDynamic = NoneDynamic | StaticDynamic | SineDynamic | TriangleDynamic | SquareDynamic;
+
+/** Multi-value reading (e.g. RGB channels); each component yields one dataset. */
+export interface VectorDynamic {
+	readonly kind: 'vector';
+	readonly components: ScalarDynamic[];
+}
+
+export type ValueDynamic = ScalarDynamic | VectorDynamic;
 
 /** All valid dynamic kind values, derived from the ValueDynamic union. */
-export const VALID_DYNAMIC_KINDS: ReadonlyArray<ValueDynamic['kind']> = ['none', 'static', 'sine', 'triangle', 'square'];
+export const VALID_DYNAMIC_KINDS: ReadonlyArray<ValueDynamic['kind']> = ['none', 'static', 'sine', 'triangle', 'square', 'vector'];
 
 // ── Battery configuration ───────────────────────────────────────────
 
@@ -45,15 +53,33 @@ export interface MockBatteryConfig {
 	readonly level: number;
 	/** Battery voltage in volts. */
 	readonly voltage?: number;
+	/** Battery current draw in amperes. */
+	readonly current?: number;
 }
 
 // ── Port configuration ──────────────────────────────────────────────
 
+/** Value and unit a sensor reports in one of its non-default modes. */
+export interface MockSensorModeConfig {
+	readonly mode: number;
+	/** Mode name reported by `sensor:info`. */
+	readonly name?: string;
+	readonly unit?: string;
+	readonly dynamic: ValueDynamic;
+}
+
 export interface MockPortConfig {
 	readonly port: string;
 	readonly peripheralType?: string;
+	/** Firmware device type code; sensors with one are described by `sensor:info`. */
+	readonly deviceType?: number;
+	/** Mode 0 name reported by `sensor:info`. */
+	readonly modeName?: string;
+	/** Unit and dynamic of mode 0. */
 	readonly unit?: string;
 	readonly dynamic: ValueDynamic;
+	/** Other sensor modes; modes not listed report the mode 0 dynamic. */
+	readonly modes?: MockSensorModeConfig[];
 }
 
 // ── Error simulation ────────────────────────────────────────────────
@@ -83,12 +109,40 @@ export interface MockFileEntry {
 	readonly content: string;
 }
 
+// ── Storage ─────────────────────────────────────────────────────────
+
+export interface MockStorageConfig {
+	/** Internal memory size in bytes. */
+	readonly internalTotal: number;
+	/** SD card size in bytes; omit for a brick without a card. */
+	readonly sdCardTotal?: number;
+}
+
+// ── Mailbox ─────────────────────────────────────────────────────────
+
+/** A message the simulated brick program sends after the host writes to mailbox `on`. */
+export interface MockMailboxReply {
+	readonly on: string;
+	readonly mailbox: string;
+	readonly message: MailboxValue;
+	/** Delay before the reply arrives (ms). Defaults to 0. */
+	readonly delayMs?: number;
+}
+
+export interface MockMailboxConfig {
+	/** Send every host message back unchanged on the same mailbox. */
+	readonly echo?: boolean;
+	readonly replies?: MockMailboxReply[];
+}
+
 // ── Single brick configuration ──────────────────────────────────────
 
 export interface MockBrickConfig {
 	readonly id: string;
 	readonly displayName: string;
 	readonly firmwareVersion?: string;
+	/** Bluetooth address (`00:16:53:4A:12:BC`); also yields the reported serial number. */
+	readonly btAddress?: string;
 	readonly battery: MockBatteryConfig;
 	readonly motorPorts: MockPortConfig[];
 	readonly sensorPorts: MockPortConfig[];
@@ -97,6 +151,9 @@ export interface MockBrickConfig {
 	readonly error?: MockErrorConfig;
 	readonly loss?: MockLossConfig;
 	readonly filesystem?: MockFileEntry[];
+	/** Storage sizes; free space is what the mock filesystem leaves of them. */
+	readonly storage?: MockStorageConfig;
+	readonly mailbox?: MockMailboxConfig;
 }
 
 // ── Top-level mock configuration ────────────────────────────────────
@@ -122,6 +179,7 @@ export function validateMockConfig(raw: unknown): MockConfig {
 	for (const brick of obj.bricks as unknown[]) {
 		validateBrickConfig(brick);
 	}
+	validateDaisyChains(obj.bricks as MockBrickConfig[]);
 	return raw as MockConfig;
 }
 
@@ -136,6 +194,9 @@ function validateBrickConfig(raw: unknown): void {
 	if (typeof b.displayName !== 'string' || b.displayName.length === 0) {
 		throw new Error('Brick displayName must be a non-empty string');
 	}
+	if (b.btAddress !== undefined && (typeof b.btAddress !== 'string' || !/^([0-9A-F]{2}:){5}[0-9A-F]{2}$/i.test(b.btAddress))) {
+		throw new Error('Brick btAddress must look like 00:16:53:4A:12:BC');
+	}
 	if (!b.battery || typeof b.battery !== 'object') {
 		throw new Error('Brick battery must be an object');
 	}
@@ -143,6 +204,11 @@ function validateBrickConfig(raw: unknown): void {
 	if (typeof battery.level !== 'number' || battery.level < 0 || battery.level > 100) {
 		throw new Error('Brick battery.level must be a number between 0 and 100');
 	}
+	for (const field of ['voltage', 'current']) {
+		if (battery[field] !== undefined && (typeof battery[field] !== 'number' || battery[field] < 0)) {
+			throw new Error(`Brick battery.${field} must be a non-negative number`);
+		}
+	}
 	if (!Array.isArray(b.motorPorts)) {
 		throw new Error('Brick motorPorts must be an array');
 	}
@@ -152,6 +218,73 @@ function validateBrickConfig(raw: unknown): void {
 	for (const port of [...b.motorPorts as unknown[], ...b.sensorPorts as unknown[]]) {
 		validatePortConfig(port);
 	}
+	if (b.storage !== undefined) {
+		validateStorageConfig(b.storage);
+	}
+	if (b.mailbox !== undefined) {
+		validateMailboxConfig(b.mailbox);
+	}
+}
+
+function validateStorageConfig(raw: unknown): void {
+	if (!raw || typeof raw !== 'object') {
+		throw new Error('Brick storage must be an object');
+	}
+	const s = raw as Record<string, unknown>;
+	if (typeof s.internalTotal !== 'number' || !Number.isInteger(s.internalTotal) || s.internalTotal < 0) {
+		throw new Error('Brick storage.internalTotal must be a non-negative integer');
+	}
+	if (s.sdCardTotal !== undefined && (typeof s.sdCardTotal !== 'number' || !Number.isInteger(s.sdCardTotal) || s.sdCardTotal < 0)) {
+		throw new Error('Brick storage.sdCardTotal must be a non-negative integer');
+	}
+}
+
+/** Slaves must name a configured master that is not itself a slave; a master drives at most 3. */
+function validateDaisyChains(bricks: readonly MockBrickConfig[]): void {
+	const byId = new Map(bricks.map(b => [b.id, b]));
+	const slaveCount = new Map<string, number>();
+	for (const brick of bricks) {
+		if (brick.parentId === undefined) {
+			continue;
+		}
+		const master = byId.get(brick.parentId);
+		if (!master || master === brick) {
+			throw new Error(`Brick '${brick.id}' parentId must name another configured brick`);
+		}
+		if (master.parentId !== undefined) {
+			throw new Error(`Brick '${brick.id}' cannot be chained to slave '${master.id}'`);
+		}
+		const count = (slaveCount.get(master.id) ?? 0) + 1;
+		if (count > 3) {
+			throw new Error(`Brick '${master.id}' can drive at most 3 daisy-chained slaves`);
+		}
+		slaveCount.set(master.id, count);
+	}
+}
+
+const VALID_MAILBOX_TYPES: ReadonlyArray<MailboxValue['type']> = ['text', 'numeric', 'logic'];
+
+function validateMailboxConfig(raw: unknown): void {
+	if (!raw || typeof raw !== 'object') {
+		throw new Error('Brick mailbox must be an object');
+	}
+	const m = raw as Record<string, unknown>;
+	if (m.replies === undefined) {
+		return;
+	}
+	if (!Array.isArray(m.replies)) {
+		throw new Error('Brick mailbox.replies must be an array');
+	}
+	for (const reply of m.replies as unknown[]) {
+		const r = (reply ?? {}) as Record<string, unknown>;
+		if (typeof r.on !== 'string' || typeof r.mailbox !== 'string' || r.mailbox.length === 0) {
+			throw new Error('Mailbox reply needs string "on" and non-empty "mailbox"');
+		}
+		const message = (r.message ?? {}) as Record<string, unknown>;
+		if (!(VALID_MAILBOX_TYPES as readonly string[]).includes(message.type as string)) {
+			throw new Error(`Unknown mailbox message type: ${String(message.type)}`);
+		}
+	}
 }
 
 function validatePortConfig(raw: unknown): void {
@@ -162,11 +295,40 @@ function validatePortConfig(raw: unknown): void {
 	if (typeof p.port !== 'string' || p.port.length === 0) {
 		throw new Error('Port name must be a non-empty string');
 	}
-	if (!p.dynamic || typeof p.dynamic !== 'object') {
-		throw new Error('Port dynamic must be an object');
+	validateDynamic(p.dynamic, 'Port dynamic');
+	if (p.modes === undefined) {
+		return;
+	}
+	if (!Array.isArray(p.modes)) {
+		throw new Error('Port modes must be an array');
 	}
-	const d = p.dynamic as Record<string, unknown>;
+	for (const mode of p.modes as unknown[]) {
+		const m = (mode ?? {}) as Record<string, unknown>;
+		if (typeof m.mode !== 'number' || !Number.isInteger(m.mode) || m.mode < 1 || m.mode > 7) {
+			throw new Error('Port mode must be an integer between 1 and 7');
+		}
+		validateDynamic(m.dynamic, `Port mode ${m.mode} dynamic`);
+	}
+}
+
+function validateDynamic(raw: unknown, label: string): void {
+	if (!raw || typeof raw !== 'object') {
+		throw new Error(`${label} must be an object`);
+	}
+	const d = raw as Record<string, unknown>;
 	if (!(VALID_DYNAMIC_KINDS as readonly string[]).includes(d.kind as string)) {
 		throw new Error(`Unknown dynamic kind: ${String(d.kind)}`);
 	}
+	if (d.kind !== 'vector') {
+		return;
+	}
+	if (!Array.isArray(d.components) || d.components.length < 1 || d.components.length > 8) {
+		throw new Error(`${label} components must be an array of 1 to 8 dynamics`);
+	}
+	for (const component of d.components as unknown[]) {
+		validateDynamic(component, `${label} component`);
+		if ((component as Record<string, unknown>).kind === 'vector') {
+			throw new Error(`${label} components cannot be vectors`);
+		}
+	}
 }
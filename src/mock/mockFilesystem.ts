@@ -1,48 +1,142 @@
+import { createHash } from 'node:crypto';
+import { FsListEntry } from '../contracts';
+import { CommandRejectedError } from '../errors';
 import { MockFileEntry } from './mockConfig';
 
 /**
  * In-memory file tree for mock filesystem API testing.
  * Each mock brick gets its own MockFilesystem instance.
+ *
+ * Files are stored as raw bytes; the text accessors encode and decode UTF-8.
+ * Folders exist implicitly above every file, or explicitly once created with
+ * {@link mkdir} — so empty folders survive until removed.
  */
 export class MockFilesystem {
-	private readonly files = new Map<string, string>();
+	private readonly files = new Map<string, Uint8Array>();
+	private readonly folders = new Set<string>();
 
 	constructor(entries?: MockFileEntry[]) {
 		if (entries) {
 			for (const e of entries) {
-				this.files.set(e.path, e.content);
+				this.write(e.path, e.content);
 			}
 		}
 	}
 
-	list(directory: string): string[] {
+	/**
+	 * Direct children of `directory`, folders first, each group sorted by name.
+	 */
+	list(directory: string): FsListEntry[] {
 		const prefix = directory.endsWith('/') ? directory : directory + '/';
-		const result: string[] = [];
-		for (const path of this.files.keys()) {
+		const folders = new Set<string>();
+		const files: FsListEntry[] = [];
+		for (const path of this.folders) {
 			if (path.startsWith(prefix)) {
-				const relative = path.slice(prefix.length);
-				// Only direct children (no nested slashes)
-				if (!relative.includes('/')) {
-					result.push(path);
-				}
+				folders.add(path.slice(prefix.length).split('/')[0]);
 			}
 		}
-		return result.sort();
+		for (const [path, content] of this.files) {
+			if (!path.startsWith(prefix)) { continue; }
+			const relative = path.slice(prefix.length);
+			const slash = relative.indexOf('/');
+			if (slash >= 0) {
+				folders.add(relative.slice(0, slash));
+			} else {
+				files.push({ name: relative, kind: 'file', size: content.length, md5: md5Hex(content) });
+			}
+		}
+		return [
+			...[...folders].sort().map((name): FsListEntry => ({ name, kind: 'folder' })),
+			...files.sort((a, b) => a.name.localeCompare(b.name)),
+		];
 	}
 
 	read(path: string): string | undefined {
-		return this.files.get(path);
+		const content = this.files.get(path);
+		return content === undefined ? undefined : Buffer.from(content).toString('utf8');
+	}
+
+	readBinary(path: string): Uint8Array | undefined {
+		const content = this.files.get(path);
+		return content === undefined ? undefined : Uint8Array.from(content);
 	}
 
 	write(path: string, content: string): void {
-		this.files.set(path, content);
+		this.files.set(path, Uint8Array.from(Buffer.from(content, 'utf8')));
+	}
+
+	writeBinary(path: string, content: Uint8Array): void {
+		// Copy so later changes to the caller's buffer don't leak into the mock brick.
+		this.files.set(path, Uint8Array.from(content));
 	}
 
 	exists(path: string): boolean {
-		return this.files.has(path);
+		return this.files.has(path) || this.isFolder(path);
+	}
+
+	isFolder(path: string): boolean {
+		const folder = trimSlashes(path);
+		if (folder === '' || this.folders.has(folder)) { return true; }
+		const prefix = folder + '/';
+		return [...this.files.keys(), ...this.folders].some((p) => p.startsWith(prefix));
+	}
+
+	/**
+	 * Creates one folder. Returns `false` if the path already exists.
+	 * @throws CommandRejectedError if the parent folder does not exist, as the brick refuses it
+	 */
+	mkdir(path: string): boolean {
+		const folder = trimSlashes(path);
+		if (this.exists(folder)) { return false; }
+		const parent = folder.slice(0, folder.lastIndexOf('/'));
+		if (!this.isFolder(parent)) {
+			throw new CommandRejectedError(`Parent folder does not exist: ${parent}`, { commandKind: 'fs:mkdir' });
+		}
+		this.folders.add(folder);
+		return true;
+	}
+
+	/**
+	 * Removes a folder, and with `recursive` everything below it.
+	 * Returns `false` if there is no folder at `path`.
+	 * @throws CommandRejectedError if the folder is not empty and `recursive` is false, as the brick refuses it
+	 */
+	rmdir(path: string, recursive: boolean): boolean {
+		const folder = trimSlashes(path);
+		if (folder === '' || !this.isFolder(folder)) { return false; }
+		const prefix = folder + '/';
+		const files = [...this.files.keys()].filter((p) => p.startsWith(prefix));
+		const folders = [...this.folders].filter((p) => p.startsWith(prefix));
+		if (!recursive && files.length + folders.length > 0) {
+			throw new CommandRejectedError(`Folder not empty: ${folder}`, { commandKind: 'fs:rmdir' });
+		}
+		files.forEach((p) => this.files.delete(p));
+		folders.forEach((p) => this.folders.delete(p));
+		this.folders.delete(folder);
+		return true;
+	}
+
+	/** Total size in bytes of the files below `folder` (every file for the root). */
+	sizeOf(folder: string): number {
+		const prefix = trimSlashes(folder) + '/';
+		let size = 0;
+		for (const [path, content] of this.files) {
+			if (path.startsWith(prefix)) { size += content.length; }
+		}
+		return size;
 	}
 
 	delete(path: string): boolean {
 		return this.files.delete(path);
 	}
 }
+
+/** Upper-case hex MD5, matching the firmware's LIST_FILES output. */
+function md5Hex(content: Uint8Array): string {
+	return createHash('md5').update(content).digest('hex').toUpperCase();
+}
+
+/** Drops trailing slashes, so `/a/b/` and `/a/b` match; the root becomes the empty string. */
+function trimSlashes(path: string): string {
+	return path.replace(/\/+$/, '');
+}
@@ -0,0 +1,131 @@
+import { MotorPort } from '../contracts';
+
+/** Simulated rotation rate at 100 % speed (degrees per second). Roughly an EV3 large motor. */
+const DEGREES_PER_SECOND_AT_FULL_SPEED = 1000;
+
+/** Motion of a single simulated motor, anchored at the time of the last command. */
+interface MotorSimulation {
+	/** Tacho count at `since`. */
+	position: number;
+	/** Signed speed in percent (-100..100). */
+	speed: number;
+	/** Timestamp the current motion started. */
+	since: number;
+	/** Timestamp the current motion ends on its own, for bounded runs. */
+	until?: number;
+}
+
+/**
+ * Simulated motor outputs of one mock brick.
+ *
+ * A port switches from its configured value dynamic to simulated tacho counts
+ * the first time it receives a motor command. Brake and coast are treated
+ * alike — the simulated motor stops dead.
+ */
+export class MockMotors {
+	private readonly motors = new Map<string, MotorSimulation>();
+
+	run(ports: readonly MotorPort[], speed: number, now: number): void {
+		assertPorts(ports);
+		assertSpeed(speed);
+		for (const port of ports) {
+			this.motors.set(port, { position: this.tacho(port, now) ?? 0, speed, since: now });
+		}
+	}
+
+	stop(ports: readonly MotorPort[], now: number): void {
+		assertPorts(ports);
+		for (const port of ports) {
+			this.motors.set(port, { position: this.tacho(port, now) ?? 0, speed: 0, since: now });
+		}
+	}
+
+	resetTacho(ports: readonly MotorPort[], now: number): void {
+		assertPorts(ports);
+		for (const port of ports) {
+			const current = this.settle(port, now);
+			this.motors.set(port, { ...(current ?? { speed: 0 }), position: 0, since: now });
+		}
+	}
+
+	runForDegrees(ports: readonly MotorPort[], speed: number, degrees: number, now: number): void {
+		assertSpeed(speed);
+		assertAmount(degrees);
+		const rate = Math.abs(speed) * DEGREES_PER_SECOND_AT_FULL_SPEED / 100;
+		const durationMs = rate > 0 ? degrees / rate * 1000 : 0;
+		this.runBounded(ports, speed, now, now + durationMs);
+	}
+
+	runForTime(ports: readonly MotorPort[], speed: number, timeMs: number, now: number): void {
+		assertSpeed(speed);
+		assertAmount(timeMs);
+		this.runBounded(ports, speed, now, now + timeMs);
+	}
+
+	/** Speed in percent of a simulated motor, or `undefined` if the port was never driven. */
+	speed(port: string, now: number): number | undefined {
+		const motion = this.settle(port, now);
+		return motion?.speed;
+	}
+
+	/** Whether a simulated motor is in the middle of a bounded run. */
+	busy(port: string, now: number): boolean {
+		const motion = this.settle(port, now);
+		return motion?.until !== undefined && now < motion.until;
+	}
+
+	/** Tacho count of a simulated motor, or `undefined` if the port was never driven. */
+	tacho(port: string, now: number): number | undefined {
+		const motion = this.settle(port, now);
+		if (!motion) { return undefined; }
+		const end = motion.until !== undefined ? Math.min(now, motion.until) : now;
+		const elapsedSec = Math.max(0, end - motion.since) / 1000;
+		return Math.round(motion.position + motion.speed * DEGREES_PER_SECOND_AT_FULL_SPEED / 100 * elapsedSec);
+	}
+
+	// ── Internals ───────────────────────────────────────────────────
+
+	private runBounded(ports: readonly MotorPort[], speed: number, now: number, until: number): void {
+		assertPorts(ports);
+		for (const port of ports) {
+			this.motors.set(port, { position: this.tacho(port, now) ?? 0, speed, since: now, until });
+		}
+	}
+
+	/** Collapses a finished bounded run into a resting state. */
+	private settle(port: string, now: number): MotorSimulation | undefined {
+		const motion = this.motors.get(port);
+		if (!motion || motion.until === undefined || now < motion.until) {
+			return motion;
+		}
+		const elapsedSec = (motion.until - motion.since) / 1000;
+		const position = Math.round(motion.position + motion.speed * DEGREES_PER_SECOND_AT_FULL_SPEED / 100 * elapsedSec);
+		const rest: MotorSimulation = { position, speed: 0, since: motion.until };
+		this.motors.set(port, rest);
+		return rest;
+	}
+}
+
+/** Speed in percent (-100..100) that turns a motor at `degreesPerSecond`. */
+export function speedForRate(degreesPerSecond: number): number {
+	const speed = Math.round(degreesPerSecond / DEGREES_PER_SECOND_AT_FULL_SPEED * 100);
+	return Math.max(-100, Math.min(100, speed)) || 0;
+}
+
+function assertPorts(ports: readonly MotorPort[]): void {
+	if (ports.length === 0) {
+		throw new Error('Motor command requires at least one port.');
+	}
+}
+
+function assertSpeed(speed: number): void {
+	if (!Number.isInteger(speed) || speed < -100 || speed > 100) {
+		throw new Error(`Motor speed must be an integer in -100..100, got ${speed}`);
+	}
+}
+
+function assertAmount(amount: number): void {
+	if (!Number.isInteger(amount) || amount <= 0) {
+		throw new Error(`Motor run amount must be a positive integer, got ${amount}`);
+	}
+}
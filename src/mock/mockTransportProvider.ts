@@ -1,17 +1,55 @@
+import * as vscode from 'vscode';
 import {
 	Transport, PresenceState, BrickKey, makeBrickKey,
 	TransportProvider, TransportCapabilities, SessionHandle,
 	DiscoveryScanResult, DiscoveryItem, PortState,
-	BrickCommand, BrickResponse,
+	BrickCommand, BrickResponse, SendCommandOptions, MailboxEvent, MailboxValue, SensorMetadata, BrickLayer,
+	LedColor, LedEffect, StorageState, SensorDataFormat,
 } from '../contracts';
-import { TransportError, ConnectionError } from '../errors';
-import { MockConfig, MockBrickConfig, MockPortConfig } from './mockConfig';
-import { evaluateDynamic } from './dynamics';
+import {
+	buildWriteMailbox, encodeMailboxValue, assertValidBrickName, assertSensorMode, assertBrickLayer, assertSoundVolume, assertTone,
+	DEFAULT_TONE_VOLUME, ledPattern, SD_CARD_ROOT, isNoReplyCommand,
+} from '../protocol/ev3Commands';
+import { TransportError, ConnectionError, CommandRejectedError } from '../errors';
+import { MockConfig, MockBrickConfig, MockPortConfig, MockStorageConfig } from './mockConfig';
+import { evaluateDynamic, evaluateDatasets, dynamicRange, dynamicRate } from './dynamics';
 import { MockFilesystem } from './mockFilesystem';
+import { MockMotors, speedForRate } from './mockMotors';
+
+/** Firmware type code of an empty port. */
+const NO_DEVICE_TYPE = 126;
+
+/** Version strings of a stock EV3 running firmware V1.10E. */
+const MOCK_VERSIONS = {
+	firmwareBuild: '1803051258',
+	osVersion: 'Linux 2.6.33-rc4',
+	osBuild: '1803051332',
+	hardwareVersion: 'V0.60',
+} as const;
+
+/** Storage of a brick configured without `storage`: 6 MB of internal memory and no SD card. */
+const DEFAULT_STORAGE: MockStorageConfig = { internalTotal: 6 * 1024 * 1024 };
+
+/** Sound a mock brick was asked to make, recorded for test assertions. */
+export type MockSoundRecord =
+	| { readonly kind: 'tone'; readonly frequency: number; readonly durationMs: number; readonly volume: number; readonly timestamp: number }
+	| { readonly kind: 'file'; readonly path: string; readonly volume: number; readonly timestamp: number }
+	| { readonly kind: 'stop'; readonly timestamp: number };
 
 interface MockBrickState {
 	readonly config: MockBrickConfig;
 	readonly filesystem: MockFilesystem;
+	readonly motors: MockMotors;
+	/** Current brick name — starts from the config, changed by `system:setName`. */
+	displayName: string;
+	/** Selected mode per sensor port; absent ports are in mode 0. */
+	readonly sensorModes: Map<string, number>;
+	/** Button LED pattern; bricks start steady green, as after boot. */
+	led: { color: LedColor; effect: LedEffect };
+	/** Every sound command received, oldest first. */
+	readonly sounds: MockSoundRecord[];
+	/** Path of the program running in the user slot, if any. */
+	runningProgram?: string;
 	connected: boolean;
 }
 
@@ -34,8 +72,12 @@ export class MockTransportProvider implements TransportProvider {
 
 	private readonly bricks = new Map<BrickKey, MockBrickState>();
 	private readonly random: () => number;
+	private readonly mailboxTimers = new Set<NodeJS.Timeout>();
 	private disposed = false;
 
+	private readonly _onMailboxMessage = new vscode.EventEmitter<MailboxEvent>();
+	readonly onMailboxMessage: vscode.Event<MailboxEvent> = this._onMailboxMessage.event;
+
 	constructor(config: MockConfig, options?: MockTransportOptions) {
 		this.random = options?.random ?? Math.random;
 		for (const brickCfg of config.bricks) {
@@ -43,6 +85,11 @@ export class MockTransportProvider implements TransportProvider {
 			this.bricks.set(key, {
 				config: brickCfg,
 				filesystem: new MockFilesystem(brickCfg.filesystem),
+				motors: new MockMotors(),
+				displayName: brickCfg.displayName,
+				sensorModes: new Map(),
+				led: { color: 'green', effect: 'steady' },
+				sounds: [],
 				connected: false,
 			});
 		}
@@ -57,6 +104,9 @@ export class MockTransportProvider implements TransportProvider {
 		const items: DiscoveryItem[] = [];
 
 		for (const [brickKey, state] of this.bricks) {
+			if (state.config.parentId !== undefined) {
+				continue; // daisy-chained slaves are only reachable through their master
+			}
 			if (this.isHidden(state, now)) {
 				continue; // brick is "temporarily disappeared"
 			}
@@ -72,6 +122,9 @@ export class MockTransportProvider implements TransportProvider {
 	async connect(brickKey: BrickKey): Promise<SessionHandle> {
 		this.assertNotDisposed();
 		const state = this.requireBrick(brickKey);
+		if (state.config.parentId !== undefined) {
+			throw new ConnectionError(`Mock brick ${brickKey} is daisy-chained to '${state.config.parentId}'; connect to its master`);
+		}
 
 		if (state.config.error && this.random() < state.config.error.connectFailRate) {
 			throw new ConnectionError(`Mock connect failure for ${brickKey}`);
@@ -91,7 +144,7 @@ export class MockTransportProvider implements TransportProvider {
 	// ── Send ────────────────────────────────────────────────────────
 
 	// eslint-disable-next-line @typescript-eslint/require-await
-	async send(brickKey: BrickKey, command: BrickCommand): Promise<BrickResponse> {
+	async send(brickKey: BrickKey, command: BrickCommand, options?: SendCommandOptions): Promise<BrickResponse> {
 		this.assertNotDisposed();
 		const state = this.requireBrick(brickKey);
 
@@ -99,6 +152,10 @@ export class MockTransportProvider implements TransportProvider {
 			throw new TransportError(`Brick ${brickKey} is not connected`);
 		}
 
+		if (options?.signal?.aborted) {
+			throw new TransportError(`Mock send aborted for ${brickKey}`);
+		}
+
 		if (state.config.error && this.random() < state.config.error.sendFailRate) {
 			throw new TransportError(`Mock send failure for ${brickKey}`);
 		}
@@ -106,46 +163,186 @@ export class MockTransportProvider implements TransportProvider {
 		const now = Date.now();
 
 		switch (command.kind) {
-		case 'battery':
-			return { kind: 'battery', level: state.config.battery.level, voltage: state.config.battery.voltage };
+		case 'battery': {
+			const { level, voltage, current } = state.config.battery;
+			return { kind: 'battery', level, voltage, current };
+		}
 
-		case 'ports':
+		case 'ports': {
+			const target = this.layerState(state, command.layer);
+			// Like the brick, reading a port in a given mode switches the sensor to it.
+			for (const [port, mode] of Object.entries(command.sensorModes ?? {})) {
+				assertSensorMode(mode);
+				target.sensorModes.set(port, mode);
+			}
 			return {
 				kind: 'ports',
-				motorPorts: this.evaluatePorts(state.config.motorPorts, now),
-				sensorPorts: this.evaluatePorts(state.config.sensorPorts, now),
+				motorPorts: this.evaluateMotorPorts(target, now),
+				sensorPorts: this.evaluateSensorPorts(target, now, command.format),
 			};
+		}
 
 		case 'buttons':
 			// EV3 buttons are hardware constants — not configurable per brick.
 			return { kind: 'buttons', state: { left: false, right: false, up: false, down: false, enter: false, back: false } };
 
-		case 'info':
-			return { kind: 'info', displayName: state.config.displayName, firmwareVersion: state.config.firmwareVersion };
+		case 'info': {
+			const btAddress = state.config.btAddress?.toUpperCase();
+			return {
+				kind: 'info',
+				displayName: state.displayName,
+				firmwareVersion: state.config.firmwareVersion,
+				...MOCK_VERSIONS,
+				serialNumber: btAddress?.replace(/:/g, ''),
+				btAddress,
+			};
+		}
+
+		case 'sensor:info':
+			return { kind: 'sensor:info', metadata: this.describeSensor(this.layerState(state, command.layer), command.port) };
+
+		case 'sensor:setMode':
+			assertSensorMode(command.mode);
+			this.layerState(state, command.layer).sensorModes.set(command.port, command.mode);
+			return { kind: 'sensor:setMode' };
+
+		case 'chain:list':
+			return { kind: 'chain:list', layers: this.slavesOf(state).map((_, i) => (i + 1) as BrickLayer) };
+
+		case 'system:setName':
+			assertValidBrickName(command.name);
+			state.displayName = command.name;
+			return { kind: 'system:setName' };
+
+		case 'system:storage':
+			return { kind: 'system:storage', storage: this.storageOf(state) };
 
 		case 'fs:list':
 			return { kind: 'fs:list', entries: state.filesystem.list(command.path || '/') };
 
-		case 'fs:read': {
-			const content = state.filesystem.read(command.path);
+		case 'fs:read':
+		case 'fs:readBinary': {
+			const content = state.filesystem.readBinary(command.path);
 			if (content === undefined) {
 				throw new TransportError(`File not found: ${command.path}`);
 			}
-			return { kind: 'fs:read', content };
+			// Mock transfers complete in a single step — one progress report covers the whole file.
+			options?.onProgress?.({ transferred: content.length, total: content.length });
+			return command.kind === 'fs:read'
+				? { kind: 'fs:read', content: Buffer.from(content).toString('utf8') }
+				: { kind: 'fs:readBinary', content };
 		}
 
 		case 'fs:write':
-			state.filesystem.write(command.path, command.content);
-			return { kind: 'fs:write' };
+		case 'fs:writeBinary': {
+			const content = command.kind === 'fs:write'
+				? Buffer.from(command.content, 'utf8')
+				: command.content;
+			this.assertSpaceFor(state, command.path, content.length);
+			state.filesystem.writeBinary(command.path, content);
+			options?.onProgress?.({ transferred: content.length, total: content.length });
+			return { kind: command.kind };
+		}
 
 		case 'fs:exists':
 			return { kind: 'fs:exists', exists: state.filesystem.exists(command.path) };
 
 		case 'fs:delete':
 			return { kind: 'fs:delete', deleted: state.filesystem.delete(command.path) };
+
+		case 'fs:mkdir':
+			return { kind: 'fs:mkdir', created: state.filesystem.mkdir(command.path) };
+
+		case 'fs:rmdir':
+			return { kind: 'fs:rmdir', deleted: state.filesystem.rmdir(command.path, command.recursive) };
+
+		case 'mailbox:write':
+			// Real transports refuse what they cannot encode; apply the same checks.
+			buildWriteMailbox(command.mailbox, command.message);
+			this.answerMailbox(brickKey, state, command.mailbox, command.message);
+			return { kind: 'mailbox:write' };
+
+		case 'sound:tone': {
+			const volume = command.volume ?? DEFAULT_TONE_VOLUME;
+			assertSoundVolume(volume);
+			assertTone(command.frequency, command.durationMs);
+			state.sounds.push({ kind: 'tone', frequency: command.frequency, durationMs: command.durationMs, volume, timestamp: now });
+			return { kind: 'sound:tone' };
+		}
+
+		case 'sound:play':
+			if (!command.path.toLowerCase().endsWith('.rsf')) {
+				throw new Error(`Sound path must point to an .rsf file, got '${command.path}'`);
+			}
+			assertSoundVolume(command.volume);
+			if (!state.filesystem.exists(command.path)) {
+				throw new TransportError(`File not found: ${command.path}`);
+			}
+			state.sounds.push({ kind: 'file', path: command.path, volume: command.volume, timestamp: now });
+			return { kind: 'sound:play' };
+
+		case 'sound:stop':
+			state.sounds.push({ kind: 'stop', timestamp: now });
+			return { kind: 'sound:stop' };
+
+		case 'led:set': {
+			const effect = command.effect ?? 'steady';
+			ledPattern(command.color, effect);
+			state.led = { color: command.color, effect };
+			return { kind: 'led:set' };
+		}
+
+		case 'program:run':
+			if (!command.path.toLowerCase().endsWith('.rbf')) {
+				throw new Error(`Program path must point to an .rbf file, got '${command.path}'`);
+			}
+			if (!state.filesystem.exists(command.path)) {
+				throw new TransportError(`File not found: ${command.path}`);
+			}
+			// Loading a new image replaces whatever ran in the user slot.
+			state.runningProgram = command.path;
+			return { kind: 'program:run' };
+
+		case 'program:stop':
+			state.runningProgram = undefined;
+			return { kind: 'program:stop' };
+
+		case 'program:status':
+			return { kind: 'program:status', status: state.runningProgram !== undefined ? 'running' : 'stopped' };
+
+		case 'motor:run':
+			this.layerState(state, command.layer).motors.run(command.ports, command.speed, now);
+			return { kind: 'motor:run' };
+
+		case 'motor:stop':
+			this.layerState(state, command.layer).motors.stop(command.ports, now);
+			return { kind: 'motor:stop' };
+
+		case 'motor:resetTacho':
+			this.layerState(state, command.layer).motors.resetTacho(command.ports, now);
+			return { kind: 'motor:resetTacho' };
+
+		case 'motor:runForDegrees':
+			this.layerState(state, command.layer).motors.runForDegrees(command.ports, command.speed, command.degrees, now);
+			return { kind: 'motor:runForDegrees' };
+
+		case 'motor:runForTime':
+			this.layerState(state, command.layer).motors.runForTime(command.ports, command.speed, command.timeMs, now);
+			return { kind: 'motor:runForTime' };
 		}
 	}
 
+	/**
+	 * Applies an action command like `send` and drops the response. Unlike a
+	 * real brick, the mock still reports the errors the command runs into.
+	 */
+	async sendNoReply(brickKey: BrickKey, command: BrickCommand, options?: SendCommandOptions): Promise<void> {
+		if (!isNoReplyCommand(command)) {
+			throw new Error(`Command '${command.kind}' needs a reply and cannot be sent without one.`);
+		}
+		await this.send(brickKey, command, options);
+	}
+
 	// ── Recover ─────────────────────────────────────────────────────
 
 	// eslint-disable-next-line @typescript-eslint/require-await
@@ -163,11 +360,38 @@ export class MockTransportProvider implements TransportProvider {
 		return this.bricks.get(brickKey)?.filesystem;
 	}
 
+	/** Get the path of the program running on a mock brick (for test assertions). */
+	getRunningProgram(brickKey: BrickKey): string | undefined {
+		return this.bricks.get(brickKey)?.runningProgram;
+	}
+
+	/** Get the sounds a mock brick was asked to make, oldest first (for test assertions). */
+	getPlayedSounds(brickKey: BrickKey): readonly MockSoundRecord[] {
+		return [...(this.bricks.get(brickKey)?.sounds ?? [])];
+	}
+
+	/** Get the button LED pattern of a mock brick (for test assertions). */
+	getLed(brickKey: BrickKey): { color: LedColor; effect: LedEffect } | undefined {
+		const led = this.bricks.get(brickKey)?.led;
+		return led && { ...led };
+	}
+
+	/** Deliver a mailbox message as if a program on the brick had sent it. */
+	injectMailboxMessage(brickKey: BrickKey, mailbox: string, message: MailboxValue): void {
+		this.requireBrick(brickKey);
+		this._onMailboxMessage.fire({ brickKey, mailbox, data: encodeMailboxValue(message), timestamp: Date.now() });
+	}
+
 	// ── Lifecycle ───────────────────────────────────────────────────
 
 	dispose(): void {
 		this.disposed = true;
+		for (const timer of this.mailboxTimers) {
+			clearTimeout(timer);
+		}
+		this.mailboxTimers.clear();
 		this.bricks.clear();
+		this._onMailboxMessage.dispose();
 	}
 
 	// ── Internals ───────────────────────────────────────────────────
@@ -180,6 +404,53 @@ export class MockTransportProvider implements TransportProvider {
 		return state;
 	}
 
+	/** Slaves daisy-chained to `master`, in config order; the first one is layer 1. */
+	private slavesOf(master: MockBrickState): MockBrickState[] {
+		return [...this.bricks.values()].filter(s => s.config.parentId === master.config.id);
+	}
+
+	/** The brick on `layer` of the chain headed by `master`; layer 0 is the master itself. */
+	private layerState(master: MockBrickState, layer: BrickLayer | undefined): MockBrickState {
+		if (layer === undefined || layer === 0) {
+			return master;
+		}
+		assertBrickLayer(layer);
+		const slave = this.slavesOf(master)[layer - 1];
+		if (!slave) {
+			throw new TransportError(`No brick on daisy-chain layer ${layer} of ${master.config.id}`);
+		}
+		return slave;
+	}
+
+	/** Configured storage sizes minus what the brick's files occupy. */
+	private storageOf(state: MockBrickState): StorageState {
+		const { internalTotal, sdCardTotal } = state.config.storage ?? DEFAULT_STORAGE;
+		const onCard = state.filesystem.sizeOf(SD_CARD_ROOT);
+		const internalUsed = state.filesystem.sizeOf('/') - onCard;
+		return {
+			internal: { total: internalTotal, free: Math.max(0, internalTotal - internalUsed) },
+			sdCard: sdCardTotal !== undefined
+				? { total: sdCardTotal, free: Math.max(0, sdCardTotal - onCard) }
+				: undefined,
+		};
+	}
+
+	/** Mirrors the space check real transports run before an upload. */
+	private assertSpaceFor(state: MockBrickState, path: string, size: number): void {
+		const storage = this.storageOf(state);
+		const onCard = path === SD_CARD_ROOT || path.startsWith(`${SD_CARD_ROOT}/`);
+		const medium = onCard ? storage.sdCard : storage.internal;
+		if (!medium) {
+			throw new CommandRejectedError(`No SD card in the brick for ${path}`, { commandKind: 'fs:write' });
+		}
+		if (medium.free < size) {
+			throw new CommandRejectedError(
+				`Not enough space on the brick for ${path}: ${size} bytes needed, ${medium.free} free`,
+				{ commandKind: 'fs:write' },
+			);
+		}
+	}
+
 	private assertNotDisposed(): void {
 		if (this.disposed) {
 			throw new TransportError('MockTransportProvider has been disposed');
@@ -198,7 +469,7 @@ export class MockTransportProvider implements TransportProvider {
 	private toDiscoveryItem(brickKey: BrickKey, state: MockBrickState, now: number): DiscoveryItem {
 		return {
 			brickKey,
-			displayName: state.config.displayName,
+			displayName: state.displayName,
 			transport: Transport.Mock,
 			presenceState: PresenceState.Available,
 			remembered: false,
@@ -209,6 +480,91 @@ export class MockTransportProvider implements TransportProvider {
 		};
 	}
 
+	/**
+	 * Simulated program side of a mailbox write: echo and scripted replies
+	 * arrive asynchronously, after the write itself has completed.
+	 */
+	private answerMailbox(brickKey: BrickKey, state: MockBrickState, mailbox: string, message: MailboxValue): void {
+		const config = state.config.mailbox;
+		if (!config) { return; }
+		const replies = (config.replies ?? []).filter(r => r.on === mailbox);
+		if (config.echo) {
+			replies.unshift({ on: mailbox, mailbox, message });
+		}
+		for (const reply of replies) {
+			const timer = setTimeout(() => {
+				this.mailboxTimers.delete(timer);
+				if (state.connected) {
+					this.injectMailboxMessage(brickKey, reply.mailbox, reply.message);
+				}
+			}, reply.delayMs ?? 0);
+			this.mailboxTimers.add(timer);
+		}
+	}
+
+	/**
+	 * Motor ports report simulated tacho, speed and busy state once driven.
+	 * Before that the configured dynamic is the tacho count, its rate the speed,
+	 * and the motor counts as busy while it turns.
+	 */
+	private evaluateMotorPorts(state: MockBrickState, now: number): PortState[] {
+		return this.evaluatePorts(state.config.motorPorts, now).map((p, i) => {
+			const tacho = state.motors.tacho(p.port, now);
+			if (tacho !== undefined) {
+				return { ...p, value: tacho, speed: state.motors.speed(p.port, now), busy: state.motors.busy(p.port, now) };
+			}
+			const speed = speedForRate(dynamicRate(state.config.motorPorts[i].dynamic, now));
+			return { ...p, speed, busy: speed !== 0 };
+		});
+	}
+
+	/**
+	 * Sensors report the dynamic and unit of their selected mode, one dataset per vector component.
+	 * Raw reads stand in for unscaled values by rounding to integers and dropping the unit.
+	 */
+	private evaluateSensorPorts(state: MockBrickState, now: number, format?: SensorDataFormat): PortState[] {
+		const raw = format === 'raw';
+		return state.config.sensorPorts.map(p => {
+			const mode = state.sensorModes.get(p.port) ?? 0;
+			const modeConfig = p.modes?.find(m => m.mode === mode);
+			const dynamic = modeConfig?.dynamic ?? p.dynamic;
+			const unit = raw ? undefined : modeConfig ? modeConfig.unit : p.unit;
+			const datasets = evaluateDatasets(dynamic, now).map(value => ({ value: raw ? Math.round(value) : value, unit }));
+			const value = evaluateDynamic(dynamic, now);
+			return {
+				port: p.port,
+				peripheralType: p.peripheralType,
+				value: raw && typeof value === 'number' ? Math.round(value) : value,
+				unit,
+				datasets: datasets.length > 0 ? datasets : undefined,
+				deviceType: p.deviceType,
+				mode,
+				timestamp: now,
+			};
+		});
+	}
+
+	/** Metadata of the sensor on `port` in its selected mode; an empty port reads as type NONE. */
+	private describeSensor(state: MockBrickState, port: string): SensorMetadata {
+		const config = state.config.sensorPorts.find(p => p.port === port);
+		const mode = state.sensorModes.get(port) ?? 0;
+		if (!config) {
+			return { type: NO_DEVICE_TYPE, mode: 0, name: 'NONE', symbol: '', min: 0, max: 0, modes: [] };
+		}
+		const modeConfig = config.modes?.find(m => m.mode === mode);
+		const modeCount = Math.max(0, ...(config.modes ?? []).map(m => m.mode)) + 1;
+		const modes = Array.from({ length: modeCount }, (_, n) =>
+			(n === 0 ? config.modeName : config.modes?.find(m => m.mode === n)?.name) ?? `MODE-${n}`);
+		return {
+			type: config.deviceType ?? NO_DEVICE_TYPE,
+			mode,
+			name: modes[mode] ?? `MODE-${mode}`,
+			symbol: (modeConfig ? modeConfig.unit : config.unit) ?? '',
+			...dynamicRange(modeConfig?.dynamic ?? config.dynamic),
+			modes,
+		};
+	}
+
 	private evaluatePorts(ports: ReadonlyArray<MockPortConfig>, now: number): PortState[] {
 		return ports.map(p => ({
 			port: p.port,
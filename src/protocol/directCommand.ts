@@ -0,0 +1,190 @@
+/**
+ * Typed builder for EV3 direct commands.
+ *
+ * A direct command reserves global variables — the bytes the brick sends back —
+ * and local variables — scratch space that never leaves the brick — in the
+ * 2-byte header that precedes its bytecode. {@link DirectCommandBuilder}
+ * allocates both, encodes every operand in the shortest LC / GV / LV form and
+ * writes the header; {@link DirectCommandBuilder.build} returns the command
+ * together with a decoder for its reply.
+ *
+ * ```ts
+ * const cmd = new DirectCommandBuilder();
+ * const voltage = cmd.global('float32');
+ * cmd.op(EV3_OPCODE.UI_READ, UI_READ_SUB.GET_VBATT, voltage);
+ * const { type, payload, decode } = cmd.build({ voltage });
+ * ```
+ */
+
+import { ProtocolError } from '../errors/CockpitError';
+import type { EncodedCommand } from './ev3Commands';
+import {
+	concatBytes, hexExcerpt, uint16le, lc, lcs, gv, lv,
+	readInt8, readInt16le, readInt32le, readFloat32le, readFixedCString,
+} from './ev3Bytecode';
+import { EV3_COMMAND } from './ev3Packet';
+
+/** Most global bytes one direct command may reserve: a 1024-byte reply minus its header. */
+export const MAX_GLOBAL_BYTES = 1019;
+/** Most local bytes one direct command may reserve (6 bits of the allocation header). */
+export const MAX_LOCAL_BYTES = 63;
+
+/** Numeric variable types; `int8` and `uint8` are the same DATA8 read with or without sign. */
+export type ScalarType = 'int8' | 'uint8' | 'int16' | 'int32' | 'float32';
+
+const SCALAR_SIZE: Record<ScalarType, number> = { int8: 1, uint8: 1, int16: 2, int32: 4, float32: 4 };
+
+const SCALAR_READERS: Record<ScalarType, (payload: Uint8Array, offset: number) => number> = {
+	int8: readInt8,
+	uint8: (payload, offset) => payload[offset],
+	int16: readInt16le,
+	int32: readInt32le,
+	float32: readFloat32le,
+};
+
+/** A variable in the reply payload; {@link read} decodes it from a reply. */
+export class GlobalVariable<T> {
+	constructor(
+		readonly offset: number,
+		readonly size: number,
+		private readonly reader: (payload: Uint8Array, offset: number) => T,
+	) {}
+
+	read(payload: Uint8Array): T {
+		return this.reader(payload, this.offset);
+	}
+}
+
+/** A variable in the command's local scratch space. */
+export class LocalVariable {
+	constructor(readonly offset: number, readonly size: number) {}
+}
+
+/**
+ * Operand of an opcode: numbers become the shortest local constant, strings a
+ * local constant string, variables the shortest reference. Byte arrays are
+ * passed through unchanged, for operands already encoded.
+ */
+export type Operand = number | string | GlobalVariable<unknown> | LocalVariable | Uint8Array;
+
+/** Global variables to decode, possibly grouped into arrays and named records. */
+export type ReplyLayout = GlobalVariable<unknown> | readonly ReplyLayout[] | { readonly [name: string]: ReplyLayout };
+
+/** Shape of a decoded {@link ReplyLayout}: every variable replaced by its value. */
+export type DecodedReply<L> =
+	L extends GlobalVariable<infer T> ? T
+		: L extends readonly (infer E)[] ? DecodedReply<E>[]
+			: { -readonly [K in keyof L]: DecodedReply<L[K]> };
+
+/** An encoded direct command that knows how to decode its own reply. */
+export interface DirectCommand<R> extends EncodedCommand {
+	/** Number of global bytes the reply carries. */
+	readonly globalSize: number;
+	/** Number of local bytes the command reserves on the brick. */
+	readonly localSize: number;
+	/** Decodes a reply payload. Throws a ProtocolError if it is shorter than the reserved globals. */
+	decode(payload: Uint8Array): R;
+}
+
+export class DirectCommandBuilder {
+	private readonly ops: Uint8Array[] = [];
+	private globalSize = 0;
+	private localSize = 0;
+
+	/** Reserves a numeric global variable, aligned to its size. */
+	global(type: ScalarType): GlobalVariable<number> {
+		const size = SCALAR_SIZE[type];
+		return new GlobalVariable(this.allocateGlobal(size, size), size, SCALAR_READERS[type]);
+	}
+
+	/** Reserves a `length`-byte global string buffer, terminator included. */
+	globalString(length: number): GlobalVariable<string> {
+		return new GlobalVariable(this.allocateGlobal(length, 1), length, (payload, offset) => readFixedCString(payload, offset, length));
+	}
+
+	/** Reserves `length` global bytes, e.g. for an array the firmware fills. */
+	globalBytes(length: number): GlobalVariable<Uint8Array> {
+		return new GlobalVariable(this.allocateGlobal(length, 1), length, (payload, offset) => payload.slice(offset, offset + length));
+	}
+
+	/** Reserves a numeric local variable, aligned to its size. */
+	local(type: ScalarType): LocalVariable {
+		const size = SCALAR_SIZE[type];
+		const offset = align(this.localSize, size);
+		if (offset + size > MAX_LOCAL_BYTES) {
+			throw new Error(`Direct command needs ${offset + size} bytes of local variables; at most ${MAX_LOCAL_BYTES} fit`);
+		}
+		this.localSize = offset + size;
+		return new LocalVariable(offset, size);
+	}
+
+	/** Appends one opcode and its operands. */
+	op(opcode: number, ...operands: Operand[]): this {
+		this.ops.push(new Uint8Array([opcode]), ...operands.map(encodeOperand));
+		return this;
+	}
+
+	/**
+	 * Finishes the command. `layout` names the global variables the decoder
+	 * returns; variables left out are still reserved but not decoded.
+	 *
+	 * The builder stays usable: later opcodes and variables go into the next
+	 * `build`, while decoders from earlier calls keep reading their own
+	 * variables — which is how several reads share one command.
+	 */
+	build<L extends ReplyLayout>(layout: L, type: number = EV3_COMMAND.DIRECT_COMMAND_REPLY): DirectCommand<DecodedReply<L>> {
+		const { globalSize, localSize } = this;
+		const header = uint16le(globalSize | (localSize << 10));
+		return {
+			type,
+			payload: concatBytes(header, ...this.ops),
+			globalSize,
+			localSize,
+			decode(payload: Uint8Array): DecodedReply<L> {
+				if (payload.length < globalSize) {
+					throw new ProtocolError(
+						`Direct command reply is truncated: ${payload.length} of ${globalSize} bytes`,
+						{ packetExcerpt: hexExcerpt(payload) },
+					);
+				}
+				return decodeLayout(layout, payload) as DecodedReply<L>;
+			},
+		};
+	}
+
+	private allocateGlobal(size: number, alignment: number): number {
+		if (!Number.isInteger(size) || size <= 0) {
+			throw new Error(`Global variable size must be a positive integer, got ${size}`);
+		}
+		const offset = align(this.globalSize, alignment);
+		if (offset + size > MAX_GLOBAL_BYTES) {
+			throw new Error(`Direct command needs ${offset + size} bytes of global variables; at most ${MAX_GLOBAL_BYTES} fit`);
+		}
+		this.globalSize = offset + size;
+		return offset;
+	}
+}
+
+// ── Internal ────────────────────────────────────────────────────────
+
+function align(offset: number, alignment: number): number {
+	return Math.ceil(offset / alignment) * alignment;
+}
+
+function encodeOperand(operand: Operand): Uint8Array {
+	if (typeof operand === 'number') { return lc(operand); }
+	if (typeof operand === 'string') { return lcs(operand); }
+	if (operand instanceof GlobalVariable) { return gv(operand.offset); }
+	if (operand instanceof LocalVariable) { return lv(operand.offset); }
+	return operand;
+}
+
+function decodeLayout(layout: ReplyLayout, payload: Uint8Array): unknown {
+	if (layout instanceof GlobalVariable) {
+		return layout.read(payload);
+	}
+	if (Array.isArray(layout)) {
+		return layout.map((entry: ReplyLayout) => decodeLayout(entry, payload));
+	}
+	return Object.fromEntries(Object.entries(layout).map(([name, entry]) => [name, decodeLayout(entry, payload)]));
+}
@@ -2,10 +2,13 @@
  * EV3 bytecode encoding primitives.
  *
  * These functions encode values into the EV3 VM bytecode format used by
- * direct commands. The LC (Local Constant) and GV (Global Variable) encodings
- * follow the LEGO EV3 Communication Developer Kit specification.
+ * direct commands. The LC (Local Constant), GV (Global Variable) and LV (Local
+ * Variable) encodings follow the LEGO EV3 Communication Developer Kit specification.
+ * The readers throw a {@link ProtocolError} when a reply is too short.
  */
 
+import { ProtocolError } from '../errors/CockpitError';
+
 // ── Integer encoding ────────────────────────────────────────────────
 
 /** Encodes a 16-bit unsigned integer in little-endian byte order. */
@@ -22,10 +25,42 @@ export function uint32le(value: number): Uint8Array {
 	return out;
 }
 
+/** Encodes a 32-bit float in little-endian byte order. */
+export function float32le(value: number): Uint8Array {
+	const out = new Uint8Array(4);
+	new DataView(out.buffer).setFloat32(0, value, true);
+	return out;
+}
+
+/** Reads an 8-bit signed integer from a byte array at the given offset. */
+export function readInt8(bytes: Uint8Array, offset: number): number {
+	if (bytes.length < offset + 1) {
+		throw new ProtocolError(
+			`readInt8: need 1 byte at offset ${offset}, got ${bytes.length - offset}`,
+			{ packetExcerpt: hexExcerpt(bytes) },
+		);
+	}
+	return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getInt8(offset);
+}
+
+/** Reads a 16-bit signed integer from a byte array at the given offset (LE). */
+export function readInt16le(bytes: Uint8Array, offset: number): number {
+	if (bytes.length < offset + 2) {
+		throw new ProtocolError(
+			`readInt16le: need 2 bytes at offset ${offset}, got ${bytes.length - offset}`,
+			{ packetExcerpt: hexExcerpt(bytes) },
+		);
+	}
+	return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getInt16(offset, true);
+}
+
 /** Reads a 16-bit unsigned integer from a byte array at the given offset (LE). */
 export function readUint16le(bytes: Uint8Array, offset: number): number {
 	if (bytes.length < offset + 2) {
-		throw new Error(`readUint16le: need 2 bytes at offset ${offset}, got ${bytes.length - offset}`);
+		throw new ProtocolError(
+			`readUint16le: need 2 bytes at offset ${offset}, got ${bytes.length - offset}`,
+			{ packetExcerpt: hexExcerpt(bytes) },
+		);
 	}
 	return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint16(offset, true);
 }
@@ -33,7 +68,10 @@ export function readUint16le(bytes: Uint8Array, offset: number): number {
 /** Reads a 32-bit unsigned integer from a byte array at the given offset (LE). */
 export function readUint32le(bytes: Uint8Array, offset: number): number {
 	if (bytes.length < offset + 4) {
-		throw new Error(`readUint32le: need 4 bytes at offset ${offset}, got ${bytes.length - offset}`);
+		throw new ProtocolError(
+			`readUint32le: need 4 bytes at offset ${offset}, got ${bytes.length - offset}`,
+			{ packetExcerpt: hexExcerpt(bytes) },
+		);
 	}
 	return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(offset, true);
 }
@@ -41,7 +79,10 @@ export function readUint32le(bytes: Uint8Array, offset: number): number {
 /** Reads a 32-bit signed integer from a byte array at the given offset (LE). */
 export function readInt32le(bytes: Uint8Array, offset: number): number {
 	if (bytes.length < offset + 4) {
-		throw new Error(`readInt32le: need 4 bytes at offset ${offset}, got ${bytes.length - offset}`);
+		throw new ProtocolError(
+			`readInt32le: need 4 bytes at offset ${offset}, got ${bytes.length - offset}`,
+			{ packetExcerpt: hexExcerpt(bytes) },
+		);
 	}
 	return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getInt32(offset, true);
 }
@@ -49,7 +90,10 @@ export function readInt32le(bytes: Uint8Array, offset: number): number {
 /** Reads a 32-bit float from a byte array at the given offset (LE). */
 export function readFloat32le(bytes: Uint8Array, offset: number): number {
 	if (bytes.length < offset + 4) {
-		throw new Error(`readFloat32le: need 4 bytes at offset ${offset}, got ${bytes.length - offset}`);
+		throw new ProtocolError(
+			`readFloat32le: need 4 bytes at offset ${offset}, got ${bytes.length - offset}`,
+			{ packetExcerpt: hexExcerpt(bytes) },
+		);
 	}
 	return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getFloat32(offset, true);
 }
@@ -68,6 +112,15 @@ export function concatBytes(...parts: Uint8Array[]): Uint8Array {
 	return out;
 }
 
+/** Hex bytes shown by {@link hexExcerpt} unless told otherwise. */
+const HEX_EXCERPT_BYTES = 32;
+
+/** Space-separated hex of at most `maxBytes` bytes, noting how many were left out. */
+export function hexExcerpt(bytes: Uint8Array, maxBytes = HEX_EXCERPT_BYTES): string {
+	const shown = Array.from(bytes.subarray(0, maxBytes), (b) => b.toString(16).padStart(2, '0')).join(' ');
+	return bytes.length > maxBytes ? `${shown} … (+${bytes.length - maxBytes} bytes)` : shown;
+}
+
 // ── Local Constant encodings (LC) ───────────────────────────────────
 
 /**
@@ -106,6 +159,28 @@ export function lc2(value: number): Uint8Array {
 	return out;
 }
 
+/**
+ * Encodes a value as a 5-byte EV3 Local Constant (LC4).
+ * Range: -2147483648..2147483647. Wire format: `[0x83, int32LE]`.
+ */
+export function lc4(value: number): Uint8Array {
+	if (!Number.isInteger(value) || value < -2147483648 || value > 2147483647) {
+		throw new Error(`LC4 value out of range: ${value}`);
+	}
+	const out = new Uint8Array(5);
+	out[0] = 0x83;
+	new DataView(out.buffer).setInt32(1, value, true);
+	return out;
+}
+
+/** Encodes an integer as the shortest Local Constant (LC0, LC1, LC2 or LC4) that holds it. */
+export function lc(value: number): Uint8Array {
+	if (value >= -31 && value <= 31) { return lc0(value); }
+	if (value >= -128 && value <= 127) { return lc1(value); }
+	if (value >= -32768 && value <= 32767) { return lc2(value); }
+	return lc4(value);
+}
+
 // ── String encodings ────────────────────────────────────────────────
 
 /** Encodes a string as a null-terminated C string in UTF-8. */
@@ -146,6 +221,66 @@ export function gv1(offset: number): Uint8Array {
 	return new Uint8Array([0xe1, offset & 0xff]);
 }
 
+/**
+ * Encodes a 3-byte EV3 Global Variable reference (GV2).
+ * Offset range: 0..65535. Wire format: `[0xE2, uint16LE]`.
+ */
+export function gv2(offset: number): Uint8Array {
+	if (!Number.isInteger(offset) || offset < 0 || offset > 0xffff) {
+		throw new Error(`GV2 offset out of range: ${offset}`);
+	}
+	return concatBytes(new Uint8Array([0xe2]), uint16le(offset));
+}
+
+/** Encodes a global variable reference in the shortest form (GV0, GV1 or GV2) that reaches `offset`. */
+export function gv(offset: number): Uint8Array {
+	if (offset >= 0 && offset <= 31) { return gv0(offset); }
+	if (offset >= 0 && offset <= 255) { return gv1(offset); }
+	return gv2(offset);
+}
+
+// ── Local Variable references (LV) ─────────────────────────────────
+
+/**
+ * Encodes a 1-byte EV3 Local Variable reference (LV0).
+ * Offset range: 0..31. Wire format: `[0x40 | offset]`.
+ */
+export function lv0(offset: number): Uint8Array {
+	if (!Number.isInteger(offset) || offset < 0 || offset > 31) {
+		throw new Error(`LV0 offset out of range: ${offset}`);
+	}
+	return new Uint8Array([0x40 | offset]);
+}
+
+/**
+ * Encodes a 2-byte EV3 Local Variable reference (LV1).
+ * Offset range: 0..255. Wire format: `[0xC1, offset]`.
+ */
+export function lv1(offset: number): Uint8Array {
+	if (!Number.isInteger(offset) || offset < 0 || offset > 255) {
+		throw new Error(`LV1 offset out of range: ${offset}`);
+	}
+	return new Uint8Array([0xc1, offset & 0xff]);
+}
+
+/**
+ * Encodes a 3-byte EV3 Local Variable reference (LV2).
+ * Offset range: 0..65535. Wire format: `[0xC2, uint16LE]`.
+ */
+export function lv2(offset: number): Uint8Array {
+	if (!Number.isInteger(offset) || offset < 0 || offset > 0xffff) {
+		throw new Error(`LV2 offset out of range: ${offset}`);
+	}
+	return concatBytes(new Uint8Array([0xc2]), uint16le(offset));
+}
+
+/** Encodes a local variable reference in the shortest form (LV0, LV1 or LV2) that reaches `offset`. */
+export function lv(offset: number): Uint8Array {
+	if (offset >= 0 && offset <= 31) { return lv0(offset); }
+	if (offset >= 0 && offset <= 255) { return lv1(offset); }
+	return lv2(offset);
+}
+
 // ── Parsing helpers ─────────────────────────────────────────────────
 
 /** Reads a null-terminated string from a fixed-size slot in a byte array. */
@@ -2,22 +2,42 @@
  * Maps BrickCommand types to EV3 bytecode payloads.
  *
  * Each builder function returns `{ type, payload }` ready for packet framing.
- * Direct commands use a global variable allocation header (first 2 bytes)
- * to reserve space for reply data.
+ * Direct commands are assembled with {@link DirectCommandBuilder}; those that
+ * read data also carry the decoder for their reply, which ev3Responses uses.
+ * Read builders append to a builder passed in, so {@link buildBatchCommand}
+ * can combine several reads into one packet.
  */
 
-import { BrickCommand } from '../contracts';
-import { concatBytes, uint16le, uint32le, lc0, cString, gv0, gv1 } from './ev3Bytecode';
 import {
-	EV3_COMMAND, EV3_SYSTEM, EV3_OPCODE, UI_READ_SUB,
-	INPUT_DEVICE_SUB,
+	BrickCommand, BrickLayer, LedColor, LedEffect, MailboxValue, MotorPort, SensorDataFormat, SensorModes, SensorPort,
+} from '../contracts';
+import { concatBytes, uint16le, uint32le, float32le, cString } from './ev3Bytecode';
+import { DirectCommand, DirectCommandBuilder, Operand, MAX_GLOBAL_BYTES, MAX_LOCAL_BYTES } from './directCommand';
+import {
+	EV3_COMMAND, EV3_SYSTEM, EV3_OPCODE, UI_READ_SUB, UI_WRITE_SUB, DATA_FORMAT,
+	INPUT_DEVICE_SUB, FILE_SUB, PROGRAM_INFO_SUB, COM_GET_SUB, COM_SET_SUB, COM_HARDWARE, SOUND_SUB,
 } from './ev3Packet';
 
 // ── Constants ───────────────────────────────────────────────────────
 
-const LAYER_SELF = 0;
+/** Daisy-chain layer of the brick the host is connected to; slaves are layers 1..3. */
+const LAYER_MASTER = 0;
+/** Highest daisy-chain layer; a master drives at most three slaves. */
+export const BRICK_LAYER_MAX = 3;
+/** Program slot for user programs (slot 0 is the on-brick UI). */
+const USER_SLOT = 1;
 /** Max bytes per system command chunk. */
 const SYSTEM_LIST_CHUNK_SIZE = 1012;
+/** Max file bytes per CONTINUE_DOWNLOAD packet: 1024-byte USB report minus 7 header bytes. */
+const SYSTEM_DOWNLOAD_CHUNK_SIZE = 1017;
+
+/** Chunk sizes for multi-packet file transfers (exported for the transfer driver). */
+export const FILE_CHUNK_SIZE = {
+	/** Host → brick, per CONTINUE_DOWNLOAD packet. */
+	DOWNLOAD: SYSTEM_DOWNLOAD_CHUNK_SIZE,
+	/** Brick → host, per BEGIN_UPLOAD / CONTINUE_UPLOAD reply. */
+	UPLOAD: SYSTEM_LIST_CHUNK_SIZE,
+} as const;
 
 // ── Capability probe (info command) ─────────────────────────────────
 
@@ -26,27 +46,68 @@ const LEN_HW_VERS = 8;
 const LEN_FW_VERS = 8;
 const LEN_OS_BUILD = 12;
 const LEN_FW_BUILD = 12;
+/** Brick name: up to 12 characters plus terminator. */
+const LEN_BRICK_NAME = 13;
+/** Bluetooth ID: 12 hex digits plus terminator. */
+const LEN_BT_ID = 13;
 
-const OFF_OS_VERS = 0;
-const OFF_HW_VERS = OFF_OS_VERS + LEN_OS_VERS;
-const OFF_FW_VERS = OFF_HW_VERS + LEN_HW_VERS;
-const OFF_OS_BUILD = OFF_FW_VERS + LEN_FW_VERS;
-const OFF_FW_BUILD = OFF_OS_BUILD + LEN_OS_BUILD;
-const TOTAL_INFO_BYTES = OFF_FW_BUILD + LEN_FW_BUILD;
-
-/** Lengths and offsets for info reply parsing (exported for ev3Responses). */
-export const INFO_LAYOUT = {
-	LEN_OS_VERS, LEN_HW_VERS, LEN_FW_VERS, LEN_OS_BUILD, LEN_FW_BUILD,
-	OFF_OS_VERS, OFF_HW_VERS, OFF_FW_VERS, OFF_OS_BUILD, OFF_FW_BUILD,
-	TOTAL_INFO_BYTES,
-} as const;
-
-// ── Port layout ─────────────────────────────────────────────────────
+/**
+ * Lengths and offsets of the info reply.
+ * @deprecated Decode replies with `buildInfoCommand().decode`; kept for existing importers.
+ */
+export const INFO_LAYOUT = (() => {
+	const OFF_OS_VERS = 0;
+	const OFF_HW_VERS = OFF_OS_VERS + LEN_OS_VERS;
+	const OFF_FW_VERS = OFF_HW_VERS + LEN_HW_VERS;
+	const OFF_OS_BUILD = OFF_FW_VERS + LEN_FW_VERS;
+	const OFF_FW_BUILD = OFF_OS_BUILD + LEN_OS_BUILD;
+	const OFF_BRICK_NAME = OFF_FW_BUILD + LEN_FW_BUILD;
+	const OFF_BT_ID = OFF_BRICK_NAME + LEN_BRICK_NAME;
+	return {
+		LEN_OS_VERS, LEN_HW_VERS, LEN_FW_VERS, LEN_OS_BUILD, LEN_FW_BUILD, LEN_BRICK_NAME, LEN_BT_ID,
+		OFF_OS_VERS, OFF_HW_VERS, OFF_FW_VERS, OFF_OS_BUILD, OFF_FW_BUILD, OFF_BRICK_NAME, OFF_BT_ID,
+		TOTAL_INFO_BYTES: OFF_BT_ID + LEN_BT_ID,
+	} as const;
+})();
+
+// ── Sensor metadata (sensor:info) ───────────────────────────────────
+
+/** Device and mode names: 11 characters plus terminator. */
+const LEN_DEVICE_NAME = 12;
+/** Unit symbol: 4 characters plus terminator. */
+const LEN_SYMBOL = 5;
+/** Mode names queried per device; EV3 devices expose at most 8 modes. */
+const MODE_NAME_SLOTS = 8;
+
+// ── Ports ───────────────────────────────────────────────────────────
+
+/** Datasets read per sensor; the infrared seeker, with 8, has the most. */
+export const MAX_DATASETS = 8;
 
 /** Sensor port indices (1-4 mapped to 0-3 in EV3 protocol). */
 const SENSOR_PORTS = [0, 1, 2, 3];
+const SENSOR_PORT_LABELS: readonly SensorPort[] = ['1', '2', '3', '4'];
+/** Type operand that leaves the connected device type untouched. */
+const TYPE_KEEP = 0;
+/** Mode operand that leaves the current sensor mode untouched. */
+const MODE_KEEP = -1;
+/** Highest sensor mode number; EV3 devices expose at most 8 modes. */
+export const SENSOR_MODE_MAX = 7;
 /** Motor port indices (A-D mapped to 16-19 in EV3 INPUT_DEVICE, 0-3 for OUTPUT). */
 const MOTOR_INPUT_PORTS = [16, 17, 18, 19];
+const MOTOR_OUTPUT_PORTS = [0, 1, 2, 3];
+/** Output port bits used by opOUTPUT_* "NOS" operands. */
+const MOTOR_OUTPUT_BITS: Record<MotorPort, number> = { A: 0x01, B: 0x02, C: 0x04, D: 0x08 };
+
+// ── Chain ───────────────────────────────────────────────────────────
+
+const PORTS_PER_LAYER = 4;
+const CHAIN_LAYERS = BRICK_LAYER_MAX + 1;
+
+// ── Storage ─────────────────────────────────────────────────────────
+
+/** Mount point of the SD card; paths below it are stored on the card. */
+export const SD_CARD_ROOT = '/media/card';
 
 // ── Public interface ────────────────────────────────────────────────
 
@@ -66,164 +127,790 @@ export function buildCommand(command: BrickCommand): EncodedCommand {
 	case 'battery':
 		return buildBatteryCommand();
 	case 'ports':
-		return buildPortsCommand();
+		return buildPortsCommand(command.sensorModes ?? {}, command.layer ?? LAYER_MASTER, command.format);
 	case 'buttons':
 		return buildButtonsCommand();
 	case 'info':
 		return buildInfoCommand();
+	case 'system:setName':
+		return buildSetBrickNameCommand(command.name);
+	case 'system:storage':
+		return buildStorageCommand();
+	case 'sensor:setMode':
+		return buildSetSensorModeCommand(command.port, command.mode, command.layer ?? LAYER_MASTER);
+	case 'sensor:info':
+		return buildSensorInfoCommand(command.port, command.layer ?? LAYER_MASTER);
+	case 'chain:list':
+		return buildChainListCommand();
 	case 'fs:list':
 		return buildFsListCommand(command.path);
 	case 'fs:read':
+	case 'fs:readBinary':
 		return buildFsReadCommand(command.path);
 	case 'fs:write':
-		return buildFsWriteCommand(command.path, command.content);
+		return buildFsWriteCommand(command.path, Buffer.byteLength(command.content, 'utf8'));
+	case 'fs:writeBinary':
+		return buildFsWriteCommand(command.path, command.content.length);
 	case 'fs:exists':
 		return buildFsExistsCommand(command.path);
 	case 'fs:delete':
 		return buildFsDeleteCommand(command.path);
+	case 'fs:mkdir':
+		return buildCreateDir(command.path);
+	case 'fs:rmdir':
+		// Single packet removes an empty folder; recursive removal is driven by the transport layer.
+		return buildDeleteFile(command.path);
+	case 'mailbox:write':
+		return buildWriteMailbox(command.mailbox, command.message);
+	case 'sound:tone':
+		return buildSoundToneCommand(command.frequency, command.durationMs, command.volume ?? DEFAULT_TONE_VOLUME);
+	case 'sound:play':
+		return buildSoundPlayCommand(command.path, command.volume);
+	case 'sound:stop':
+		return buildSoundStopCommand();
+	case 'led:set':
+		return buildLedCommand(command.color, command.effect ?? 'steady');
+	case 'program:run':
+		return buildProgramRunCommand(command.path);
+	case 'program:stop':
+		return buildProgramStopCommand();
+	case 'program:status':
+		return buildProgramStatusCommand();
+	case 'motor:run':
+		return buildMotorRunCommand(command.ports, command.speed, command.layer ?? LAYER_MASTER);
+	case 'motor:stop':
+		return buildMotorStopCommand(command.ports, command.brake, command.layer ?? LAYER_MASTER);
+	case 'motor:resetTacho':
+		return buildMotorResetTachoCommand(command.ports, command.layer ?? LAYER_MASTER);
+	case 'motor:runForDegrees':
+		return buildMotorStepCommand(
+			EV3_OPCODE.OUTPUT_STEP_SPEED, command.ports, command.speed, command.degrees, command.brake,
+			command.layer ?? LAYER_MASTER,
+		);
+	case 'motor:runForTime':
+		return buildMotorStepCommand(
+			EV3_OPCODE.OUTPUT_TIME_SPEED, command.ports, command.speed, command.timeMs, command.brake,
+			command.layer ?? LAYER_MASTER,
+		);
 	}
 }
 
 // ── Direct commands ─────────────────────────────────────────────────
 
-/** Battery level: reads battery current as float32. */
-function buildBatteryCommand(): EncodedCommand {
-	// 4 bytes global: float32 battery current
-	const payload = concatBytes(
-		uint16le(4),
-		new Uint8Array([EV3_OPCODE.UI_READ, UI_READ_SUB.GET_IBATT]),
-		gv0(0),
-	);
-	return { type: EV3_COMMAND.DIRECT_COMMAND_REPLY, payload };
+/** Decoded battery reply: voltage in V, current in A. */
+export interface BatteryReply { voltage: number; current: number }
+
+/** Battery: reads battery voltage (V) and current (A) as float32. */
+export function buildBatteryCommand(cmd = new DirectCommandBuilder()): DirectCommand<BatteryReply> {
+	const voltage = cmd.global('float32');
+	const current = cmd.global('float32');
+	cmd.op(EV3_OPCODE.UI_READ, UI_READ_SUB.GET_VBATT, voltage);
+	cmd.op(EV3_OPCODE.UI_READ, UI_READ_SUB.GET_IBATT, current);
+	return cmd.build({ voltage, current });
+}
+
+/** Decoded ports reply: raw type codes and readings per sensor port (1-4) and motor port (A-D). */
+export interface PortsReply {
+	sensors: { type: number; mode: number; datasetCount: number; datasets: number[] }[];
+	motors: { type: number; tacho: number; speed: number; busy: number }[];
 }
 
 /**
- * Ports: reads sensor type/mode for 4 sensor ports and 4 motor ports,
- * plus one float32 SI value per port.
+ * Ports: reads sensor type/mode and dataset count for 4 sensor ports, every
+ * dataset of each sensor (INPUT_READEXT), and type/mode plus tacho count,
+ * speed and busy state for 4 motor ports. Datasets are float32 SI values, or
+ * int32 unscaled values when `format` is `raw`.
  *
- * Global allocation layout:
- * - Bytes 0..7:   sensor type+mode (2 bytes × 4 ports)
- * - Bytes 8..15:  motor type+mode (2 bytes × 4 ports)
- * - Bytes 16..31: sensor SI values (4 bytes × 4 ports)
- * - Bytes 32..47: motor tacho (4 bytes × 4 ports)
- */
-function buildPortsCommand(): EncodedCommand {
-	const globalBytes = 8 + 8 + 16 + 16;  // 48
-	const ops: Uint8Array[] = [uint16le(globalBytes)];
-
-	// Sensor type/mode: 2 bytes each at offsets 0..7
-	for (let i = 0; i < SENSOR_PORTS.length; i++) {
-		ops.push(new Uint8Array([EV3_OPCODE.INPUT_DEVICE, INPUT_DEVICE_SUB.GET_TYPEMODE]));
-		ops.push(lc0(LAYER_SELF));
-		ops.push(lc0(SENSOR_PORTS[i]));
-		ops.push(gv0(i * 2));       // type
-		ops.push(gv0(i * 2 + 1));   // mode
-	}
-
-	// Motor type/mode: 2 bytes each at offsets 8..15
-	for (let i = 0; i < MOTOR_INPUT_PORTS.length; i++) {
-		ops.push(new Uint8Array([EV3_OPCODE.INPUT_DEVICE, INPUT_DEVICE_SUB.GET_TYPEMODE]));
-		ops.push(lc0(LAYER_SELF));
-		ops.push(lc0(MOTOR_INPUT_PORTS[i]));
-		ops.push(gv0(8 + i * 2));       // type
-		ops.push(gv0(8 + i * 2 + 1));   // mode
-	}
-
-	// Sensor SI values: 4 bytes each at offsets 16..31
-	for (let i = 0; i < SENSOR_PORTS.length; i++) {
-		ops.push(new Uint8Array([EV3_OPCODE.INPUT_READ_SI]));
-		ops.push(lc0(LAYER_SELF));
-		ops.push(lc0(SENSOR_PORTS[i]));
-		ops.push(lc0(0));  // type hint (0 = auto)
-		ops.push(lc0(0));  // mode hint (0 = default)
-		ops.push(gv0(16 + i * 4));
-	}
-
-	// Motor tacho: 4 bytes each at offsets 32..47
-	for (let i = 0; i < 4; i++) {
-		ops.push(new Uint8Array([EV3_OPCODE.OUTPUT_GET_COUNT]));
-		ops.push(lc0(LAYER_SELF));
-		ops.push(lc0(i));  // motor port index 0-3
-		ops.push(gv1(32 + i * 4));
-	}
-
-	return { type: EV3_COMMAND.DIRECT_COMMAND_REPLY, payload: concatBytes(...ops) };
-}
-
-/** Buttons: reads which button is currently pressed. */
-function buildButtonsCommand(): EncodedCommand {
-	// 6 bytes global: one byte per button (up, enter, down, right, left, back)
-	const ops: Uint8Array[] = [uint16le(6)];
-	const buttonIds = [1, 2, 3, 4, 5, 6]; // UP, ENTER, DOWN, RIGHT, LEFT, BACK
+ * Each sensor is read in the mode given in `sensorModes` (which switches it
+ * to that mode); other sensors are read in their current mode. `layer`
+ * selects a daisy-chained slave instead of the master.
+ */
+export function buildPortsCommand(
+	sensorModes: SensorModes, layer: BrickLayer, format: SensorDataFormat = 'si', cmd = new DirectCommandBuilder(),
+): DirectCommand<PortsReply> {
+	const l = layerOperand(layer);
+	const sensors = SENSOR_PORTS.map(() => ({ type: cmd.global('uint8'), mode: cmd.global('uint8') }));
+	const motors = MOTOR_INPUT_PORTS.map(() => ({ type: cmd.global('uint8'), mode: cmd.global('uint8') }));
+	// GET_FORMAT: datasets, format, modes, views
+	const formats = SENSOR_PORTS.map(() => [cmd.global('uint8'), cmd.global('uint8'), cmd.global('uint8'), cmd.global('uint8')]);
+	const tachos = MOTOR_OUTPUT_PORTS.map(() => cmd.global('int32'));
+	const datasetType = format === 'raw' ? 'int32' : 'float32';
+	const datasets = SENSOR_PORTS.map(() => Array.from({ length: MAX_DATASETS }, () => cmd.global(datasetType)));
+	const speeds = MOTOR_OUTPUT_PORTS.map(() => cmd.global('int8'));
+	const busy = MOTOR_OUTPUT_PORTS.map(() => cmd.global('uint8'));
+	// OUTPUT_READ also reports the tacho, which GET_COUNT already covers.
+	const scratch = cmd.local('int32');
+
+	// Sensor datasets first, so the type/mode and format queries below already
+	// describe a mode switched by this read.
+	SENSOR_PORTS.forEach((no, i) => {
+		const mode = sensorModes[SENSOR_PORT_LABELS[i]];
+		if (mode !== undefined) { assertSensorMode(mode); }
+		cmd.op(
+			EV3_OPCODE.INPUT_READEXT, l, no, TYPE_KEEP, mode ?? MODE_KEEP,
+			format === 'raw' ? DATA_FORMAT.RAW : DATA_FORMAT.SI, MAX_DATASETS, ...datasets[i],
+		);
+	});
+	SENSOR_PORTS.forEach((no, i) => {
+		cmd.op(EV3_OPCODE.INPUT_DEVICE, INPUT_DEVICE_SUB.GET_TYPEMODE, l, no, sensors[i].type, sensors[i].mode);
+		cmd.op(EV3_OPCODE.INPUT_DEVICE, INPUT_DEVICE_SUB.GET_FORMAT, l, no, ...formats[i]);
+	});
+	MOTOR_INPUT_PORTS.forEach((no, i) => {
+		cmd.op(EV3_OPCODE.INPUT_DEVICE, INPUT_DEVICE_SUB.GET_TYPEMODE, l, no, motors[i].type, motors[i].mode);
+	});
+	MOTOR_OUTPUT_PORTS.forEach((no, i) => cmd.op(EV3_OPCODE.OUTPUT_GET_COUNT, l, no, tachos[i]));
+	MOTOR_OUTPUT_PORTS.forEach((no, i) => {
+		cmd.op(EV3_OPCODE.OUTPUT_READ, l, no, speeds[i], scratch);
+		cmd.op(EV3_OPCODE.OUTPUT_TEST, l, 1 << no, busy[i]);
+	});
+
+	return cmd.build({
+		sensors: sensors.map((s, i) => ({ ...s, datasetCount: formats[i][0], datasets: datasets[i] })),
+		motors: motors.map((m, i) => ({ type: m.type, tacho: tachos[i], speed: speeds[i], busy: busy[i] })),
+	});
+}
+
+/** Decoded chain list reply: device type codes of every port, per daisy-chain layer. */
+export interface ChainListReply {
+	layers: { inputs: number[]; outputs: number[] }[];
+}
+
+/**
+ * Chain list: device type of every input and output port on all four layers
+ * (opINPUT_DEVICE_LIST). The firmware fills one array — the 4 sensor ports of
+ * layers 0..3, then the 4 motor ports of layers 0..3 — plus a "list changed" flag.
+ */
+export function buildChainListCommand(cmd = new DirectCommandBuilder()): DirectCommand<ChainListReply> {
+	const types = Array.from({ length: 2 * CHAIN_LAYERS * PORTS_PER_LAYER }, () => cmd.global('uint8'));
+	const changed = cmd.global('uint8');
+	cmd.op(EV3_OPCODE.INPUT_DEVICE_LIST, types.length, types[0], changed);
+	const outputs = CHAIN_LAYERS * PORTS_PER_LAYER;
+	const ports = (first: number) => types.slice(first, first + PORTS_PER_LAYER);
+	return cmd.build({
+		layers: Array.from({ length: CHAIN_LAYERS }, (_, layer) => ({
+			inputs: ports(layer * PORTS_PER_LAYER),
+			outputs: ports(outputs + layer * PORTS_PER_LAYER),
+		})),
+	});
+}
+
+/** Sensor mode: opINPUT_DEVICE SET_TYPEMODE, keeping the detected device type. */
+function buildSetSensorModeCommand(port: SensorPort, mode: number, layer: BrickLayer): EncodedCommand {
+	const no = sensorPortIndex(port);
+	assertSensorMode(mode);
+	return new DirectCommandBuilder()
+		.op(EV3_OPCODE.INPUT_DEVICE, INPUT_DEVICE_SUB.SET_TYPEMODE, layerOperand(layer), no, TYPE_KEEP, mode)
+		.build({});
+}
+
+/** Decoded sensor:info reply for the device on one port. */
+export interface SensorInfoReply {
+	type: number;
+	mode: number;
+	modeCount: number;
+	min: number;
+	max: number;
+	name: string;
+	symbol: string;
+	modeNames: string[];
+}
+
+/**
+ * Sensor info: type/mode, dataset count, SI range, name and unit symbol of the
+ * device in its current mode, plus the names of all its modes (opINPUT_DEVICE).
+ */
+export function buildSensorInfoCommand(
+	port: SensorPort, layer: BrickLayer, cmd = new DirectCommandBuilder(),
+): DirectCommand<SensorInfoReply> {
+	const no = sensorPortIndex(port);
+	const l = layerOperand(layer);
+	const type = cmd.global('uint8');
+	const mode = cmd.global('uint8');
+	// GET_FORMAT: datasets, format, modes, views
+	const format = [cmd.global('uint8'), cmd.global('uint8'), cmd.global('uint8'), cmd.global('uint8')];
+	const min = cmd.global('float32');
+	const max = cmd.global('float32');
+	const name = cmd.globalString(LEN_DEVICE_NAME);
+	const symbol = cmd.globalString(LEN_SYMBOL);
+	const modeNames = Array.from({ length: MODE_NAME_SLOTS }, () => cmd.globalString(LEN_DEVICE_NAME));
+
+	const device = (sub: number, ...operands: Operand[]) => cmd.op(EV3_OPCODE.INPUT_DEVICE, sub, l, no, ...operands);
+	device(INPUT_DEVICE_SUB.GET_TYPEMODE, type, mode);
+	device(INPUT_DEVICE_SUB.GET_FORMAT, ...format);
+	device(INPUT_DEVICE_SUB.GET_MINMAX, min, max);
+	device(INPUT_DEVICE_SUB.GET_NAME, LEN_DEVICE_NAME, name);
+	device(INPUT_DEVICE_SUB.GET_SYMBOL, LEN_SYMBOL, symbol);
+	modeNames.forEach((modeName, i) => device(INPUT_DEVICE_SUB.GET_MODENAME, i, LEN_DEVICE_NAME, modeName));
+
+	return cmd.build({ type, mode, modeCount: format[2], min, max, name, symbol, modeNames });
+}
+
+function sensorPortIndex(port: SensorPort): number {
+	const index = SENSOR_PORT_LABELS.indexOf(port);
+	if (index < 0) {
+		throw new Error(`Invalid sensor port: ${String(port)}`);
+	}
+	return SENSOR_PORTS[index];
+}
 
-	for (let i = 0; i < buttonIds.length; i++) {
-		ops.push(new Uint8Array([EV3_OPCODE.UI_READ, UI_READ_SUB.GET_PRESS]));
-		ops.push(lc0(buttonIds[i]));
-		ops.push(gv0(i));
+/** Throws unless `layer` is a daisy-chain layer (0 = master, 1..3 = slaves). */
+export function assertBrickLayer(layer: number): void {
+	if (!Number.isInteger(layer) || layer < LAYER_MASTER || layer > BRICK_LAYER_MAX) {
+		throw new Error(`Brick layer must be an integer in ${LAYER_MASTER}..${BRICK_LAYER_MAX}, got ${layer}`);
 	}
+}
+
+function layerOperand(layer: BrickLayer): number {
+	assertBrickLayer(layer);
+	return layer;
+}
+
+/** Throws unless `mode` is a sensor mode number the firmware can select. */
+export function assertSensorMode(mode: number): void {
+	if (!Number.isInteger(mode) || mode < 0 || mode > SENSOR_MODE_MAX) {
+		throw new Error(`Sensor mode must be an integer in 0..${SENSOR_MODE_MAX}, got ${mode}`);
+	}
+}
 
-	return { type: EV3_COMMAND.DIRECT_COMMAND_REPLY, payload: concatBytes(...ops) };
+/** Decoded buttons reply: non-zero per pressed button, in up, enter, down, right, left, back order. */
+export interface ButtonsReply { pressed: number[] }
+
+/** Buttons: reads whether each button (up, enter, down, right, left, back) is pressed. */
+export function buildButtonsCommand(cmd = new DirectCommandBuilder()): DirectCommand<ButtonsReply> {
+	const buttonIds = [1, 2, 3, 4, 5, 6]; // UP, ENTER, DOWN, RIGHT, LEFT, BACK
+	const pressed = buttonIds.map((id) => {
+		const state = cmd.global('uint8');
+		cmd.op(EV3_OPCODE.UI_READ, UI_READ_SUB.GET_PRESS, id, state);
+		return state;
+	});
+	return cmd.build({ pressed });
 }
 
-/** Info: reads firmware version, OS version, HW version, builds. */
-function buildInfoCommand(): EncodedCommand {
-	const ops: Uint8Array[] = [uint16le(TOTAL_INFO_BYTES)];
+/** Decoded info reply; empty strings for fields the brick left blank. */
+export interface InfoReply {
+	osVersion: string;
+	hardwareVersion: string;
+	firmwareVersion: string;
+	osBuild: string;
+	firmwareBuild: string;
+	brickName: string;
+	btId: string;
+}
 
-	const readString = (sub: number, len: number, off: number) => {
-		ops.push(new Uint8Array([EV3_OPCODE.UI_READ, sub]));
-		ops.push(lc0(len));
-		if (off < 32) { ops.push(gv0(off)); } else { ops.push(gv1(off)); }
+/**
+ * Info: reads firmware version, OS version, HW version, builds (opUI_READ),
+ * then the brick name and Bluetooth ID (opCOM_GET).
+ */
+export function buildInfoCommand(cmd = new DirectCommandBuilder()): DirectCommand<InfoReply> {
+	const readString = (sub: number, length: number) => {
+		const text = cmd.globalString(length);
+		cmd.op(EV3_OPCODE.UI_READ, sub, length, text);
+		return text;
 	};
 
-	readString(UI_READ_SUB.GET_OS_VERS, LEN_OS_VERS, OFF_OS_VERS);
-	readString(UI_READ_SUB.GET_HW_VERS, LEN_HW_VERS, OFF_HW_VERS);
-	readString(UI_READ_SUB.GET_FW_VERS, LEN_FW_VERS, OFF_FW_VERS);
-	readString(UI_READ_SUB.GET_OS_BUILD, LEN_OS_BUILD, OFF_OS_BUILD);
-	readString(UI_READ_SUB.GET_FW_BUILD, LEN_FW_BUILD, OFF_FW_BUILD);
+	const osVersion = readString(UI_READ_SUB.GET_OS_VERS, LEN_OS_VERS);
+	const hardwareVersion = readString(UI_READ_SUB.GET_HW_VERS, LEN_HW_VERS);
+	const firmwareVersion = readString(UI_READ_SUB.GET_FW_VERS, LEN_FW_VERS);
+	const osBuild = readString(UI_READ_SUB.GET_OS_BUILD, LEN_OS_BUILD);
+	const firmwareBuild = readString(UI_READ_SUB.GET_FW_BUILD, LEN_FW_BUILD);
+
+	// opCOM_GET GET_BRICKNAME: (length, name)
+	const brickName = cmd.globalString(LEN_BRICK_NAME);
+	cmd.op(EV3_OPCODE.COM_GET, COM_GET_SUB.GET_BRICKNAME, LEN_BRICK_NAME, brickName);
+	// opCOM_GET GET_ID: (hardware, length, id) — the Bluetooth address as hex digits
+	const btId = cmd.globalString(LEN_BT_ID);
+	cmd.op(EV3_OPCODE.COM_GET, COM_GET_SUB.GET_ID, COM_HARDWARE.BT, LEN_BT_ID, btId);
+
+	return cmd.build({ osVersion, hardwareVersion, firmwareVersion, osBuild, firmwareBuild, brickName, btId });
+}
+
+/** Longest brick name the firmware accepts (the name buffer holds 12 characters + NUL). */
+export const BRICK_NAME_MAX_LENGTH = 12;
+
+/** Throws unless `name` is a brick name the firmware (and its Bluetooth stack) accepts. */
+export function assertValidBrickName(name: string): void {
+	if (name.length === 0 || name.length > BRICK_NAME_MAX_LENGTH) {
+		throw new Error(`Brick name must be 1..${BRICK_NAME_MAX_LENGTH} characters, got '${name}'`);
+	}
+	if (!/^[A-Za-z0-9 _-]+$/.test(name)) {
+		throw new Error(`Brick name may only contain letters, digits, space, '_' and '-', got '${name}'`);
+	}
+}
+
+/** Set name: opCOM_SET SET_BRICKNAME. The brick also renames its Bluetooth device. */
+function buildSetBrickNameCommand(name: string): EncodedCommand {
+	assertValidBrickName(name);
+	return new DirectCommandBuilder().op(EV3_OPCODE.COM_SET, COM_SET_SUB.SET_BRICKNAME, name).build({});
+}
+
+/** Decoded storage reply, sizes in KB; `sdCardPresent` is non-zero with a card inserted. */
+export interface StorageReply {
+	internalTotal: number;
+	internalFree: number;
+	sdCardPresent: number;
+	sdCardTotal: number;
+	sdCardFree: number;
+}
+
+/**
+ * Storage: opMEMORY_USAGE (total, free) for the internal memory, then
+ * opUI_READ GET_SDCARD (state, total, free) for the SD card. Sizes are in KB.
+ */
+export function buildStorageCommand(cmd = new DirectCommandBuilder()): DirectCommand<StorageReply> {
+	const internalTotal = cmd.global('int32');
+	const internalFree = cmd.global('int32');
+	const sdCardTotal = cmd.global('int32');
+	const sdCardFree = cmd.global('int32');
+	const sdCardPresent = cmd.global('uint8');
+	cmd.op(EV3_OPCODE.MEMORY_USAGE, internalTotal, internalFree);
+	cmd.op(EV3_OPCODE.UI_READ, UI_READ_SUB.GET_SDCARD, sdCardPresent, sdCardTotal, sdCardFree);
+	return cmd.build({ internalTotal, internalFree, sdCardPresent, sdCardTotal, sdCardFree });
+}
+
+// ── Direct commands (motors) ────────────────────────────────────────
+
+/** Converts port labels to the opOUTPUT_* bitmask. Throws on an empty or invalid selection. */
+function motorPortMask(ports: readonly MotorPort[]): number {
+	if (ports.length === 0) {
+		throw new Error('Motor command requires at least one port.');
+	}
+	let mask = 0;
+	for (const port of ports) {
+		const bit = MOTOR_OUTPUT_BITS[port];
+		if (bit === undefined) {
+			throw new Error(`Invalid motor port: ${String(port)}`);
+		}
+		mask |= bit;
+	}
+	return mask;
+}
+
+function motorSpeed(speed: number): number {
+	if (!Number.isInteger(speed) || speed < -100 || speed > 100) {
+		throw new Error(`Motor speed must be an integer in -100..100, got ${speed}`);
+	}
+	return speed;
+}
+
+/** Run: sets the speed and starts the selected motors. No reply data. */
+function buildMotorRunCommand(ports: readonly MotorPort[], speed: number, layer: BrickLayer): EncodedCommand {
+	const mask = motorPortMask(ports);
+	const l = layerOperand(layer);
+	return new DirectCommandBuilder()
+		.op(EV3_OPCODE.OUTPUT_SPEED, l, mask, motorSpeed(speed))
+		.op(EV3_OPCODE.OUTPUT_START, l, mask)
+		.build({});
+}
+
+/** Stop: brakes or coasts the selected motors. */
+function buildMotorStopCommand(ports: readonly MotorPort[], brake: boolean, layer: BrickLayer): EncodedCommand {
+	return new DirectCommandBuilder()
+		.op(EV3_OPCODE.OUTPUT_STOP, layerOperand(layer), motorPortMask(ports), brake ? 1 : 0)
+		.build({});
+}
+
+/**
+ * Reset tacho: clears both the position counter (opOUTPUT_RESET) and the
+ * tacho sensor count read back by the ports command (opOUTPUT_CLR_COUNT).
+ */
+function buildMotorResetTachoCommand(ports: readonly MotorPort[], layer: BrickLayer): EncodedCommand {
+	const mask = motorPortMask(ports);
+	const l = layerOperand(layer);
+	return new DirectCommandBuilder()
+		.op(EV3_OPCODE.OUTPUT_RESET, l, mask)
+		.op(EV3_OPCODE.OUTPUT_CLR_COUNT, l, mask)
+		.build({});
+}
+
+/**
+ * Runs for a bounded amount — degrees (opOUTPUT_STEP_SPEED) or milliseconds
+ * (opOUTPUT_TIME_SPEED). Both opcodes share the operand layout
+ * `LAYER, NOS, SPEED, STEP1 (ramp-up), STEP2 (constant), STEP3 (ramp-down), BRAKE`;
+ * the whole amount is spent at constant speed, without ramps.
+ */
+function buildMotorStepCommand(
+	opcode: number, ports: readonly MotorPort[], speed: number, amount: number, brake: boolean, layer: BrickLayer,
+): EncodedCommand {
+	if (!Number.isInteger(amount) || amount <= 0) {
+		throw new Error(`Motor run amount must be a positive integer, got ${amount}`);
+	}
+	return new DirectCommandBuilder()
+		.op(opcode, layerOperand(layer), motorPortMask(ports), motorSpeed(speed), 0, amount, 0, brake ? 1 : 0)
+		.build({});
+}
+
+// ── Direct commands (sound) ─────────────────────────────────────────
+
+/** Volume of a `sound:tone` that does not set one. */
+export const DEFAULT_TONE_VOLUME = 50;
+/** Tone frequency range (Hz) the firmware accepts. */
+const TONE_FREQUENCY_MIN = 250;
+const TONE_FREQUENCY_MAX = 10000;
+/** Longest tone; the firmware takes the duration as a 16-bit value. */
+const TONE_DURATION_MAX_MS = 32767;
+
+/** Throws unless `volume` is an integer percentage (0..100). */
+export function assertSoundVolume(volume: number): void {
+	if (!Number.isInteger(volume) || volume < 0 || volume > 100) {
+		throw new Error(`Sound volume must be an integer in 0..100, got ${volume}`);
+	}
+}
+
+/** Throws unless `frequency` and `durationMs` describe a tone the firmware can play. */
+export function assertTone(frequency: number, durationMs: number): void {
+	if (!Number.isInteger(frequency) || frequency < TONE_FREQUENCY_MIN || frequency > TONE_FREQUENCY_MAX) {
+		throw new Error(`Tone frequency must be an integer in ${TONE_FREQUENCY_MIN}..${TONE_FREQUENCY_MAX} Hz, got ${frequency}`);
+	}
+	if (!Number.isInteger(durationMs) || durationMs <= 0 || durationMs > TONE_DURATION_MAX_MS) {
+		throw new Error(`Tone duration must be an integer in 1..${TONE_DURATION_MAX_MS} ms, got ${durationMs}`);
+	}
+}
+
+/** Tone: opSOUND TONE with volume, frequency (Hz) and duration (ms). */
+function buildSoundToneCommand(frequency: number, durationMs: number, volume: number): EncodedCommand {
+	assertSoundVolume(volume);
+	assertTone(frequency, durationMs);
+	return new DirectCommandBuilder().op(EV3_OPCODE.SOUND, SOUND_SUB.TONE, volume, frequency, durationMs).build({});
+}
+
+/** Play: opSOUND PLAY plays an .rsf file once. The firmware takes the name without its extension. */
+function buildSoundPlayCommand(path: string, volume: number): EncodedCommand {
+	if (!path.toLowerCase().endsWith('.rsf')) {
+		throw new Error(`Sound path must point to an .rsf file, got '${path}'`);
+	}
+	assertSoundVolume(volume);
+	return new DirectCommandBuilder()
+		.op(EV3_OPCODE.SOUND, SOUND_SUB.PLAY, volume, path.slice(0, -'.rsf'.length))
+		.build({});
+}
+
+/** Stop: opSOUND BREAK silences a tone or file. */
+function buildSoundStopCommand(): EncodedCommand {
+	return new DirectCommandBuilder().op(EV3_OPCODE.SOUND, SOUND_SUB.BREAK).build({});
+}
+
+// ── Direct commands (LED) ───────────────────────────────────────────
+
+/** Firmware LED pattern numbers (0..9) of each colour, by effect. */
+const LED_PATTERNS: Record<Exclude<LedColor, 'off'>, Record<LedEffect, number>> = {
+	green: { steady: 1, flashing: 4, pulsing: 7 },
+	red: { steady: 2, flashing: 5, pulsing: 8 },
+	orange: { steady: 3, flashing: 6, pulsing: 9 },
+};
+const LED_OFF = 0;
+
+/** Firmware LED pattern number (0..9) for a colour and effect. Throws on an unknown combination. */
+export function ledPattern(color: LedColor, effect: LedEffect): number {
+	const pattern = color === 'off' ? LED_OFF : LED_PATTERNS[color]?.[effect];
+	if (pattern === undefined) {
+		throw new Error(`Invalid LED pattern: ${String(color)} ${String(effect)}`);
+	}
+	return pattern;
+}
+
+/** LED: opUI_WRITE LED with the firmware pattern for colour and effect. */
+function buildLedCommand(color: LedColor, effect: LedEffect): EncodedCommand {
+	return new DirectCommandBuilder().op(EV3_OPCODE.UI_WRITE, UI_WRITE_SUB.LED, ledPattern(color, effect)).build({});
+}
+
+// ── Direct commands (program execution) ─────────────────────────────
+
+/**
+ * Program run: loads an .rbf into the user slot and starts it.
+ *
+ * LOAD_IMAGE returns the image size and start address in local variables,
+ * which PROGRAM_START reads back. The reply carries no data.
+ */
+function buildProgramRunCommand(path: string): EncodedCommand {
+	if (!path.toLowerCase().endsWith('.rbf')) {
+		throw new Error(`Program path must point to an .rbf file, got '${path}'`);
+	}
+	const cmd = new DirectCommandBuilder();
+	const size = cmd.local('int32');
+	const address = cmd.local('int32');
+	cmd.op(EV3_OPCODE.FILE, FILE_SUB.LOAD_IMAGE, USER_SLOT, path, size, address);
+	cmd.op(EV3_OPCODE.PROGRAM_START, USER_SLOT, size, address, 0);
+	return cmd.build({});
+}
+
+/** Program stop: stops whatever runs in the user slot. */
+function buildProgramStopCommand(): EncodedCommand {
+	return new DirectCommandBuilder().op(EV3_OPCODE.PROGRAM_STOP, USER_SLOT).build({});
+}
+
+/** Decoded program status reply: the raw `PROGRAM_STATUS` code. */
+export interface ProgramStatusReply { status: number }
+
+/** Program status: the user slot's OBJSTAT. */
+export function buildProgramStatusCommand(cmd = new DirectCommandBuilder()): DirectCommand<ProgramStatusReply> {
+	const status = cmd.global('uint8');
+	cmd.op(EV3_OPCODE.PROGRAM_INFO, PROGRAM_INFO_SUB.GET_STATUS, USER_SLOT, status);
+	return cmd.build({ status });
+}
+
+// ── Batched reads ───────────────────────────────────────────────────
+
+/** Read-only commands whose reads {@link buildBatchCommand} can combine into one direct command. */
+export type BatchableCommand = Extract<BrickCommand, {
+	kind: 'battery' | 'ports' | 'buttons' | 'info' | 'system:storage' | 'sensor:info' | 'chain:list' | 'program:status';
+}>;
+
+const BATCHABLE_KINDS: ReadonlySet<BrickCommand['kind']> = new Set<BatchableCommand['kind']>([
+	'battery', 'ports', 'buttons', 'info', 'system:storage', 'sensor:info', 'chain:list', 'program:status',
+]);
+
+export function isBatchable(command: BrickCommand): command is BatchableCommand {
+	return BATCHABLE_KINDS.has(command.kind);
+}
+
+/**
+ * Batch: the reads of several commands in one direct command. Their variables
+ * share one reply, in command order; parseBatchResponse splits it again.
+ *
+ * @throws Error if `commands` is empty or its reads need more variables than one command holds — see {@link planBatches}
+ */
+export function buildBatchCommand(commands: readonly BatchableCommand[]): EncodedCommand {
+	if (commands.length === 0) {
+		throw new Error('Batch command requires at least one command.');
+	}
+	const cmd = new DirectCommandBuilder();
+	for (const command of commands) {
+		appendReads(cmd, command);
+	}
+	return cmd.build({});
+}
+
+/**
+ * Splits `commands`, keeping their order, into groups that each fit one
+ * {@link buildBatchCommand}. Every command is counted with its variables
+ * padded to 4 bytes, the most alignment can add at a command boundary.
+ */
+export function planBatches(commands: readonly BatchableCommand[]): BatchableCommand[][] {
+	const batches: BatchableCommand[][] = [];
+	let globalSize = 0;
+	let localSize = 0;
+	for (const command of commands) {
+		const reads = appendReads(new DirectCommandBuilder(), command);
+		const globals = Math.ceil(reads.globalSize / 4) * 4;
+		const locals = Math.ceil(reads.localSize / 4) * 4;
+		const current = batches[batches.length - 1];
+		if (current && globalSize + globals <= MAX_GLOBAL_BYTES && localSize + locals <= MAX_LOCAL_BYTES) {
+			current.push(command);
+			globalSize += globals;
+			localSize += locals;
+		} else {
+			batches.push([command]);
+			globalSize = globals;
+			localSize = locals;
+		}
+	}
+	return batches;
+}
+
+/** Appends the reads of one command to `cmd`. */
+function appendReads(cmd: DirectCommandBuilder, command: BatchableCommand): DirectCommand<unknown> {
+	switch (command.kind) {
+	case 'battery':
+		return buildBatteryCommand(cmd);
+	case 'ports':
+		return buildPortsCommand(command.sensorModes ?? {}, command.layer ?? LAYER_MASTER, command.format, cmd);
+	case 'buttons':
+		return buildButtonsCommand(cmd);
+	case 'info':
+		return buildInfoCommand(cmd);
+	case 'system:storage':
+		return buildStorageCommand(cmd);
+	case 'sensor:info':
+		return buildSensorInfoCommand(command.port, command.layer ?? LAYER_MASTER, cmd);
+	case 'chain:list':
+		return buildChainListCommand(cmd);
+	case 'program:status':
+		return buildProgramStatusCommand(cmd);
+	}
+}
+
+// ── No-reply commands ───────────────────────────────────────────────
+
+/** Commands that only act on the brick and read nothing back, so they can go out without a reply. */
+export type NoReplyCommand = Extract<BrickCommand, {
+	kind: 'motor:run' | 'motor:stop' | 'motor:resetTacho' | 'motor:runForDegrees' | 'motor:runForTime'
+		| 'sound:tone' | 'sound:play' | 'sound:stop' | 'led:set' | 'mailbox:write' | 'sensor:setMode' | 'program:stop';
+}>;
+
+const NO_REPLY_KINDS: ReadonlySet<BrickCommand['kind']> = new Set<NoReplyCommand['kind']>([
+	'motor:run', 'motor:stop', 'motor:resetTacho', 'motor:runForDegrees', 'motor:runForTime',
+	'sound:tone', 'sound:play', 'sound:stop', 'led:set', 'mailbox:write', 'sensor:setMode', 'program:stop',
+]);
+
+export function isNoReplyCommand(command: BrickCommand): command is NoReplyCommand {
+	return NO_REPLY_KINDS.has(command.kind);
+}
 
-	return { type: EV3_COMMAND.DIRECT_COMMAND_REPLY, payload: concatBytes(...ops) };
+/**
+ * Builds the DIRECT_COMMAND_NO_REPLY / SYSTEM_COMMAND_NO_REPLY variant of a
+ * command. The brick runs it without answering — not even with an error.
+ */
+export function buildNoReplyCommand(command: NoReplyCommand): EncodedCommand {
+	const encoded = buildCommand(command);
+	const type = encoded.type === EV3_COMMAND.SYSTEM_COMMAND_REPLY
+		? EV3_COMMAND.SYSTEM_COMMAND_NO_REPLY
+		: EV3_COMMAND.DIRECT_COMMAND_NO_REPLY;
+	return { type, payload: encoded.payload };
 }
 
 // ── System commands (filesystem) ────────────────────────────────────
 
 function buildFsListCommand(path: string): EncodedCommand {
+	return buildListFiles(path);
+}
+
+function buildFsReadCommand(path: string): EncodedCommand {
+	return buildBeginUpload(path);
+}
+
+/**
+ * Opening packet of a file write. The content itself follows in CONTINUE_DOWNLOAD
+ * packets — see `uploadFile` in the transport layer.
+ */
+function buildFsWriteCommand(path: string, fileSize: number): EncodedCommand {
+	return buildBeginDownload(path, fileSize);
+}
+
+function buildFsExistsCommand(path: string): EncodedCommand {
+	// Use LIST_FILES on the path — if it succeeds, the path exists
+	return buildFsListCommand(path);
+}
+
+function buildFsDeleteCommand(path: string): EncodedCommand {
+	return buildDeleteFile(path);
+}
+
+/** DELETE_FILE: removes a file or an empty folder. */
+export function buildDeleteFile(path: string): EncodedCommand {
 	const payload = concatBytes(
-		new Uint8Array([EV3_SYSTEM.LIST_FILES]),
-		uint16le(SYSTEM_LIST_CHUNK_SIZE),
+		new Uint8Array([EV3_SYSTEM.DELETE_FILE]),
 		cString(path),
 	);
 	return { type: EV3_COMMAND.SYSTEM_COMMAND_REPLY, payload };
 }
 
-function buildFsReadCommand(path: string): EncodedCommand {
+/** CREATE_DIR: creates one folder. Fails with FILE_EXISTS if it is already there. */
+export function buildCreateDir(path: string): EncodedCommand {
 	const payload = concatBytes(
-		new Uint8Array([EV3_SYSTEM.BEGIN_UPLOAD]),
-		uint16le(SYSTEM_LIST_CHUNK_SIZE),
+		new Uint8Array([EV3_SYSTEM.CREATE_DIR]),
 		cString(path),
 	);
 	return { type: EV3_COMMAND.SYSTEM_COMMAND_REPLY, payload };
 }
 
-function buildFsWriteCommand(path: string, content: string): EncodedCommand {
-	const contentBytes = Buffer.from(content, 'utf8');
+// ── System commands (file transfer) ─────────────────────────────────
+//
+// EV3 naming is brick-centric: "download" moves data host → brick,
+// "upload" moves data brick → host.
+
+/** BEGIN_DOWNLOAD: announces a file of `fileSize` bytes. Reply carries the file handle. */
+export function buildBeginDownload(path: string, fileSize: number): EncodedCommand {
 	const payload = concatBytes(
 		new Uint8Array([EV3_SYSTEM.BEGIN_DOWNLOAD]),
-		uint32le(contentBytes.length),
+		uint32le(fileSize),
 		cString(path),
-		contentBytes,
 	);
 	return { type: EV3_COMMAND.SYSTEM_COMMAND_REPLY, payload };
 }
 
-function buildFsExistsCommand(path: string): EncodedCommand {
-	// Use LIST_FILES on the path — if it succeeds, the path exists
-	return buildFsListCommand(path);
+/** CONTINUE_DOWNLOAD: sends the next chunk (at most {@link FILE_CHUNK_SIZE.DOWNLOAD} bytes). */
+export function buildContinueDownload(handle: number, chunk: Uint8Array): EncodedCommand {
+	if (chunk.length > SYSTEM_DOWNLOAD_CHUNK_SIZE) {
+		throw new Error(`Download chunk too large: ${chunk.length} > ${SYSTEM_DOWNLOAD_CHUNK_SIZE} bytes`);
+	}
+	const payload = concatBytes(
+		new Uint8Array([EV3_SYSTEM.CONTINUE_DOWNLOAD, handle & 0xff]),
+		chunk,
+	);
+	return { type: EV3_COMMAND.SYSTEM_COMMAND_REPLY, payload };
 }
 
-function buildFsDeleteCommand(path: string): EncodedCommand {
+/**
+ * BEGIN_UPLOAD: opens `path` for reading. The reply carries the total file size,
+ * the handle and the first chunk (at most {@link FILE_CHUNK_SIZE.UPLOAD} bytes).
+ */
+export function buildBeginUpload(path: string): EncodedCommand {
 	const payload = concatBytes(
-		new Uint8Array([EV3_SYSTEM.DELETE_FILE]),
+		new Uint8Array([EV3_SYSTEM.BEGIN_UPLOAD]),
+		uint16le(SYSTEM_LIST_CHUNK_SIZE),
+		cString(path),
+	);
+	return { type: EV3_COMMAND.SYSTEM_COMMAND_REPLY, payload };
+}
+
+/** CONTINUE_UPLOAD: requests the next chunk of an open upload handle. */
+export function buildContinueUpload(handle: number): EncodedCommand {
+	const payload = concatBytes(
+		new Uint8Array([EV3_SYSTEM.CONTINUE_UPLOAD, handle & 0xff]),
+		uint16le(SYSTEM_LIST_CHUNK_SIZE),
+	);
+	return { type: EV3_COMMAND.SYSTEM_COMMAND_REPLY, payload };
+}
+
+/**
+ * LIST_FILES: opens a directory listing. The reply is laid out like BEGIN_UPLOAD —
+ * total listing size, handle, first chunk of listing text.
+ */
+export function buildListFiles(path: string): EncodedCommand {
+	const payload = concatBytes(
+		new Uint8Array([EV3_SYSTEM.LIST_FILES]),
+		uint16le(SYSTEM_LIST_CHUNK_SIZE),
 		cString(path),
 	);
 	return { type: EV3_COMMAND.SYSTEM_COMMAND_REPLY, payload };
 }
+
+/** CONTINUE_LIST_FILES: requests the next chunk of an open listing handle. */
+export function buildContinueListFiles(handle: number): EncodedCommand {
+	const payload = concatBytes(
+		new Uint8Array([EV3_SYSTEM.CONTINUE_LIST_FILES, handle & 0xff]),
+		uint16le(SYSTEM_LIST_CHUNK_SIZE),
+	);
+	return { type: EV3_COMMAND.SYSTEM_COMMAND_REPLY, payload };
+}
+
+/** CLOSE_FILEHANDLE: releases a handle left open by an interrupted transfer. */
+export function buildCloseFileHandle(handle: number): EncodedCommand {
+	const payload = new Uint8Array([EV3_SYSTEM.CLOSE_FILEHANDLE, handle & 0xff]);
+	return { type: EV3_COMMAND.SYSTEM_COMMAND_REPLY, payload };
+}
+
+// ── System commands (mailbox) ───────────────────────────────────────
+
+/**
+ * WRITEMAILBOX: `[name length:1][name\0][payload length:2][payload]`.
+ *
+ * The brick sends the same layout back, unsolicited, when a program writes
+ * to a mailbox — see `parseMailboxPacket`.
+ */
+export function buildWriteMailbox(mailbox: string, message: MailboxValue): EncodedCommand {
+	const name = cString(mailbox);
+	if (mailbox.length === 0 || name.length > 0xff) {
+		throw new Error(`Mailbox name must be 1..254 bytes, got '${mailbox}'`);
+	}
+	const data = encodeMailboxValue(message);
+	const payload = concatBytes(
+		new Uint8Array([EV3_SYSTEM.WRITEMAILBOX, name.length]),
+		name,
+		uint16le(data.length),
+		data,
+	);
+	return { type: EV3_COMMAND.SYSTEM_COMMAND_REPLY, payload };
+}
+
+/** Encodes a mailbox message the way the EV3 mailbox blocks read it. */
+export function encodeMailboxValue(message: MailboxValue): Uint8Array {
+	switch (message.type) {
+	case 'text':
+		return cString(message.value);
+	case 'numeric':
+		return float32le(message.value);
+	case 'logic':
+		return new Uint8Array([message.value ? 1 : 0]);
+	}
+}
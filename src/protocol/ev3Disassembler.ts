@@ -0,0 +1,314 @@
+/**
+ * EV3 packet disassembler: renders any packet — direct or system command, or a
+ * reply to one — as readable text for logs and test failures.
+ *
+ * ```
+ * #7 DIRECT_COMMAND_REPLY globals=8 locals=0
+ *   UI_READ GET_VBATT GV(0)
+ *   UI_READ GET_IBATT GV(4)
+ * ```
+ *
+ * Direct commands are decoded opcode by opcode with their subcodes and LC / LCS /
+ * GV / LV operands. Bytes that cannot be decoded — an opcode this module does not
+ * know, a truncated operand — end the listing as a `??` line of hex, so the
+ * disassembler never throws.
+ */
+
+import { readInt16le, readInt32le, readUint16le, readUint32le, readFixedCString, hexExcerpt } from './ev3Bytecode';
+import {
+	Ev3Packet, EV3_COMMAND, EV3_REPLY, EV3_SYSTEM, EV3_SYSTEM_STATUS, EV3_OPCODE,
+	UI_READ_SUB, UI_WRITE_SUB, INPUT_DEVICE_SUB, COM_GET_SUB, COM_SET_SUB, FILE_SUB, SOUND_SUB, PROGRAM_INFO_SUB,
+} from './ev3Packet';
+
+/** Renders a packet as text: a header line, then one indented line per opcode of a direct command. */
+export function disassemble(packet: Ev3Packet): string {
+	const header = `#${packet.messageCounter} ${nameOf(PACKET_TYPES, packet.type)}`;
+	const p = packet.payload;
+	switch (packet.type) {
+	case EV3_COMMAND.DIRECT_COMMAND_REPLY:
+	case EV3_COMMAND.DIRECT_COMMAND_NO_REPLY: {
+		const [allocation, ...ops] = disassembleDirect(p);
+		return [`${header} ${allocation}`, ...ops].join('\n');
+	}
+	case EV3_COMMAND.SYSTEM_COMMAND_REPLY:
+	case EV3_COMMAND.SYSTEM_COMMAND_NO_REPLY:
+		return `${header} ${disassembleSystem(p)}`;
+	case EV3_REPLY.SYSTEM_REPLY:
+	case EV3_REPLY.SYSTEM_REPLY_ERROR:
+		if (p.length < 2) { return `${header} ${hexExcerpt(p)}`.trimEnd(); }
+		return `${header} ${nameOf(EV3_SYSTEM, p[0])} ${nameOf(EV3_SYSTEM_STATUS, p[1])}${describeData(p.subarray(2))}`;
+	default:
+		return `${header}${describeData(p)}`;
+	}
+}
+
+// ── Direct commands ─────────────────────────────────────────────────
+
+/** Operand count of each opcode, after its subcode if it has one. */
+const OPERAND_COUNTS: Record<number, number> = {
+	[EV3_OPCODE.INPUT_READ_SI]: 5,
+	[EV3_OPCODE.INPUT_READEXT]: 6, // then as many targets as its sixth operand says
+	[EV3_OPCODE.INPUT_DEVICE_LIST]: 3,
+	[EV3_OPCODE.OUTPUT_SPEED]: 3,
+	[EV3_OPCODE.OUTPUT_START]: 2,
+	[EV3_OPCODE.OUTPUT_STOP]: 3,
+	[EV3_OPCODE.OUTPUT_RESET]: 2,
+	[EV3_OPCODE.OUTPUT_STEP_SPEED]: 7,
+	[EV3_OPCODE.OUTPUT_TIME_SPEED]: 7,
+	[EV3_OPCODE.OUTPUT_CLR_COUNT]: 2,
+	[EV3_OPCODE.OUTPUT_READ]: 4,
+	[EV3_OPCODE.OUTPUT_TEST]: 3,
+	[EV3_OPCODE.OUTPUT_GET_COUNT]: 3,
+	[EV3_OPCODE.MEMORY_USAGE]: 2,
+	[EV3_OPCODE.PROGRAM_STOP]: 1,
+	[EV3_OPCODE.PROGRAM_START]: 4,
+};
+
+interface SubcodeTable {
+	readonly names: Readonly<Record<string, number>>;
+	readonly operandCounts: Readonly<Record<number, number>>;
+}
+
+/** Opcodes whose first operand is a subcode, with the operand count that follows each subcode. */
+const SUBCODES: Record<number, SubcodeTable> = {
+	[EV3_OPCODE.UI_READ]: {
+		names: UI_READ_SUB,
+		operandCounts: {
+			[UI_READ_SUB.GET_VBATT]: 1,
+			[UI_READ_SUB.GET_IBATT]: 1,
+			[UI_READ_SUB.GET_OS_VERS]: 2,
+			[UI_READ_SUB.GET_IMOTOR]: 1,
+			[UI_READ_SUB.GET_HW_VERS]: 2,
+			[UI_READ_SUB.GET_FW_VERS]: 2,
+			[UI_READ_SUB.GET_FW_BUILD]: 2,
+			[UI_READ_SUB.GET_OS_BUILD]: 2,
+			[UI_READ_SUB.GET_PRESS]: 2,
+			[UI_READ_SUB.GET_SDCARD]: 3,
+		},
+	},
+	[EV3_OPCODE.UI_WRITE]: { names: UI_WRITE_SUB, operandCounts: { [UI_WRITE_SUB.LED]: 1 } },
+	[EV3_OPCODE.INPUT_DEVICE]: {
+		names: INPUT_DEVICE_SUB,
+		operandCounts: {
+			[INPUT_DEVICE_SUB.SET_TYPEMODE]: 4,
+			[INPUT_DEVICE_SUB.GET_FORMAT]: 6,
+			[INPUT_DEVICE_SUB.GET_TYPEMODE]: 4,
+			[INPUT_DEVICE_SUB.GET_SYMBOL]: 4,
+			[INPUT_DEVICE_SUB.GET_NAME]: 4,
+			[INPUT_DEVICE_SUB.GET_MODENAME]: 5,
+			[INPUT_DEVICE_SUB.GET_MINMAX]: 4,
+		},
+	},
+	[EV3_OPCODE.COM_GET]: {
+		names: COM_GET_SUB,
+		operandCounts: { [COM_GET_SUB.GET_ID]: 3, [COM_GET_SUB.GET_BRICKNAME]: 2 },
+	},
+	[EV3_OPCODE.COM_SET]: { names: COM_SET_SUB, operandCounts: { [COM_SET_SUB.SET_BRICKNAME]: 1 } },
+	[EV3_OPCODE.FILE]: { names: FILE_SUB, operandCounts: { [FILE_SUB.LOAD_IMAGE]: 4 } },
+	[EV3_OPCODE.SOUND]: {
+		names: SOUND_SUB,
+		operandCounts: { [SOUND_SUB.BREAK]: 0, [SOUND_SUB.TONE]: 3, [SOUND_SUB.PLAY]: 2 },
+	},
+	[EV3_OPCODE.PROGRAM_INFO]: { names: PROGRAM_INFO_SUB, operandCounts: { [PROGRAM_INFO_SUB.GET_STATUS]: 2 } },
+};
+
+type DecodedOperand =
+	| { readonly kind: 'constant'; readonly value: number }
+	| { readonly kind: 'string'; readonly value: string }
+	| { readonly kind: 'global' | 'local'; readonly offset: number };
+
+/** The variable allocation, then one line per opcode. */
+function disassembleDirect(p: Uint8Array): string[] {
+	if (p.length < 2) {
+		return [`?? ${hexExcerpt(p)}`.trimEnd()];
+	}
+	const allocation = readUint16le(p, 0);
+	const lines = [`globals=${allocation & 0x3ff} locals=${allocation >> 10}`];
+	const reader = new OperandReader(p, 2);
+	while (!reader.done) {
+		const start = reader.position;
+		try {
+			lines.push(`  ${disassembleOp(reader)}`);
+		} catch {
+			lines.push(`  ?? ${hexExcerpt(p.subarray(start))}`);
+			break;
+		}
+	}
+	return lines;
+}
+
+function disassembleOp(reader: OperandReader): string {
+	const opcode = reader.byte();
+	const name = nameOf(EV3_OPCODE, opcode);
+	const subcodes = SUBCODES[opcode];
+	if (subcodes) {
+		const subcode = reader.operand();
+		if (subcode.kind !== 'constant' || subcodes.operandCounts[subcode.value] === undefined) {
+			throw new Error(`Unknown subcode for ${name}`);
+		}
+		const operands = reader.operands(subcodes.operandCounts[subcode.value]);
+		return [name, nameOf(subcodes.names, subcode.value), ...operands.map(formatOperand)].join(' ');
+	}
+	const count = OPERAND_COUNTS[opcode];
+	if (count === undefined) {
+		throw new Error(`Unknown opcode 0x${opcode.toString(16)}`);
+	}
+	const operands = reader.operands(count);
+	if (opcode === EV3_OPCODE.INPUT_READEXT) {
+		const targets = operands[5];
+		operands.push(...reader.operands(targets.kind === 'constant' ? targets.value : 0));
+	}
+	return [name, ...operands.map(formatOperand)].join(' ');
+}
+
+function formatOperand(operand: DecodedOperand): string {
+	switch (operand.kind) {
+	case 'constant': return String(operand.value);
+	case 'string': return JSON.stringify(operand.value);
+	case 'global': return `GV(${operand.offset})`;
+	case 'local': return `LV(${operand.offset})`;
+	}
+}
+
+/**
+ * Walks a bytecode buffer. Operands follow the lms2012 encoding: bit 7 clear is
+ * the one-byte short form (a 6-bit constant or a 5-bit variable offset); bit 7
+ * set is the long form, whose low bits give the size of what follows — 1, 2 or
+ * 4 bytes, or a zero-terminated string.
+ */
+class OperandReader {
+	constructor(private readonly bytes: Uint8Array, public position: number) {}
+
+	get done(): boolean {
+		return this.position >= this.bytes.length;
+	}
+
+	byte(): number {
+		if (this.done) {
+			throw new Error('Bytecode is truncated');
+		}
+		return this.bytes[this.position++];
+	}
+
+	operands(count: number): DecodedOperand[] {
+		return Array.from({ length: count }, () => this.operand());
+	}
+
+	operand(): DecodedOperand {
+		const lead = this.byte();
+		const variable = (lead & 0x40) !== 0;
+		if ((lead & 0x80) === 0) {
+			if (variable) {
+				return { kind: lead & 0x20 ? 'global' : 'local', offset: lead & 0x1f };
+			}
+			return { kind: 'constant', value: lead & 0x20 ? (lead & 0x1f) - 32 : lead & 0x1f };
+		}
+		const size = lead & 0x07;
+		if (size === 4 && !variable) {
+			return { kind: 'string', value: this.cString() };
+		}
+		const value = this.integer(size, !variable);
+		return variable ? { kind: lead & 0x20 ? 'global' : 'local', offset: value } : { kind: 'constant', value };
+	}
+
+	private integer(size: number, signed: boolean): number {
+		const at = this.position;
+		switch (size) {
+		case 1:
+			this.byte();
+			return signed ? (this.bytes[at] << 24) >> 24 : this.bytes[at];
+		case 2:
+			this.position += 2;
+			return signed ? readInt16le(this.bytes, at) : readUint16le(this.bytes, at);
+		case 3:
+			this.position += 4;
+			return signed ? readInt32le(this.bytes, at) : readUint32le(this.bytes, at);
+		default:
+			throw new Error(`Unknown operand size ${size}`);
+		}
+	}
+
+	private cString(): string {
+		const end = this.bytes.indexOf(0, this.position);
+		if (end < 0) {
+			throw new Error('String operand is not terminated');
+		}
+		const text = Buffer.from(this.bytes.subarray(this.position, end)).toString('utf8');
+		this.position = end + 1;
+		return text;
+	}
+}
+
+// ── System commands ─────────────────────────────────────────────────
+
+function disassembleSystem(p: Uint8Array): string {
+	if (p.length === 0) {
+		return '??';
+	}
+	const name = nameOf(EV3_SYSTEM, p[0]);
+	try {
+		return `${name} ${describeSystemParameters(p[0], p.subarray(1))}`.trimEnd();
+	} catch {
+		return `${name} ?? ${hexExcerpt(p.subarray(1))}`.trimEnd();
+	}
+}
+
+function describeSystemParameters(command: number, p: Uint8Array): string {
+	switch (command) {
+	case EV3_SYSTEM.BEGIN_DOWNLOAD:
+		return `size=${readUint32le(p, 0)} path=${systemString(p, 4)}`;
+	case EV3_SYSTEM.CONTINUE_DOWNLOAD:
+		return `handle=${systemByte(p, 0)}${describeData(p.subarray(1))}`;
+	case EV3_SYSTEM.BEGIN_UPLOAD:
+	case EV3_SYSTEM.LIST_FILES:
+		return `maxBytes=${readUint16le(p, 0)} path=${systemString(p, 2)}`;
+	case EV3_SYSTEM.CONTINUE_UPLOAD:
+	case EV3_SYSTEM.CONTINUE_LIST_FILES:
+		return `handle=${systemByte(p, 0)} maxBytes=${readUint16le(p, 1)}`;
+	case EV3_SYSTEM.CLOSE_FILEHANDLE:
+		return `handle=${systemByte(p, 0)}`;
+	case EV3_SYSTEM.CREATE_DIR:
+	case EV3_SYSTEM.DELETE_FILE:
+		return `path=${systemString(p, 0)}`;
+	case EV3_SYSTEM.WRITEMAILBOX: {
+		// [name length:1][name\0][payload length:2][payload]
+		const nameLength = systemByte(p, 0);
+		const dataLength = readUint16le(p, 1 + nameLength);
+		return `mailbox=${JSON.stringify(readFixedCString(p, 1, nameLength))}${describeData(p.subarray(3 + nameLength, 3 + nameLength + dataLength))}`;
+	}
+	default:
+		return hexExcerpt(p);
+	}
+}
+
+function systemByte(p: Uint8Array, offset: number): number {
+	if (offset >= p.length) {
+		throw new Error('System command is truncated');
+	}
+	return p[offset];
+}
+
+function systemString(p: Uint8Array, offset: number): string {
+	const end = p.indexOf(0, offset);
+	if (end < 0) {
+		throw new Error('System command path is not terminated');
+	}
+	return JSON.stringify(Buffer.from(p.subarray(offset, end)).toString('utf8'));
+}
+
+// ── Internal ────────────────────────────────────────────────────────
+
+const PACKET_TYPES: Record<string, number> = {
+	...EV3_COMMAND,
+	...EV3_REPLY,
+};
+
+/** ` data=N bytes: <hex>` for a non-empty payload, or nothing. */
+function describeData(bytes: Uint8Array): string {
+	return bytes.length > 0 ? ` data=${bytes.length} bytes: ${hexExcerpt(bytes)}` : '';
+}
+
+/** Key of `value` in a constant table, or its hex form if no key matches. */
+function nameOf(table: Readonly<Record<string, number>>, value: number): string {
+	return Object.entries(table).find(([, v]) => v === value)?.[0] ?? `0x${value.toString(16).padStart(2, '0')}`;
+}
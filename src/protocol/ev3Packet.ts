@@ -5,6 +5,9 @@
  * where `bodyLength = 2 (counter) + 1 (type) + payload.length`.
  */
 
+import { ProtocolError } from '../errors/CockpitError';
+import { hexExcerpt } from './ev3Bytecode';
+
 // ── Packet structure ────────────────────────────────────────────────
 
 export interface Ev3Packet {
@@ -49,26 +52,41 @@ export const EV3_SYSTEM = {
 	CONTINUE_LIST_FILES: 0x9a,
 	CREATE_DIR: 0x9b,
 	DELETE_FILE: 0x9c,
+	WRITEMAILBOX: 0x9e,
 } as const;
 
 // ── Direct command opcodes ──────────────────────────────────────────
 
 export const EV3_OPCODE = {
 	UI_READ: 0x81,
+	UI_WRITE: 0x82,
 	INPUT_DEVICE: 0x99,
 	INPUT_READ_SI: 0x9a,
+	INPUT_READEXT: 0x9e,
 	INPUT_DEVICE_LIST: 0x98,
 	OUTPUT_SPEED: 0xa5,
 	OUTPUT_START: 0xa6,
 	OUTPUT_STOP: 0xa3,
 	OUTPUT_RESET: 0xa2,
+	OUTPUT_STEP_SPEED: 0xae,
+	OUTPUT_TIME_SPEED: 0xaf,
+	OUTPUT_CLR_COUNT: 0xb2,
+	OUTPUT_READ: 0xa8,
+	OUTPUT_TEST: 0xa9,
 	OUTPUT_GET_COUNT: 0xb3,
 	MEMORY_USAGE: 0xc5,
+	COM_GET: 0xd3,
+	COM_SET: 0xd4,
+	FILE: 0xc0,
+	SOUND: 0x94,
 	PROGRAM_STOP: 0x02,
+	PROGRAM_START: 0x03,
+	PROGRAM_INFO: 0x0c,
 } as const;
 
 /** Subcodes for opUI_READ. */
 export const UI_READ_SUB = {
+	GET_VBATT: 0x01,
 	GET_IBATT: 0x02,
 	GET_OS_VERS: 0x03,
 	GET_IMOTOR: 0x07,
@@ -80,10 +98,68 @@ export const UI_READ_SUB = {
 	GET_SDCARD: 0x1d,
 } as const;
 
+/** Subcodes for opUI_WRITE. */
+export const UI_WRITE_SUB = {
+	LED: 0x1b,
+} as const;
+
+/** Subcodes for opCOM_GET. */
+export const COM_GET_SUB = {
+	GET_ID: 0x0c,
+	GET_BRICKNAME: 0x0d,
+} as const;
+
+/** Subcodes for opCOM_SET. */
+export const COM_SET_SUB = {
+	SET_BRICKNAME: 0x08,
+} as const;
+
+/** Hardware selectors for opCOM_GET / opCOM_SET. */
+export const COM_HARDWARE = {
+	BT: 0x02,
+} as const;
+
+/** Subcodes for opFILE. */
+export const FILE_SUB = {
+	LOAD_IMAGE: 0x08,
+} as const;
+
+/** Subcodes for opSOUND. */
+export const SOUND_SUB = {
+	BREAK: 0x00,
+	TONE: 0x01,
+	PLAY: 0x02,
+} as const;
+
+/** Subcodes for opPROGRAM_INFO. */
+export const PROGRAM_INFO_SUB = {
+	GET_STATUS: 0x16,
+} as const;
+
+/** Program slot states reported by PROGRAM_INFO GET_STATUS (OBJSTAT). */
+export const PROGRAM_STATUS = {
+	RUNNING: 0x10,
+	WAITING: 0x20,
+	STOPPED: 0x40,
+	HALTED: 0x80,
+} as const;
+
+/** Value formats for opINPUT_READEXT. */
+export const DATA_FORMAT = {
+	PCT: 0x10,
+	RAW: 0x11,
+	SI: 0x12,
+} as const;
+
 /** Subcodes for opINPUT_DEVICE. */
 export const INPUT_DEVICE_SUB = {
 	SET_TYPEMODE: 0x01,
+	GET_FORMAT: 0x02,
 	GET_TYPEMODE: 0x05,
+	GET_SYMBOL: 0x06,
+	GET_NAME: 0x15,
+	GET_MODENAME: 0x16,
+	GET_MINMAX: 0x1e,
 } as const;
 
 // ── System command status codes ─────────────────────────────────────
@@ -104,6 +180,15 @@ export const EV3_SYSTEM_STATUS = {
 	ILLEGAL_CONNECTION: 0x0c,
 } as const;
 
+/**
+ * Whether a command type and system opcode make up a WRITEMAILBOX command.
+ * The brick may send one with or without asking for a reply.
+ */
+export function isMailboxWrite(type: number, opcode: number | undefined): boolean {
+	return (type === EV3_COMMAND.SYSTEM_COMMAND_NO_REPLY || type === EV3_COMMAND.SYSTEM_COMMAND_REPLY)
+		&& opcode === EV3_SYSTEM.WRITEMAILBOX;
+}
+
 // ── Encode / Decode ─────────────────────────────────────────────────
 
 /**
@@ -135,19 +220,23 @@ export function encodeEv3Packet(
 /**
  * Decodes raw bytes into a structured Ev3Packet.
  *
- * @throws Error if packet is too short or declared length doesn't match
+ * @throws ProtocolError if packet is too short or declared length doesn't match
  */
 export function decodeEv3Packet(packet: Uint8Array): Ev3Packet {
 	if (packet.length < MIN_PACKET_BYTES) {
-		throw new Error(`Invalid EV3 packet: expected at least ${MIN_PACKET_BYTES} bytes, got ${packet.length}`);
+		throw new ProtocolError(
+			`Invalid EV3 packet: expected at least ${MIN_PACKET_BYTES} bytes, got ${packet.length}`,
+			{ packetExcerpt: hexExcerpt(packet) },
+		);
 	}
 
 	const view = new DataView(packet.buffer, packet.byteOffset, packet.byteLength);
 	const declaredBodyLength = view.getUint16(0, true);
 	const actualBodyLength = packet.length - 2;
 	if (declaredBodyLength !== actualBodyLength) {
-		throw new Error(
-			`Invalid EV3 packet length: declared body ${declaredBodyLength}, actual body ${actualBodyLength}`
+		throw new ProtocolError(
+			`Invalid EV3 packet length: declared body ${declaredBodyLength}, actual body ${actualBodyLength}`,
+			{ packetExcerpt: hexExcerpt(packet) },
 		);
 	}
 
@@ -158,6 +247,11 @@ export function decodeEv3Packet(packet: Uint8Array): Ev3Packet {
 	};
 }
 
+/** Hex excerpt of a decoded packet as it was on the wire, for error reports. */
+export function packetExcerpt(packet: Ev3Packet): string {
+	return hexExcerpt(encodeEv3Packet(packet.messageCounter, packet.type, packet.payload));
+}
+
 /**
  * Extracts the first length-prefixed packet from a receive buffer.
  * Returns `null` if the buffer doesn't contain a complete packet yet.
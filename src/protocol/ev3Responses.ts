@@ -9,20 +9,34 @@ import {
 	BrickCommand, BrickResponse,
 	BatteryResponse, PortsResponse, ButtonsResponse, InfoResponse,
 	FsListResponse, FsReadResponse, FsWriteResponse, FsExistsResponse, FsDeleteResponse,
-	PortState,
+	FsReadBinaryResponse, FsWriteBinaryResponse, FsListEntry, FsMkdirResponse, FsRmdirResponse,
+	ProgramStatusResponse, MailboxValue, BatteryChemistry, SensorInfoResponse, ChainListResponse, BrickLayer,
+	PortState, PortDataset, SystemStorageResponse,
 } from '../contracts';
-import { readFloat32le, readInt32le, readFixedCString } from './ev3Bytecode';
+import { ProtocolError, CommandRejectedError } from '../errors/CockpitError';
+import { readFloat32le, readUint16le, readUint32le, readFixedCString } from './ev3Bytecode';
 import {
-	Ev3Packet, EV3_REPLY, EV3_SYSTEM_STATUS,
+	Ev3Packet, EV3_REPLY, EV3_SYSTEM_STATUS, PROGRAM_STATUS, packetExcerpt, isMailboxWrite,
 } from './ev3Packet';
-import { INFO_LAYOUT } from './ev3Commands';
+import { DirectCommandBuilder } from './directCommand';
+import { disassemble } from './ev3Disassembler';
+import {
+	BatchableCommand, EncodedCommand, isBatchable, buildCommand, buildBatchCommand,
+	buildBatteryCommand, buildPortsCommand, buildChainListCommand, buildButtonsCommand, buildInfoCommand,
+	buildStorageCommand, buildSensorInfoCommand, buildProgramStatusCommand,
+} from './ev3Commands';
 
 // ── Sensor/motor type names ─────────────────────────────────────────
 
+/**
+ * Names per device type code, following the firmware's type table (lms2012.h
+ * TYPE_* and typedata.rcf): 1 is the NXT touch sensor, 16 the EV3 touch sensor
+ * (TYPE_TOUCH) and 29 the EV3 color sensor (TYPE_COLOR).
+ */
 const SENSOR_TYPE_NAMES: Record<number, string> = {
 	1: 'touch',
-	16: 'color',
-	29: 'color-v2',
+	16: 'touch',
+	29: 'color',
 	30: 'ultrasonic',
 	32: 'gyro',
 	33: 'infrared',
@@ -35,6 +49,18 @@ const MOTOR_TYPE_NAMES: Record<number, string> = {
 	126: 'none',
 };
 
+/**
+ * SI unit per sensor type and mode, as listed in the firmware's device type
+ * table. Modes without a unit (raw values, color index, button codes) are omitted.
+ */
+const SENSOR_MODE_UNITS: Record<number, Record<number, string>> = {
+	16: { 1: 'cnt' },
+	29: { 0: 'pct', 1: 'pct', 2: 'col' },
+	30: { 0: 'cm', 1: 'inch', 3: 'cm', 4: 'inch', 5: 'cm', 6: 'inch' },
+	32: { 0: 'deg', 1: 'd/s', 3: 'deg' },
+	33: { 0: 'pct', 1: 'pct', 4: 'pct' },
+};
+
 const SENSOR_PORT_LABELS = ['1', '2', '3', '4'];
 const MOTOR_PORT_LABELS = ['A', 'B', 'C', 'D'];
 
@@ -42,133 +68,358 @@ const BUTTON_NAMES = ['up', 'enter', 'down', 'right', 'left', 'back'];
 
 // ── Public interface ────────────────────────────────────────────────
 
+/** Stable name of a well-known EV3 sensor type, or `undefined` for NXT and third-party devices. */
+export function sensorTypeName(typeCode: number): string | undefined {
+	return SENSOR_TYPE_NAMES[typeCode];
+}
+
 /**
  * Parses an EV3 reply packet into a typed BrickResponse.
  *
  * @param command - The original BrickCommand (to know what to parse)
  * @param reply - The decoded EV3 reply packet
  * @returns Typed BrickResponse matching the command kind
- * @throws Error if the reply indicates an error or is malformed
+ * @throws CommandRejectedError if the brick reported an error
+ * @throws ProtocolError if the reply is malformed
  */
 export function parseResponse(command: BrickCommand, reply: Ev3Packet): BrickResponse {
 	validateReply(reply, command.kind);
+	return withReplyContext(command.kind, reply, () => buildCommand(command), () => parseReplyPayload(command, reply));
+}
+
+/**
+ * Splits the reply to a `buildBatchCommand` packet into one typed
+ * BrickResponse per command, in command order.
+ *
+ * @throws CommandRejectedError if the brick rejected the batch — it runs as one command, so all of it
+ * @throws ProtocolError if the reply is malformed
+ */
+export function parseBatchResponse(commands: readonly BatchableCommand[], reply: Ev3Packet): BrickResponse[] {
+	const label = `batch(${commands.map((command) => command.kind).join(', ')})`;
+	validateReply(reply, label);
+	return withReplyContext(label, reply, () => buildBatchCommand(commands), () => {
+		// Rebuilding the reads on one builder puts each command's variables where the batch had them.
+		const cmd = new DirectCommandBuilder();
+		return commands.map((command) => parseRead(command, reply.payload, cmd));
+	});
+}
 
+/**
+ * Runs `parse`, naming the command, the reply and the disassembled request in
+ * protocol errors that do not yet say which reply failed. `request` rebuilds the
+ * packet the reply answers; it only runs on failure.
+ */
+function withReplyContext<T>(commandKind: string, reply: Ev3Packet, request: () => EncodedCommand, parse: () => T): T {
+	try {
+		return parse();
+	} catch (error) {
+		if (error instanceof ProtocolError && error.commandKind === undefined) {
+			throw new ProtocolError(
+				`Malformed reply to '${commandKind}': ${error.message}`,
+				{ commandKind, packetExcerpt: packetExcerpt(reply), request: disassembleRequest(request, reply.messageCounter) },
+				error,
+			);
+		}
+		throw error;
+	}
+}
+
+/** Disassembly of the rebuilt request, or `undefined` if it cannot be rebuilt. */
+function disassembleRequest(request: () => EncodedCommand, messageCounter: number): string | undefined {
+	try {
+		return disassemble({ messageCounter, ...request() });
+	} catch {
+		return undefined;
+	}
+}
+
+function parseReplyPayload(command: BrickCommand, reply: Ev3Packet): BrickResponse {
+	if (isBatchable(command)) {
+		return parseRead(command, reply.payload);
+	}
 	switch (command.kind) {
-	case 'battery':
-		return parseBattery(reply.payload);
-	case 'ports':
-		return parsePorts(reply.payload);
-	case 'buttons':
-		return parseButtons(reply.payload);
-	case 'info':
-		return parseInfo(reply.payload);
 	case 'fs:list':
 		return parseFsList(reply.payload);
 	case 'fs:read':
 		return parseFsRead(reply.payload);
 	case 'fs:write':
 		return parseFsWrite(reply.payload);
+	case 'fs:readBinary':
+		return parseFsReadBinary(reply.payload);
+	case 'fs:writeBinary':
+		return parseFsWriteBinary(reply.payload);
 	case 'fs:exists':
 		return parseFsExists(reply.payload);
 	case 'fs:delete':
 		return parseFsDelete(reply.payload);
+	case 'fs:mkdir':
+		return parseFsMkdir(reply.payload);
+	case 'fs:rmdir':
+		return parseFsRmdir(reply.payload);
+	case 'system:setName':
+	case 'sensor:setMode':
+	case 'mailbox:write':
+	case 'sound:tone':
+	case 'sound:play':
+	case 'sound:stop':
+	case 'led:set':
+	case 'program:run':
+	case 'program:stop':
+		return { kind: command.kind };
+	case 'motor:run':
+	case 'motor:stop':
+	case 'motor:resetTacho':
+	case 'motor:runForDegrees':
+	case 'motor:runForTime':
+		// Motor commands allocate no global variables — a successful reply carries no data.
+		return { kind: command.kind };
 	}
 }
 
+// ── Battery ─────────────────────────────────────────────────────────
+
+/**
+ * Approximate discharge curve of each pack type as `[voltage (V), charge (%)]`
+ * points, by ascending voltage. The ends are the firmware's battery indicator
+ * thresholds. Alkaline cells sag steadily and fall off at the end; the
+ * rechargeable pack holds its voltage until almost empty.
+ */
+export const BATTERY_DISCHARGE_CURVE: Readonly<Record<BatteryChemistry, readonly (readonly [number, number])[]>> = {
+	alkaline: [[6.2, 0], [6.5, 10], [6.8, 30], [7.0, 50], [7.2, 75], [7.5, 100]],
+	rechargeable: [[7.1, 0], [7.2, 15], [7.3, 45], [7.4, 80], [7.5, 100]],
+};
+
+/**
+ * Estimated charge level in percent (0–100) for a measured battery voltage,
+ * interpolated along the pack's discharge curve. Voltage sags under load, so
+ * the estimate reads low while motors run.
+ */
+export function batteryLevel(voltage: number, chemistry: BatteryChemistry): number {
+	const curve = BATTERY_DISCHARGE_CURVE[chemistry];
+	const upper = curve.findIndex(([v]) => v >= voltage);
+	if (upper === 0) { return curve[0][1]; }
+	if (upper === -1) { return curve[curve.length - 1][1]; }
+	const [v0, level0] = curve[upper - 1];
+	const [v1, level1] = curve[upper];
+	return Math.round(level0 + (voltage - v0) / (v1 - v0) * (level1 - level0));
+}
+
 // ── Direct command parsers ──────────────────────────────────────────
+//
+// Each parser decodes the reply with the decoder of the command that was sent,
+// so the reply layout is defined once, where the command allocates it. Given
+// the builder of a batch, a parser reads its command's share of the batch reply.
 
-function parseBattery(payload: Uint8Array): BatteryResponse {
-	if (payload.length < 4) {
-		return { kind: 'battery', level: 0 };
+/** Parses the reply to a read-only command, sent alone or as part of a batch on `cmd`. */
+function parseRead(command: BatchableCommand, payload: Uint8Array, cmd?: DirectCommandBuilder): BrickResponse {
+	switch (command.kind) {
+	case 'battery':
+		return parseBattery(payload, command.chemistry ?? 'alkaline', cmd);
+	case 'ports':
+		return parsePorts(command, payload, cmd);
+	case 'buttons':
+		return parseButtons(payload, cmd);
+	case 'info':
+		return parseInfo(payload, cmd);
+	case 'system:storage':
+		return parseStorage(payload, cmd);
+	case 'sensor:info':
+		return parseSensorInfo(command, payload, cmd);
+	case 'chain:list':
+		return parseChainList(payload, cmd);
+	case 'program:status':
+		return parseProgramStatus(payload, cmd);
 	}
-	const current = readFloat32le(payload, 0);
-	// Convert battery current to approximate percentage (EV3 range ~0.0 to ~0.5A)
-	const level = Math.round(Math.min(100, Math.max(0, current * 200)));
-	return { kind: 'battery', level, voltage: current };
 }
 
-function parsePorts(payload: Uint8Array): PortsResponse {
-	const sensorPorts: PortState[] = [];
-	const motorPorts: PortState[] = [];
+type PortsCommand = Extract<BrickCommand, { kind: 'ports' }>;
+type SensorInfoCommand = Extract<BrickCommand, { kind: 'sensor:info' }>;
+
+function parseBattery(payload: Uint8Array, chemistry: BatteryChemistry, cmd?: DirectCommandBuilder): BatteryResponse {
+	const { voltage, current } = buildBatteryCommand(cmd).decode(payload);
+	return { kind: 'battery', level: batteryLevel(voltage, chemistry), voltage, current };
+}
 
-	// Sensor type/mode: bytes 0..7 (2 per port)
-	for (let i = 0; i < 4; i++) {
-		const typeCode = payload.length > i * 2 ? payload[i * 2] : 126;
-		const sensorValue = payload.length >= 16 + (i + 1) * 4
-			? readFloat32le(payload, 16 + i * 4)
+function parsePorts(command: PortsCommand, payload: Uint8Array, cmd?: DirectCommandBuilder): PortsResponse {
+	const { sensorModes = {}, layer = 0, format } = command;
+	const { sensors, motors } = buildPortsCommand(sensorModes, layer, format, cmd).decode(payload);
+
+	const sensorPorts = sensors.map((sensor, i): PortState => {
+		const connected = sensor.type !== 126;
+		const unit = connected && format !== 'raw' ? SENSOR_MODE_UNITS[sensor.type]?.[sensor.mode] : undefined;
+		// As many datasets as the format reports: at least one, at most MAX_DATASETS. They share the mode's unit.
+		const datasets = connected
+			? sensor.datasets.slice(0, Math.max(sensor.datasetCount, 1)).map((value): PortDataset => ({ value, unit }))
 			: undefined;
-		sensorPorts.push({
+		return {
 			port: SENSOR_PORT_LABELS[i],
-			peripheralType: SENSOR_TYPE_NAMES[typeCode] ?? (typeCode === 126 ? undefined : `sensor-${typeCode}`),
-			value: typeCode !== 126 ? sensorValue : undefined,
+			peripheralType: SENSOR_TYPE_NAMES[sensor.type] ?? (connected ? `sensor-${sensor.type}` : undefined),
+			value: datasets?.[0]?.value,
+			unit,
+			datasets,
+			deviceType: connected ? sensor.type : undefined,
+			mode: connected ? sensor.mode : undefined,
 			timestamp: Date.now(),
-		});
-	}
+		};
+	});
 
-	// Motor type/mode: bytes 8..15 (2 per port)
-	for (let i = 0; i < 4; i++) {
-		const typeCode = payload.length > 8 + i * 2 ? payload[8 + i * 2] : 126;
-		const tachoValue = payload.length >= 32 + (i + 1) * 4
-			? readInt32le(payload, 32 + i * 4)
-			: undefined;
-		motorPorts.push({
+	const motorPorts = motors.map((motor, i): PortState => {
+		const connected = motor.type !== 126;
+		return {
 			port: MOTOR_PORT_LABELS[i],
-			peripheralType: MOTOR_TYPE_NAMES[typeCode] ?? (typeCode === 126 ? undefined : `motor-${typeCode}`),
-			value: typeCode !== 126 ? tachoValue : undefined,
-			unit: typeCode !== 126 ? 'deg' : undefined,
+			peripheralType: MOTOR_TYPE_NAMES[motor.type] ?? (connected ? `motor-${motor.type}` : undefined),
+			value: connected ? motor.tacho : undefined,
+			unit: connected ? 'deg' : undefined,
+			speed: connected ? motor.speed : undefined,
+			busy: connected ? motor.busy !== 0 : undefined,
 			timestamp: Date.now(),
-		});
-	}
+		};
+	});
 
 	return { kind: 'ports', motorPorts, sensorPorts };
 }
 
-function parseButtons(payload: Uint8Array): ButtonsResponse {
+/**
+ * A slave layer counts as present when any of its ports reports a device.
+ * Type codes from 125 up mean unknown, none or error.
+ */
+function parseChainList(payload: Uint8Array, cmd?: DirectCommandBuilder): ChainListResponse {
+	const { layers } = buildChainListCommand(cmd).decode(payload);
+	const present: BrickLayer[] = [];
+	layers.forEach(({ inputs, outputs }, layer) => {
+		if (layer > 0 && [...inputs, ...outputs].some((type) => type < 125)) {
+			present.push(layer as BrickLayer);
+		}
+	});
+	return { kind: 'chain:list', layers: present };
+}
+
+function parseButtons(payload: Uint8Array, cmd?: DirectCommandBuilder): ButtonsResponse {
+	const { pressed } = buildButtonsCommand(cmd).decode(payload);
 	const state: Record<string, boolean> = {};
-	for (let i = 0; i < BUTTON_NAMES.length; i++) {
-		state[BUTTON_NAMES[i]] = payload.length > i ? payload[i] !== 0 : false;
-	}
+	BUTTON_NAMES.forEach((name, i) => { state[name] = pressed[i] !== 0; });
 	return { kind: 'buttons', state };
 }
 
-function parseInfo(payload: Uint8Array): InfoResponse {
-	const osVersion = readFixedCString(payload, INFO_LAYOUT.OFF_OS_VERS, INFO_LAYOUT.LEN_OS_VERS);
-	const fwVersion = readFixedCString(payload, INFO_LAYOUT.OFF_FW_VERS, INFO_LAYOUT.LEN_FW_VERS);
-	// Use OS version as displayName if available
+function parseInfo(payload: Uint8Array, cmd?: DirectCommandBuilder): InfoResponse {
+	const info = buildInfoCommand(cmd).decode(payload);
+	const btId = info.btId.toUpperCase();
+	// The brick reports its Bluetooth address as bare hex digits; anything else means BT is unavailable.
+	const validId = /^[0-9A-F]{12}$/.test(btId) ? btId : undefined;
 	return {
 		kind: 'info',
-		displayName: osVersion || 'EV3',
-		firmwareVersion: fwVersion || undefined,
+		displayName: info.brickName || 'EV3',
+		firmwareVersion: info.firmwareVersion || undefined,
+		firmwareBuild: info.firmwareBuild || undefined,
+		osVersion: info.osVersion || undefined,
+		osBuild: info.osBuild || undefined,
+		hardwareVersion: info.hardwareVersion || undefined,
+		serialNumber: validId,
+		btAddress: validId?.match(/../g)?.join(':'),
+	};
+}
+
+function parseStorage(payload: Uint8Array, cmd?: DirectCommandBuilder): SystemStorageResponse {
+	const storage = buildStorageCommand(cmd).decode(payload);
+	// The firmware counts in KB.
+	const bytes = (kb: number) => Math.max(0, kb) * 1024;
+	return {
+		kind: 'system:storage',
+		storage: {
+			internal: { total: bytes(storage.internalTotal), free: bytes(storage.internalFree) },
+			sdCard: storage.sdCardPresent !== 0
+				? { total: bytes(storage.sdCardTotal), free: bytes(storage.sdCardFree) }
+				: undefined,
+		},
+	};
+}
+
+function parseSensorInfo(command: SensorInfoCommand, payload: Uint8Array, cmd?: DirectCommandBuilder): SensorInfoResponse {
+	const info = buildSensorInfoCommand(command.port, command.layer ?? 0, cmd).decode(payload);
+	return {
+		kind: 'sensor:info',
+		metadata: {
+			type: info.type,
+			mode: info.mode,
+			name: info.name,
+			symbol: info.symbol,
+			min: info.min,
+			max: info.max,
+			modes: info.modeNames.slice(0, info.modeCount),
+		},
 	};
 }
 
+function parseProgramStatus(payload: Uint8Array, cmd?: DirectCommandBuilder): ProgramStatusResponse {
+	const { status } = buildProgramStatusCommand(cmd).decode(payload);
+	return { kind: 'program:status', status: status === PROGRAM_STATUS.RUNNING ? 'running' : 'stopped' };
+}
+
 // ── System command parsers ──────────────────────────────────────────
 
 function parseFsList(payload: Uint8Array): FsListResponse {
-	if (payload.length < 1) {
-		return { kind: 'fs:list', entries: [] };
-	}
-	// System reply payload: [status:1][handle:1][listing...]
-	const listing = Buffer.from(payload.subarray(4)).toString('utf8');
-	const entries = listing.split('\n').filter(e => e.length > 0);
-	return { kind: 'fs:list', entries };
+	// LIST_FILES shares the BEGIN_UPLOAD reply layout; paging happens in the transfer driver.
+	return { kind: 'fs:list', entries: parseFileListing(firstFileChunk(payload)) };
 }
 
 function parseFsRead(payload: Uint8Array): FsReadResponse {
-	if (payload.length < 1) {
-		return { kind: 'fs:read', content: '' };
+	return { kind: 'fs:read', content: Buffer.from(firstFileChunk(payload)).toString('utf8') };
+}
+
+function parseFsReadBinary(payload: Uint8Array): FsReadBinaryResponse {
+	return { kind: 'fs:readBinary', content: Uint8Array.from(firstFileChunk(payload)) };
+}
+
+/** Matches a file line of a LIST_FILES listing: `<md5:32 hex> <size:8 hex> <name>`. */
+const LISTING_FILE_LINE = /^([0-9A-Fa-f]{32}) ([0-9A-Fa-f]{8}) (.+)$/;
+
+/**
+ * Parses LIST_FILES listing text into entries.
+ *
+ * Folders appear as `name/`, files as `<md5> <size> <name>`. The `.` and `..`
+ * folder entries are dropped; unrecognised lines are skipped.
+ */
+export function parseFileListing(listing: Uint8Array): FsListEntry[] {
+	const entries: FsListEntry[] = [];
+	for (const line of Buffer.from(listing).toString('utf8').split('\n')) {
+		if (line.endsWith('/')) {
+			const name = line.slice(0, -1);
+			if (name !== '.' && name !== '..' && name.length > 0) {
+				entries.push({ name, kind: 'folder' });
+			}
+			continue;
+		}
+		const match = LISTING_FILE_LINE.exec(line);
+		if (match) {
+			entries.push({ name: match[3], kind: 'file', size: parseInt(match[2], 16), md5: match[1].toUpperCase() });
+		}
 	}
-	// System reply: [status:1][fileSize:4][handle:1][data...]
-	const content = Buffer.from(payload.subarray(6)).toString('utf8');
-	return { kind: 'fs:read', content };
+	return entries;
+}
+
+/**
+ * File bytes carried by a BEGIN_UPLOAD reply: [command:1][status:1][fileSize:4][handle:1][data...]
+ * Only the first chunk fits one reply — multi-packet reads go through the transfer driver.
+ */
+function firstFileChunk(payload: Uint8Array): Uint8Array {
+	if (payload.length < 7) {
+		return new Uint8Array();
+	}
+	const fileSize = readUint32le(payload, 2);
+	return payload.subarray(7, 7 + fileSize);
 }
 
 function parseFsWrite(_payload: Uint8Array): FsWriteResponse {
 	return { kind: 'fs:write' };
 }
 
+function parseFsWriteBinary(_payload: Uint8Array): FsWriteBinaryResponse {
+	return { kind: 'fs:writeBinary' };
+}
+
 function parseFsExists(_payload: Uint8Array): FsExistsResponse {
-	// If LIST_FILES succeeded (no error thrown), path exists
+	// If LIST_FILES succeeded (no error thrown), path exists; a refusal is mapped to
+	// `exists: false` by the transport layer.
 	return { kind: 'fs:exists', exists: true };
 }
 
@@ -176,16 +427,132 @@ function parseFsDelete(_payload: Uint8Array): FsDeleteResponse {
 	return { kind: 'fs:delete', deleted: true };
 }
 
+function parseFsMkdir(_payload: Uint8Array): FsMkdirResponse {
+	// FILE_EXISTS arrives as SYSTEM_REPLY_ERROR and is rejected by validateReply;
+	// the transport layer maps it to `created: false`.
+	return { kind: 'fs:mkdir', created: true };
+}
+
+function parseFsRmdir(_payload: Uint8Array): FsRmdirResponse {
+	return { kind: 'fs:rmdir', deleted: true };
+}
+
+// ── System replies ──────────────────────────────────────────────────
+
+/** A system command reply split into its header fields and trailing data. */
+export interface SystemReply {
+	/** Echo of the system command byte. */
+	readonly command: number;
+	/** One of {@link EV3_SYSTEM_STATUS}. */
+	readonly status: number;
+	/** Command-specific reply data following the status byte. */
+	readonly data: Uint8Array;
+}
+
+/**
+ * Validates a system command reply and splits `[command:1][status:1][data...]`.
+ *
+ * @param acceptedStatuses - Non-OK statuses that still count as success,
+ *   e.g. END_OF_FILE on the last chunk of a transfer. The firmware may report
+ *   these with either reply type.
+ * @throws ProtocolError if the reply is not a system reply
+ * @throws CommandRejectedError if it carries a failing status
+ */
+export function parseSystemReply(
+	reply: Ev3Packet,
+	commandKind: string,
+	acceptedStatuses: readonly number[] = [],
+): SystemReply {
+	if (reply.type !== EV3_REPLY.SYSTEM_REPLY && reply.type !== EV3_REPLY.SYSTEM_REPLY_ERROR) {
+		throw new ProtocolError(
+			`Unexpected reply type 0x${reply.type.toString(16)} for '${commandKind}'`,
+			{ commandKind, packetExcerpt: packetExcerpt(reply) },
+		);
+	}
+	const status = systemStatusOf(reply);
+	if (status !== EV3_SYSTEM_STATUS.OK && !acceptedStatuses.includes(status)) {
+		throw systemCommandError(reply, commandKind);
+	}
+	return { command: reply.payload[0] ?? 0, status, data: reply.payload.subarray(2) };
+}
+
+// ── Mailbox ─────────────────────────────────────────────────────────
+
+/** Mailbox name and raw payload of an incoming WRITEMAILBOX packet. */
+export interface MailboxPacket {
+	readonly mailbox: string;
+	readonly data: Uint8Array;
+}
+
+/**
+ * Decodes a WRITEMAILBOX system command sent by the brick.
+ *
+ * @returns `undefined` for any other packet, or if the layout is truncated
+ */
+export function parseMailboxPacket(packet: Ev3Packet): MailboxPacket | undefined {
+	const p = packet.payload;
+	if (!isMailboxWrite(packet.type, p[0]) || p.length < 2) {
+		return undefined;
+	}
+	// [WRITEMAILBOX:1][name length:1][name\0][payload length:2][payload]
+	const nameLength = p[1];
+	const dataOffset = 2 + nameLength + 2;
+	if (nameLength === 0 || p.length < dataOffset) {
+		return undefined;
+	}
+	const dataLength = readUint16le(p, 2 + nameLength);
+	if (p.length < dataOffset + dataLength) {
+		return undefined;
+	}
+	return {
+		mailbox: readFixedCString(p, 2, nameLength),
+		data: p.slice(dataOffset, dataOffset + dataLength),
+	};
+}
+
+/** Reads a mailbox payload as the given message type. */
+export function decodeMailboxValue(data: Uint8Array, type: MailboxValue['type']): MailboxValue {
+	switch (type) {
+	case 'text': {
+		// Not readFixedCString — that trims, and whitespace is part of the message.
+		const end = data.indexOf(0);
+		return { type, value: Buffer.from(end >= 0 ? data.subarray(0, end) : data).toString('utf8') };
+	}
+	case 'numeric':
+		return { type, value: readFloat32le(data, 0) };
+	case 'logic':
+		return { type, value: (data[0] ?? 0) !== 0 };
+	}
+}
+
 // ── Validation ──────────────────────────────────────────────────────
 
 function validateReply(reply: Ev3Packet, commandKind: string): void {
 	if (reply.type === EV3_REPLY.DIRECT_REPLY_ERROR) {
-		throw new Error(`EV3 direct command error for '${commandKind}'`);
+		throw new CommandRejectedError(
+			`EV3 direct command error for '${commandKind}'`,
+			{ commandKind, packetExcerpt: packetExcerpt(reply) },
+		);
 	}
 	if (reply.type === EV3_REPLY.SYSTEM_REPLY_ERROR) {
-		const status = reply.payload.length > 0 ? reply.payload[0] : 0xff;
-		const statusName = Object.entries(EV3_SYSTEM_STATUS)
-			.find(([, v]) => v === status)?.[0] ?? `0x${status.toString(16)}`;
-		throw new Error(`EV3 system command error for '${commandKind}': ${statusName}`);
+		throw systemCommandError(reply, commandKind);
 	}
 }
+
+function systemCommandError(reply: Ev3Packet, commandKind: string): CommandRejectedError {
+	const status = systemStatusOf(reply);
+	return new CommandRejectedError(
+		`EV3 system command error for '${commandKind}': ${systemStatusName(status)}`,
+		{ commandKind, status, packetExcerpt: packetExcerpt(reply) },
+	);
+}
+
+/** Status byte of a system reply (`[command:1][status:1]...`), or 0xff if missing. */
+function systemStatusOf(reply: Ev3Packet): number {
+	return reply.payload.length > 1 ? reply.payload[1] : 0xff;
+}
+
+function systemStatusName(status: number): string {
+	return Object.entries(EV3_SYSTEM_STATUS)
+		.find(([, v]) => v === status)?.[0] ?? `0x${status.toString(16)}`;
+}
@@ -1,14 +1,34 @@
-export { uint16le, uint32le, readUint16le, readUint32le, readInt32le, readFloat32le } from './ev3Bytecode';
-export { concatBytes, lc0, lc1, lc2, lcs, cString, gv0, gv1, readFixedCString } from './ev3Bytecode';
+export { uint16le, uint32le, float32le, readUint16le, readUint32le, readInt32le, readFloat32le } from './ev3Bytecode';
+export { concatBytes, hexExcerpt, lc0, lc1, lc2, lc4, lc, lcs, cString, gv0, gv1, gv2, gv, lv0, lv1, lv2, lv, readFixedCString } from './ev3Bytecode';
+
+export type { DirectCommand, Operand, ReplyLayout, DecodedReply, ScalarType } from './directCommand';
+export { DirectCommandBuilder, GlobalVariable, LocalVariable, MAX_GLOBAL_BYTES, MAX_LOCAL_BYTES } from './directCommand';
 
 export type { Ev3Packet } from './ev3Packet';
 export {
 	EV3_COMMAND, EV3_REPLY, EV3_SYSTEM, EV3_OPCODE,
-	UI_READ_SUB, INPUT_DEVICE_SUB, EV3_SYSTEM_STATUS,
-	encodeEv3Packet, decodeEv3Packet, extractLengthPrefixedPacket,
+	UI_READ_SUB, INPUT_DEVICE_SUB, FILE_SUB, PROGRAM_INFO_SUB, PROGRAM_STATUS, EV3_SYSTEM_STATUS,
+	COM_GET_SUB, COM_SET_SUB, COM_HARDWARE,
+	encodeEv3Packet, decodeEv3Packet, extractLengthPrefixedPacket, packetExcerpt, isMailboxWrite,
 } from './ev3Packet';
 
-export type { EncodedCommand } from './ev3Commands';
-export { buildCommand, INFO_LAYOUT } from './ev3Commands';
+export { disassemble } from './ev3Disassembler';
+
+export type {
+	EncodedCommand, BatchableCommand, NoReplyCommand,
+	BatteryReply, PortsReply, ChainListReply, SensorInfoReply, ButtonsReply, InfoReply, StorageReply, ProgramStatusReply,
+} from './ev3Commands';
+export {
+	buildCommand, INFO_LAYOUT, FILE_CHUNK_SIZE, SD_CARD_ROOT,
+	buildBeginDownload, buildContinueDownload, buildBeginUpload, buildContinueUpload,
+	buildListFiles, buildContinueListFiles, buildCloseFileHandle, buildCreateDir, buildDeleteFile,
+	buildWriteMailbox, encodeMailboxValue, assertValidBrickName, BRICK_NAME_MAX_LENGTH,
+	assertSensorMode, SENSOR_MODE_MAX, isBatchable, buildBatchCommand, planBatches,
+	isNoReplyCommand, buildNoReplyCommand,
+} from './ev3Commands';
 
-export { parseResponse } from './ev3Responses';
+export type { SystemReply, MailboxPacket } from './ev3Responses';
+export {
+	parseResponse, parseBatchResponse, parseSystemReply, parseFileListing, parseMailboxPacket, decodeMailboxValue,
+	batteryLevel, BATTERY_DISCHARGE_CURVE, sensorTypeName,
+} from './ev3Responses';
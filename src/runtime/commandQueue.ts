@@ -3,19 +3,29 @@
  *
  * Serializes commands to a single brick to ensure firmware safety.
  * Tracks queue depth for telemetry throttling in Phase 3.
+ * Commands waiting next to each other go out as one batch when a batch
+ * executor is set and accepts them.
  */
 
-import { BrickCommand, BrickResponse } from '../contracts/transport';
+import { BrickCommand, BrickResponse, SendCommandOptions } from '../contracts/transport';
+import { CommandRejectedError } from '../errors/CockpitError';
 
 /** A queued command with its resolve/reject callbacks. */
 interface QueuedCommand {
 	command: BrickCommand;
+	options?: SendCommandOptions;
 	resolve: (response: BrickResponse) => void;
 	reject: (error: unknown) => void;
 }
 
 /** Function that executes a command against a connected brick. */
-export type CommandExecutor = (command: BrickCommand) => Promise<BrickResponse>;
+export type CommandExecutor = (command: BrickCommand, options?: SendCommandOptions) => Promise<BrickResponse>;
+
+/** Function that executes several read-only commands together, answering in command order. */
+export type BatchExecutor = (commands: readonly BrickCommand[]) => Promise<BrickResponse[]>;
+
+/** Whether the batch executor can take `command` together with others. */
+export type BatchPredicate = (command: BrickCommand) => boolean;
 
 /**
  * FIFO command queue for a single brick.
@@ -24,6 +34,8 @@ export class CommandQueue {
 	private readonly queue: QueuedCommand[] = [];
 	private processing = false;
 	private executor?: CommandExecutor;
+	private batchExecutor?: BatchExecutor;
+	private canBatch: BatchPredicate = () => false;
 	private _disposed = false;
 
 	/** Current number of pending commands. */
@@ -41,8 +53,23 @@ export class CommandQueue {
 		this.executor = executor;
 	}
 
-	/** Enqueue a command. Returns a promise that resolves with the response. */
-	send(command: BrickCommand): Promise<BrickResponse> {
+	/**
+	 * Set the executor for batched reads, or clear it. While one is set, the
+	 * commands `canBatch` accepts that are queued back to back at the head of
+	 * the queue are sent together. A command aborted while its batch is in
+	 * flight is rejected at once and its response dropped; batched reads
+	 * report no progress.
+	 */
+	setBatchExecutor(executor: BatchExecutor | undefined, canBatch: BatchPredicate = () => false): void {
+		this.batchExecutor = executor;
+		this.canBatch = canBatch;
+	}
+
+	/**
+	 * Enqueue a command. Returns a promise that resolves with the response.
+	 * A command whose `options.signal` is aborted while still queued is rejected without being sent.
+	 */
+	send(command: BrickCommand, options?: SendCommandOptions): Promise<BrickResponse> {
 		if (this._disposed) {
 			return Promise.reject(new Error('Command queue has been disposed.'));
 		}
@@ -51,7 +78,7 @@ export class CommandQueue {
 		}
 
 		return new Promise<BrickResponse>((resolve, reject) => {
-			this.queue.push({ command, resolve, reject });
+			this.queue.push({ command, options, resolve, reject });
 			void this.drain();
 		});
 	}
@@ -69,6 +96,7 @@ export class CommandQueue {
 		this._disposed = true;
 		this.drainWith(new Error('Command queue disposed.'));
 		this.executor = undefined;
+		this.batchExecutor = undefined;
 	}
 
 	// ── Internal ────────────────────────────────────────────────────
@@ -81,16 +109,85 @@ export class CommandQueue {
 
 		try {
 			while (this.queue.length > 0 && !this._disposed) {
-				const entry = this.queue.shift()!;
-				try {
-					const response = await this.executor!(entry.command);
-					entry.resolve(response);
-				} catch (error) {
-					entry.reject(error);
+				const entries = this.takeNext();
+				if (entries.length > 1) {
+					await this.dispatchBatch(entries);
+				} else if (entries.length === 1) {
+					await this.dispatch(entries[0]);
 				}
 			}
 		} finally {
 			this.processing = false;
 		}
 	}
+
+	/**
+	 * Takes the next command off the queue — together with the read-only
+	 * commands right behind it, if it is one and batching is on. Commands
+	 * aborted while queued are rejected on the way.
+	 */
+	private takeNext(): QueuedCommand[] {
+		const entries: QueuedCommand[] = [];
+		while (this.queue.length > 0) {
+			const batchable = this.batchExecutor !== undefined && this.canBatch(this.queue[0].command);
+			if (entries.length > 0 && !batchable) {
+				break;
+			}
+			const entry = this.queue.shift()!;
+			if (entry.options?.signal?.aborted) {
+				entry.reject(new Error(`Command '${entry.command.kind}' aborted before dispatch.`));
+				continue;
+			}
+			entries.push(entry);
+			if (!batchable) {
+				break;
+			}
+		}
+		return entries;
+	}
+
+	private async dispatch(entry: QueuedCommand): Promise<void> {
+		try {
+			const response = await this.executor!(entry.command, entry.options);
+			entry.resolve(response);
+		} catch (error) {
+			entry.reject(error);
+		}
+	}
+
+	private async dispatchBatch(entries: QueuedCommand[]): Promise<void> {
+		const detach = entries.map((entry) => this.rejectOnAbort(entry));
+		let responses: BrickResponse[];
+		try {
+			responses = await this.batchExecutor!(entries.map((entry) => entry.command));
+		} catch (error) {
+			// The brick rejects a batch as a whole; resend one by one so only the offending command fails.
+			if (error instanceof CommandRejectedError) {
+				for (const entry of entries) {
+					if (!entry.options?.signal?.aborted) {
+						await this.dispatch(entry);
+					}
+				}
+				return;
+			}
+			for (const entry of entries) {
+				entry.reject(error);
+			}
+			return;
+		} finally {
+			detach.forEach((off) => off());
+		}
+		entries.forEach((entry, i) => entry.resolve(responses[i]));
+	}
+
+	/** Rejects `entry` as soon as its signal aborts. Returns a function that stops listening. */
+	private rejectOnAbort(entry: QueuedCommand): () => void {
+		const signal = entry.options?.signal;
+		if (!signal) {
+			return () => undefined;
+		}
+		const onAbort = () => entry.reject(new Error(`Command '${entry.command.kind}' aborted.`));
+		signal.addEventListener('abort', onAbort, { once: true });
+		return () => signal.removeEventListener('abort', onAbort);
+	}
 }
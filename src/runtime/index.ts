@@ -4,10 +4,11 @@ export { PresenceAggregator } from './presenceAggregator';
 export type { DiscoveryListChangeEvent } from './presenceAggregator';
 export { SessionEntry } from './sessionEntry';
 export { SessionManager } from './sessionManager';
-export type { SessionManagerOptions, SessionStateChangeEvent, ActiveBrickChangeEvent } from './sessionManager';
+export type { SessionManagerOptions, SessionStateChangeEvent, ActiveBrickChangeEvent, ChainChangeEvent } from './sessionManager';
 export { CommandQueue } from './commandQueue';
-export type { CommandExecutor } from './commandQueue';
+export type { CommandExecutor, BatchExecutor } from './commandQueue';
 export { HeartbeatMonitor } from './heartbeatMonitor';
 export type { HeartbeatMonitorOptions } from './heartbeatMonitor';
 export { ReconnectStrategy } from './reconnectStrategy';
+export { SensorMetadataCache, describePort } from './sensorMetadataCache';
 export type { ReconnectStrategyOptions } from './reconnectStrategy';
@@ -0,0 +1,50 @@
+/**
+ * Sensor metadata cache — firmware descriptions of sensors per device type and mode.
+ *
+ * The firmware's device table is identical on every brick, so one cache serves
+ * all sessions. Concurrent lookups of the same type and mode share one request;
+ * failed lookups are forgotten so the next read retries.
+ */
+
+import { PortState } from '../contracts/models';
+import { SensorMetadata } from '../contracts/transport';
+import { sensorTypeName } from '../protocol/ev3Responses';
+
+export class SensorMetadataCache {
+	private readonly entries = new Map<string, Promise<SensorMetadata>>();
+
+	/** Metadata for `type` in `mode`, fetched with `load` the first time it is needed. */
+	get(type: number, mode: number, load: () => Promise<SensorMetadata>): Promise<SensorMetadata> {
+		const key = `${type}:${mode}`;
+		let entry = this.entries.get(key);
+		if (!entry) {
+			entry = load().then((metadata) => {
+				// The sensor may have been swapped or switched between the port read and this lookup.
+				if (metadata.type !== type || metadata.mode !== mode) {
+					throw new Error(`Sensor changed to type ${metadata.type} mode ${metadata.mode} while being described.`);
+				}
+				return metadata;
+			});
+			this.entries.set(key, entry);
+			entry.catch(() => this.entries.delete(key));
+		}
+		return entry;
+	}
+
+	clear(): void {
+		this.entries.clear();
+	}
+}
+
+/**
+ * Names a sensor port and, with `withUnits`, fills its units from firmware metadata.
+ * Well-known EV3 sensors keep their stable name; a blank symbol keeps the mode's unit.
+ */
+export function describePort(port: PortState, metadata: SensorMetadata, withUnits = true): PortState {
+	const named = { ...port, peripheralType: sensorTypeName(metadata.type) ?? metadata.name.toLowerCase() };
+	if (!withUnits) {
+		return named;
+	}
+	const unit = metadata.symbol || port.unit;
+	return { ...named, unit, datasets: port.datasets?.map((dataset) => ({ ...dataset, unit })) };
+}
@@ -7,16 +7,22 @@
  */
 
 import * as vscode from 'vscode';
-import { ConnectionState, ActivityMode, Transport } from '../contracts/enums';
-import { BrickKey } from '../contracts/brickKey';
-import { ConnectedSession } from '../contracts/models';
-import { BrickCommand, BrickResponse, TransportProvider } from '../contracts/transport';
+import { ConnectionState, ActivityMode, TelemetryCategory, Transport } from '../contracts/enums';
+import { BrickKey, makeChainedBrickKey, parseChainedBrickKey } from '../contracts/brickKey';
+import { ChainedBrick, ConnectedSession, SystemTelemetry } from '../contracts/models';
+import { MailboxEvent, TelemetrySnapshot } from '../contracts/api';
+import {
+	BrickCommand, BrickResponse, SendCommandOptions, TransportProvider, SensorModes, SensorPort,
+} from '../contracts/transport';
+import { CommandRejectedError } from '../errors/CockpitError';
 import { SessionEntry } from './sessionEntry';
 import { CommandQueue } from './commandQueue';
 import { HeartbeatMonitor } from './heartbeatMonitor';
 import { ReconnectStrategy } from './reconnectStrategy';
+import { SensorMetadataCache, describePort } from './sensorMetadataCache';
 import { ProviderRegistry } from '../transports/providerRegistry';
 import { FIRMWARE_SAFETY } from '../transports/transportConstants';
+import { assertSensorMode } from '../protocol/ev3Commands';
 
 // ── Events ──────────────────────────────────────────────────────────
 
@@ -31,6 +37,11 @@ export interface ActiveBrickChangeEvent {
 	readonly newBrickKey: BrickKey | undefined;
 }
 
+export interface ChainChangeEvent {
+	readonly masterKey: BrickKey;
+	readonly chainedBricks: ChainedBrick[];
+}
+
 // ── Options ─────────────────────────────────────────────────────────
 
 export interface SessionManagerOptions {
@@ -40,6 +51,25 @@ export interface SessionManagerOptions {
 	reconnectBaseMs?: number;
 	reconnectMaxMs?: number;
 	reconnectMaxAttempts?: number;
+	/** Storage for per-brick preferences (e.g. `ExtensionContext.globalState`). */
+	storage?: vscode.Memento;
+}
+
+/** Storage key of the persisted sensor mode preferences, keyed by brick. */
+const SENSOR_MODES_KEY = 'ev3-cockpit.sensorModes';
+
+/** Commands that take a daisy-chain layer and can therefore address a slave brick. */
+const LAYERED_KINDS = [
+	'ports', 'sensor:setMode', 'sensor:info',
+	'motor:run', 'motor:stop', 'motor:resetTacho', 'motor:runForDegrees', 'motor:runForTime',
+] as const;
+
+type LayeredCommand = Extract<BrickCommand, { kind: typeof LAYERED_KINDS[number] }>;
+
+const LAYERED_COMMANDS: ReadonlySet<BrickCommand['kind']> = new Set<BrickCommand['kind']>(LAYERED_KINDS);
+
+function isLayeredCommand(command: BrickCommand): command is LayeredCommand {
+	return LAYERED_COMMANDS.has(command.kind);
 }
 
 // ── Per-session resources ───────────────────────────────────────────
@@ -50,6 +80,9 @@ interface SessionResources {
 	heartbeat: HeartbeatMonitor;
 	reconnect: ReconnectStrategy;
 	reconnectTimer?: NodeJS.Timeout;
+	mailboxSubscription?: vscode.Disposable;
+	/** Slave bricks found behind this master, keyed by their chained brick key. */
+	chain: Map<BrickKey, ChainedBrick>;
 }
 
 /**
@@ -59,6 +92,10 @@ export class SessionManager implements vscode.Disposable {
 	private readonly providerRegistry: ProviderRegistry;
 	private readonly sessions = new Map<BrickKey, SessionResources>();
 	private readonly suppressedBricks = new Set<BrickKey>();
+	private readonly storage?: vscode.Memento;
+	/** Preferred sensor mode per port, kept across sessions. */
+	private readonly sensorModes: Map<BrickKey, SensorModes>;
+	private readonly sensorMetadata = new SensorMetadataCache();
 
 	private activeBrickKey?: BrickKey;
 
@@ -68,6 +105,14 @@ export class SessionManager implements vscode.Disposable {
 	private readonly _onActiveBrickChange = new vscode.EventEmitter<ActiveBrickChangeEvent>();
 	readonly onActiveBrickChange = this._onActiveBrickChange.event;
 
+	private readonly _onMailboxMessage = new vscode.EventEmitter<MailboxEvent>();
+	/** Mailbox messages sent by programs on any connected brick. */
+	readonly onMailboxMessage = this._onMailboxMessage.event;
+
+	private readonly _onChainChange = new vscode.EventEmitter<ChainChangeEvent>();
+	/** Daisy-chained slaves of a master were detected or changed. */
+	readonly onChainChange = this._onChainChange.event;
+
 	private readonly heartbeatIntervalMs: number;
 	private readonly heartbeatMissThreshold: number;
 	private readonly reconnectBaseMs: number;
@@ -81,11 +126,17 @@ export class SessionManager implements vscode.Disposable {
 		this.reconnectBaseMs = options.reconnectBaseMs ?? FIRMWARE_SAFETY.RECONNECT_BASE_MS;
 		this.reconnectMaxMs = options.reconnectMaxMs ?? FIRMWARE_SAFETY.RECONNECT_MAX_MS;
 		this.reconnectMaxAttempts = options.reconnectMaxAttempts ?? FIRMWARE_SAFETY.MAX_RECONNECT_ATTEMPTS;
+		this.storage = options.storage;
+		const stored = this.storage?.get<Record<string, SensorModes>>(SENSOR_MODES_KEY) ?? {};
+		this.sensorModes = new Map(Object.entries(stored) as [BrickKey, SensorModes][]);
 	}
 
 	// ── Connect / Disconnect ────────────────────────────────────────
 
-	/** Connect to a brick via the specified transport. */
+	/**
+	 * Connect to a brick via the specified transport. Daisy-chained slaves are
+	 * detected after the session is up; {@link onChainChange} reports them.
+	 */
 	async connect(brickKey: BrickKey, transport: Transport, displayName?: string): Promise<void> {
 		if (this.sessions.has(brickKey)) {
 			throw new Error(`Brick ${brickKey} is already connected.`);
@@ -108,7 +159,7 @@ export class SessionManager implements vscode.Disposable {
 			maxAttempts: this.reconnectMaxAttempts,
 		});
 
-		const resources: SessionResources = { entry, commandQueue, heartbeat, reconnect };
+		const resources: SessionResources = { entry, commandQueue, heartbeat, reconnect, chain: new Map() };
 		this.sessions.set(brickKey, resources);
 
 		try {
@@ -118,6 +169,11 @@ export class SessionManager implements vscode.Disposable {
 			this.fireStateChange(brickKey, ConnectionState.Connecting, ConnectionState.Connected);
 
 			this.wireExecutor(resources, provider);
+			resources.mailboxSubscription = provider.onMailboxMessage?.((event) => {
+				if (event.brickKey === brickKey) {
+					this._onMailboxMessage.fire(event);
+				}
+			});
 			heartbeat.start();
 			reconnect.reset();
 		} catch (error) {
@@ -127,6 +183,8 @@ export class SessionManager implements vscode.Disposable {
 			this.fireStateChange(brickKey, ConnectionState.Connecting, ConnectionState.Disconnected);
 			throw error;
 		}
+
+		void this.detectChainQuietly(brickKey);
 	}
 
 	/** Disconnect a brick. Explicit disconnect suppresses auto-reconnect. */
@@ -215,13 +273,135 @@ export class SessionManager implements vscode.Disposable {
 
 	// ── Command dispatch ────────────────────────────────────────────
 
-	/** Send a command to a connected brick (via its command queue). */
-	send(brickKey: BrickKey, command: BrickCommand): Promise<BrickResponse> {
+	/**
+	 * Send a command to a connected brick (via its command queue).
+	 * A `ports` read without explicit modes uses the brick's preferred sensor modes,
+	 * and its sensor ports are completed with firmware metadata (name, unit).
+	 *
+	 * A daisy-chained brick key routes the command through its master's queue
+	 * on the slave's layer; only port, sensor and motor commands can do that.
+	 */
+	send(brickKey: BrickKey, command: BrickCommand, options?: SendCommandOptions): Promise<BrickResponse> {
+		const chained = parseChainedBrickKey(brickKey);
+		const resources = this.sessions.get(chained?.masterKey ?? brickKey);
+		if (!resources || (chained && !resources.chain.has(brickKey))) {
+			return Promise.reject(new Error(`Brick ${brickKey} is not connected.`));
+		}
+		if (chained) {
+			if (!isLayeredCommand(command)) {
+				return Promise.reject(new Error(`Command '${command.kind}' cannot be sent to daisy-chained brick ${brickKey}.`));
+			}
+			command = { ...command, layer: chained.layer };
+		}
+		const preferred = this.sensorModes.get(brickKey);
+		if (command.kind === 'ports' && !command.sensorModes && preferred) {
+			command = { ...command, sensorModes: preferred };
+		}
+		const response = resources.commandQueue.send(command, options);
+		if (command.kind !== 'ports') {
+			return response;
+		}
+		const read = command;
+		return response.then((r) => this.describeSensors(resources.commandQueue, read, r)).then((r) => {
+			const brick = resources.chain.get(brickKey);
+			if (brick && r.kind === 'ports') {
+				brick.motorPorts = r.motorPorts;
+				brick.sensorPorts = r.sensorPorts;
+			}
+			return r;
+		});
+	}
+
+	// ── Sensor modes ────────────────────────────────────────────────
+
+	/**
+	 * Switch the sensor on `port` to `mode` and remember it as the port's preference.
+	 * On a disconnected brick only the preference is stored; it applies on the next read.
+	 */
+	async setSensorMode(brickKey: BrickKey, port: SensorPort, mode: number): Promise<void> {
+		assertSensorMode(mode);
+		if (this.isReachable(brickKey)) {
+			await this.send(brickKey, { kind: 'sensor:setMode', port, mode });
+		}
+		this.sensorModes.set(brickKey, { ...this.sensorModes.get(brickKey), [port]: mode });
+		await this.storage?.update(SENSOR_MODES_KEY, Object.fromEntries(this.sensorModes));
+	}
+
+	/** Preferred sensor modes of a brick; ports without a preference are absent. */
+	getSensorModes(brickKey: BrickKey): SensorModes {
+		return this.sensorModes.get(brickKey) ?? {};
+	}
+
+	// ── System telemetry ────────────────────────────────────────────
+
+	/**
+	 * Read battery, firmware version and storage of a connected brick as one
+	 * {@link TelemetryCategory.System} snapshot. The three reads are queued back to back.
+	 */
+	async refreshSystemTelemetry(brickKey: BrickKey): Promise<TelemetrySnapshot> {
 		const resources = this.sessions.get(brickKey);
 		if (!resources) {
-			return Promise.reject(new Error(`Brick ${brickKey} is not connected.`));
+			throw new Error(`Brick ${brickKey} is not connected.`);
+		}
+		const [battery, info, storage] = await Promise.all([
+			resources.commandQueue.send({ kind: 'battery' }),
+			resources.commandQueue.send({ kind: 'info' }),
+			resources.commandQueue.send({ kind: 'system:storage' }),
+		]);
+		const data: SystemTelemetry = {};
+		if (battery.kind === 'battery') {
+			data.battery = { level: battery.level, voltage: battery.voltage, current: battery.current };
+		}
+		if (info.kind === 'info') {
+			data.firmwareVersion = info.firmwareVersion;
+		}
+		if (storage.kind === 'system:storage') {
+			data.storage = storage.storage;
 		}
-		return resources.commandQueue.send(command);
+		return { brickKey, category: TelemetryCategory.System, timestamp: Date.now(), data };
+	}
+
+	// ── Daisy chain ─────────────────────────────────────────────────
+
+	/**
+	 * Ask a connected master which slave layers are present and rebuild its chained
+	 * bricks. Slaves that are still present keep their last port states;
+	 * {@link onChainChange} fires only if slaves were added or removed.
+	 */
+	async detectChain(masterKey: BrickKey): Promise<ChainedBrick[]> {
+		const resources = this.sessions.get(masterKey);
+		if (!resources) {
+			throw new Error(`Brick ${masterKey} is not connected.`);
+		}
+		const reply = await resources.commandQueue.send({ kind: 'chain:list' });
+		if (reply.kind !== 'chain:list') {
+			throw new Error(`Unexpected '${reply.kind}' reply to 'chain:list'.`);
+		}
+		const chain = new Map<BrickKey, ChainedBrick>();
+		for (const layer of reply.layers) {
+			const brickKey = makeChainedBrickKey(masterKey, layer);
+			chain.set(brickKey, resources.chain.get(brickKey) ?? {
+				brickKey,
+				masterKey,
+				layer,
+				displayName: `${resources.entry.displayName} (layer ${layer})`,
+				motorPorts: [],
+				sensorPorts: [],
+			});
+		}
+		const changed = chain.size !== resources.chain.size || [...chain.keys()].some((key) => !resources.chain.has(key));
+		resources.chain = chain;
+		const chainedBricks = this.getChainedBricks(masterKey);
+		if (changed) {
+			this._onChainChange.fire({ masterKey, chainedBricks });
+		}
+		return chainedBricks;
+	}
+
+	/** Slave bricks found behind a connected master, by ascending layer. */
+	getChainedBricks(masterKey: BrickKey): ChainedBrick[] {
+		const chain = this.sessions.get(masterKey)?.chain.values() ?? [];
+		return [...chain].map((brick) => ({ ...brick })).sort((a, b) => a.layer - b.layer);
 	}
 
 	// ── Query ───────────────────────────────────────────────────────
@@ -257,6 +437,60 @@ export class SessionManager implements vscode.Disposable {
 		this.activeBrickKey = undefined;
 		this._onSessionStateChange.dispose();
 		this._onActiveBrickChange.dispose();
+		this._onMailboxMessage.dispose();
+		this._onChainChange.dispose();
+	}
+
+	// ── Internal: Daisy chain ───────────────────────────────────────
+
+	/** Best effort — a master whose chain cannot be listed is treated as standalone. */
+	private async detectChainQuietly(masterKey: BrickKey): Promise<void> {
+		try {
+			await this.detectChain(masterKey);
+		} catch {
+			// Standalone until the next detection
+		}
+	}
+
+	/** Whether commands to `brickKey` — a session or a chained slave — can be delivered. */
+	private isReachable(brickKey: BrickKey): boolean {
+		const chained = parseChainedBrickKey(brickKey);
+		return chained
+			? this.sessions.get(chained.masterKey)?.chain.has(brickKey) ?? false
+			: this.sessions.has(brickKey);
+	}
+
+	// ── Internal: Sensor metadata ───────────────────────────────────
+
+	/**
+	 * Best effort — a port whose metadata cannot be fetched is returned as read.
+	 * Uncached lookups are queued back to back, on the layer `read` addressed,
+	 * so the queue sends them as one batched read.
+	 */
+	private async describeSensors(
+		queue: CommandQueue, read: Extract<BrickCommand, { kind: 'ports' }>, response: BrickResponse,
+	): Promise<BrickResponse> {
+		if (response.kind !== 'ports') {
+			return response;
+		}
+		const sensorPorts = await Promise.all(response.sensorPorts.map(async (port) => {
+			if (port.deviceType === undefined || port.mode === undefined) {
+				return port;
+			}
+			try {
+				const metadata = await this.sensorMetadata.get(port.deviceType, port.mode, async () => {
+					const reply = await queue.send({ kind: 'sensor:info', port: port.port as SensorPort, layer: read.layer });
+					if (reply.kind !== 'sensor:info') {
+						throw new Error(`Unexpected '${reply.kind}' reply to 'sensor:info'.`);
+					}
+					return reply.metadata;
+				});
+				return describePort(port, metadata, read.format !== 'raw');
+			} catch {
+				return port;
+			}
+		}));
+		return { ...response, sensorPorts };
 	}
 
 	// ── Internal: Heartbeat ─────────────────────────────────────────
@@ -266,7 +500,14 @@ export class SessionManager implements vscode.Disposable {
 			intervalMs: this.heartbeatIntervalMs,
 			missThreshold: this.heartbeatMissThreshold,
 			probe: async () => {
-				await commandQueue.send({ kind: 'battery' });
+				try {
+					await commandQueue.send({ kind: 'battery' });
+				} catch (error) {
+					// A refusal is still an answer — the link is alive.
+					if (!(error instanceof CommandRejectedError)) {
+						throw error;
+					}
+				}
 			},
 			onSuccess: () => {
 				const resources = this.sessions.get(brickKey);
@@ -354,14 +595,21 @@ export class SessionManager implements vscode.Disposable {
 			resources.heartbeat.start();
 		} catch {
 			this.scheduleReconnect(brickKey);
+			return;
 		}
+		// Slaves may have been added or removed while the master was away.
+		void this.detectChainQuietly(brickKey);
 	}
 
 	// ── Internal: Cleanup ───────────────────────────────────────────
 
 	private wireExecutor(resources: SessionResources, provider: TransportProvider): void {
 		resources.commandQueue.setExecutor(
-			(cmd) => provider.send(resources.entry.brickKey, cmd)
+			(cmd, options) => provider.send(resources.entry.brickKey, cmd, options)
+		);
+		resources.commandQueue.setBatchExecutor(
+			provider.sendBatch && ((cmds) => provider.sendBatch!(resources.entry.brickKey, cmds)),
+			(cmd) => provider.canBatch?.(cmd) ?? false,
 		);
 	}
 
@@ -370,6 +618,9 @@ export class SessionManager implements vscode.Disposable {
 		resources.commandQueue.drainWith(new Error('Session disconnected.'));
 		resources.commandQueue.dispose();
 		resources.entry.clearSubscriptions();
+		resources.mailboxSubscription?.dispose();
+		resources.mailboxSubscription = undefined;
+		resources.chain.clear();
 
 		if (resources.reconnectTimer) {
 			clearTimeout(resources.reconnectTimer);
@@ -10,6 +10,7 @@ import { TransportAdapter, SendOptions } from './transportAdapter';
 import { TransportError } from '../errors/CockpitError';
 import {
 	PendingReply,
+	UnsolicitedPacketHandler,
 	drainPendingReply,
 	rejectPendingReply,
 	extractLengthPrefixedPacket
@@ -86,6 +87,7 @@ export class BtSppAdapter implements TransportAdapter {
 	private closing = false;
 	private receiveBuffer: Buffer = Buffer.alloc(0);
 	private pendingReply?: PendingReply;
+	private unsolicitedHandler?: UnsolicitedPacketHandler;
 
 	constructor(options: BtSppAdapterOptions) {
 		if (!options.portPath?.trim()) {
@@ -217,10 +219,33 @@ export class BtSppAdapter implements TransportAdapter {
 		});
 	}
 
+	async sendNoReply(packet: Uint8Array, options?: Pick<SendOptions, 'signal'>): Promise<void> {
+		if (!this.port || !this._isOpen) {
+			throw new TransportError('BT SPP adapter is not open.');
+		}
+		if (options?.signal?.aborted) {
+			throw new TransportError('BT SPP send aborted before dispatch.');
+		}
+		const port = this.port;
+		await new Promise<void>((resolve, reject) => {
+			port.write(Buffer.from(packet), (error?: Error | null) => (error ? reject(error) : resolve()));
+		});
+	}
+
+	setUnsolicitedPacketHandler(handler: UnsolicitedPacketHandler | undefined): void {
+		this.unsolicitedHandler = handler;
+		// Hand over anything that arrived while nobody was listening.
+		this.doDrainPendingReply();
+	}
+
 	// ── Internal ────────────────────────────────────────────────────
 
 	private doDrainPendingReply(): void {
-		this.pendingReply = drainPendingReply(this.pendingReply, () => this.extractNextPacket());
+		this.pendingReply = drainPendingReply(
+			this.pendingReply,
+			() => this.extractNextPacket(),
+			this.unsolicitedHandler
+		);
 	}
 
 	private extractNextPacket(): Uint8Array | undefined {
@@ -10,17 +10,22 @@
  * the Windows RFCOMM single-channel bottleneck.
  */
 
+import * as vscode from 'vscode';
 import {
 	Transport, BrickKey, makeBrickKey,
 	TransportProvider, TransportCapabilities, SessionHandle,
-	DiscoveryScanResult, DiscoveryItem, BrickCommand, BrickResponse,
+	DiscoveryScanResult, DiscoveryItem, BrickCommand, BrickResponse, SendCommandOptions, MailboxEvent,
 	PresenceState,
 } from '../contracts';
 import { TransportError, ConnectionError } from '../errors/CockpitError';
 import { TransportAdapter } from './transportAdapter';
 import { BtConnectionQueue } from './btConnectionQueue';
 import { BT } from './transportConstants';
-import { sendCommandViaAdapter } from './protocolBridge';
+import { ProtocolTrace, traceAdapter } from './protocolTrace';
+import { TransportGuard } from './transportGuard';
+import {
+	sendCommandViaAdapter, sendBatchViaAdapter, sendNoReplyViaAdapter, canBatchCommand, createMailboxPacketHandler,
+} from './protocolBridge';
 
 // ── BT backend types ────────────────────────────────────────────────
 
@@ -66,6 +71,10 @@ export interface BtTransportProviderOptions {
 	discoverDevices?: BtDiscoveryFunction;
 	/** Connection queue (shared across BT providers). */
 	connectionQueue?: BtConnectionQueue;
+	/** Records session traffic when enabled. */
+	trace?: ProtocolTrace;
+	/** Rate-limits no-reply sends, which have no reply to pace them. */
+	guard?: TransportGuard;
 }
 
 /**
@@ -81,14 +90,21 @@ export class BtTransportProvider implements TransportProvider {
 	private readonly backends: Map<BtBackend, BtAdapterFactory>;
 	private readonly discoverDevices?: BtDiscoveryFunction;
 	private readonly connectionQueue?: BtConnectionQueue;
+	private readonly trace?: ProtocolTrace;
+	private readonly guard?: TransportGuard;
 	private readonly sessions = new Map<BrickKey, BtSession>();
 	private readonly preferredBackend = new Map<string, BtBackend>();
 	private disposed = false;
 
+	private readonly _onMailboxMessage = new vscode.EventEmitter<MailboxEvent>();
+	readonly onMailboxMessage: vscode.Event<MailboxEvent> = this._onMailboxMessage.event;
+
 	constructor(options?: BtTransportProviderOptions) {
 		this.backends = options?.backends ?? new Map<BtBackend, BtAdapterFactory>();
 		this.discoverDevices = options?.discoverDevices;
 		this.connectionQueue = options?.connectionQueue;
+		this.trace = options?.trace;
+		this.guard = options?.guard;
 	}
 
 	async discover(): Promise<DiscoveryScanResult> {
@@ -142,7 +158,11 @@ export class BtTransportProvider implements TransportProvider {
 		}
 
 		try {
-			const { adapter, backend } = await this.connectWithFallback(mac);
+			const { adapter: opened, backend } = await this.connectWithFallback(mac);
+			const adapter = traceAdapter(opened, this.trace, Transport.BT, brickKey);
+			adapter.setUnsolicitedPacketHandler?.(
+				createMailboxPacketHandler(brickKey, (event) => this._onMailboxMessage.fire(event))
+			);
 			this.sessions.set(brickKey, { adapter, backend, messageCounter: 0, queueRelease });
 			this.preferredBackend.set(mac, backend);
 			return { brickKey, transport: Transport.BT };
@@ -163,15 +183,39 @@ export class BtTransportProvider implements TransportProvider {
 		}
 	}
 
-	async send(brickKey: BrickKey, command: BrickCommand): Promise<BrickResponse> {
+	async send(brickKey: BrickKey, command: BrickCommand, options?: SendCommandOptions): Promise<BrickResponse> {
+		this.assertNotDisposed();
+		const session = this.sessions.get(brickKey);
+		if (!session) {
+			throw new TransportError(`BT brick ${brickKey} is not connected.`);
+		}
+
+		return sendCommandViaAdapter(session.adapter, command, session, 'BT', options);
+	}
+
+	async sendBatch(brickKey: BrickKey, commands: readonly BrickCommand[], options?: SendCommandOptions): Promise<BrickResponse[]> {
+		this.assertNotDisposed();
+		const session = this.sessions.get(brickKey);
+		if (!session) {
+			throw new TransportError(`BT brick ${brickKey} is not connected.`);
+		}
+
+		return sendBatchViaAdapter(session.adapter, commands, session, 'BT', options);
+	}
+
+	canBatch(command: BrickCommand): boolean {
+		return canBatchCommand(command);
+	}
+
+	async sendNoReply(brickKey: BrickKey, command: BrickCommand, options?: SendCommandOptions): Promise<void> {
 		this.assertNotDisposed();
 		const session = this.sessions.get(brickKey);
 		if (!session) {
 			throw new TransportError(`BT brick ${brickKey} is not connected.`);
 		}
 
-		session.messageCounter = (session.messageCounter + 1) & 0xffff;
-		return sendCommandViaAdapter(session.adapter, command, session.messageCounter, 'BT');
+		this.guard?.checkRateLimit(brickKey);
+		return sendNoReplyViaAdapter(session.adapter, command, session, options);
 	}
 
 	async recover(brickKey: BrickKey): Promise<SessionHandle> {
@@ -194,6 +238,7 @@ export class BtTransportProvider implements TransportProvider {
 			session.queueRelease?.();
 		}
 		this.sessions.clear();
+		this._onMailboxMessage.dispose();
 		this.connectionQueue?.dispose();
 	}
 
@@ -0,0 +1,271 @@
+/**
+ * Multi-packet file transfers and folder operations over the EV3 system
+ * command protocol.
+ *
+ * A transfer opens a file handle on the brick, moves the content in chunks
+ * that fit one packet each, and lets the brick close the handle after the
+ * last chunk. Uploads write host → brick; downloads and directory listings
+ * read brick → host. If anything fails in between — a rejected chunk, a
+ * transport error, cancellation — the handle is closed explicitly so the
+ * brick does not run out of handles.
+ *
+ * Uploads first ask the brick how much space is left on the target medium
+ * and fail before opening a handle if the content would not fit.
+ *
+ * Folder creation, recursive removal and existence checks live here too:
+ * they either need status handling beyond `parseResponse` or a listing walk
+ * across many packets.
+ *
+ * All operations are transport-agnostic: they only need a
+ * {@link PacketExchange} that sends one encoded command and returns its
+ * decoded reply.
+ */
+
+import { FsListEntry, SendCommandOptions } from '../contracts';
+import {
+	EncodedCommand, FILE_CHUNK_SIZE, SD_CARD_ROOT, buildCommand,
+	buildBeginDownload, buildContinueDownload, buildBeginUpload, buildContinueUpload,
+	buildListFiles, buildContinueListFiles, buildCloseFileHandle, buildCreateDir, buildDeleteFile,
+} from '../protocol/ev3Commands';
+import { readUint32le, hexExcerpt } from '../protocol/ev3Bytecode';
+import { Ev3Packet, EV3_SYSTEM_STATUS } from '../protocol/ev3Packet';
+import { SystemReply, parseResponse, parseSystemReply, parseFileListing } from '../protocol/ev3Responses';
+import { ProtocolError, CommandRejectedError, AbortedError } from '../errors/CockpitError';
+
+/** Sends one encoded command and resolves with its decoded reply packet. */
+export type PacketExchange = (command: EncodedCommand, signal?: AbortSignal) => Promise<Ev3Packet>;
+
+/**
+ * Writes `content` to `path` on the brick (BEGIN_DOWNLOAD + CONTINUE_DOWNLOAD).
+ *
+ * Reports progress after every chunk and checks `options.signal` between packets.
+ * Throws a {@link CommandRejectedError} without writing anything if the target
+ * medium is missing or has less free space than `content` needs.
+ */
+export async function uploadFile(
+	exchange: PacketExchange,
+	path: string,
+	content: Uint8Array,
+	options?: SendCommandOptions,
+): Promise<void> {
+	const signal = options?.signal;
+	throwIfAborted(signal, path);
+	await assertSpaceFor(exchange, path, content.length, signal);
+
+	const begin = await exchange(buildBeginDownload(path, content.length), signal);
+	const handle = readHandle(parseSystemReply(begin, 'fs:write').data, 'fs:write');
+	options?.onProgress?.({ transferred: 0, total: content.length });
+
+	let offset = 0;
+	try {
+		while (offset < content.length) {
+			throwIfAborted(signal, path);
+			const chunk = content.subarray(offset, offset + FILE_CHUNK_SIZE.DOWNLOAD);
+			const reply = await exchange(buildContinueDownload(handle, chunk), signal);
+			parseSystemReply(reply, 'fs:write', [EV3_SYSTEM_STATUS.END_OF_FILE]);
+			offset += chunk.length;
+			options?.onProgress?.({ transferred: offset, total: content.length });
+		}
+	} catch (error) {
+		await closeHandleQuietly(exchange, handle);
+		throw error;
+	}
+}
+
+/**
+ * Reads the complete file at `path` from the brick (BEGIN_UPLOAD + CONTINUE_UPLOAD).
+ *
+ * The first reply declares the file size; chunks are requested until that many
+ * bytes have arrived. Reports progress after every chunk and checks
+ * `options.signal` between packets.
+ */
+export function downloadFile(
+	exchange: PacketExchange,
+	path: string,
+	options?: SendCommandOptions,
+): Promise<Uint8Array> {
+	return receiveChunked(exchange, path, buildBeginUpload(path), buildContinueUpload, 'fs:read', options);
+}
+
+/**
+ * Lists the directory at `path` (LIST_FILES + CONTINUE_LIST_FILES), paging
+ * through listings that do not fit one reply.
+ */
+export async function listDirectory(
+	exchange: PacketExchange,
+	path: string,
+	options?: SendCommandOptions,
+): Promise<FsListEntry[]> {
+	const listing = await receiveChunked(exchange, path, buildListFiles(path), buildContinueListFiles, 'fs:list', options);
+	return parseFileListing(listing);
+}
+
+/** Creates the folder at `path`. Resolves `false` if it already exists. */
+export async function createDirectory(exchange: PacketExchange, path: string, options?: SendCommandOptions): Promise<boolean> {
+	throwIfAborted(options?.signal, path);
+	const reply = parseSystemReply(
+		await exchange(buildCreateDir(path), options?.signal), 'fs:mkdir', [EV3_SYSTEM_STATUS.FILE_EXISTS],
+	);
+	return reply.status !== EV3_SYSTEM_STATUS.FILE_EXISTS;
+}
+
+/**
+ * Deletes the folder at `path` together with everything below it, depth-first.
+ * Each folder is listed, emptied, then removed with DELETE_FILE.
+ */
+export async function removeDirectory(exchange: PacketExchange, path: string, options?: SendCommandOptions): Promise<void> {
+	const folder = path.replace(/\/+$/, '');
+	const signal = options?.signal;
+	for (const entry of await listDirectory(exchange, `${folder}/`, { signal })) {
+		const child = `${folder}/${entry.name}`;
+		if (entry.kind === 'folder') {
+			await removeDirectory(exchange, child, { signal });
+		} else {
+			throwIfAborted(signal, child);
+			parseSystemReply(await exchange(buildDeleteFile(child), signal), 'fs:rmdir');
+		}
+	}
+	throwIfAborted(signal, folder);
+	parseSystemReply(await exchange(buildDeleteFile(folder), signal), 'fs:rmdir');
+}
+
+/**
+ * Whether the brick can list `path`; it refuses to list a path that is not there.
+ * A listing longer than one reply leaves its handle open, so it is closed again.
+ */
+export async function pathExists(exchange: PacketExchange, path: string, options?: SendCommandOptions): Promise<boolean> {
+	throwIfAborted(options?.signal, path);
+	let begin: SystemReply;
+	try {
+		begin = parseSystemReply(
+			await exchange(buildListFiles(path), options?.signal), 'fs:exists', [EV3_SYSTEM_STATUS.END_OF_FILE],
+		);
+	} catch (error) {
+		if (error instanceof CommandRejectedError) {
+			return false;
+		}
+		throw error;
+	}
+	if (begin.status !== EV3_SYSTEM_STATUS.END_OF_FILE && begin.data.length >= 5) {
+		await closeHandleQuietly(exchange, begin.data[4]);
+	}
+	return true;
+}
+
+// ── Internal ────────────────────────────────────────────────────────
+
+/**
+ * Brick → host transfer loop shared by file reads and directory listings.
+ *
+ * The opening reply carries `[totalSize:4][handle:1][bytes...]`, each follow-up
+ * reply `[handle:1][bytes...]`; the brick signals the last chunk with END_OF_FILE.
+ */
+async function receiveChunked(
+	exchange: PacketExchange,
+	path: string,
+	beginCommand: EncodedCommand,
+	continueCommand: (handle: number) => EncodedCommand,
+	commandKind: string,
+	options?: SendCommandOptions,
+): Promise<Uint8Array> {
+	const signal = options?.signal;
+	throwIfAborted(signal, path);
+
+	const begin = parseSystemReply(
+		await exchange(beginCommand, signal), commandKind, [EV3_SYSTEM_STATUS.END_OF_FILE],
+	);
+	if (begin.data.length < 5) {
+		throw new ProtocolError(
+			`EV3 reply for '${commandKind}' is missing the size and handle`,
+			{ commandKind, packetExcerpt: hexExcerpt(begin.data) },
+		);
+	}
+	const total = readUint32le(begin.data, 0);
+	const handle = begin.data[4];
+	const content = new Uint8Array(total);
+	let received = appendChunk(content, 0, begin.data.subarray(5));
+	let finished = begin.status === EV3_SYSTEM_STATUS.END_OF_FILE;
+	options?.onProgress?.({ transferred: received, total });
+
+	try {
+		while (received < total) {
+			if (finished) {
+				throw new ProtocolError(`EV3 reply for '${commandKind}' ended after ${received} of ${total} bytes`, { commandKind });
+			}
+			throwIfAborted(signal, path);
+			const reply = parseSystemReply(
+				await exchange(continueCommand(handle), signal), commandKind, [EV3_SYSTEM_STATUS.END_OF_FILE],
+			);
+			const chunk = reply.data.subarray(1);
+			if (chunk.length === 0 && reply.status !== EV3_SYSTEM_STATUS.END_OF_FILE) {
+				throw new ProtocolError(
+					`EV3 reply for '${commandKind}' carried no data at ${received} of ${total} bytes`,
+					{ commandKind, packetExcerpt: hexExcerpt(reply.data) },
+				);
+			}
+			received = appendChunk(content, received, chunk);
+			finished = reply.status === EV3_SYSTEM_STATUS.END_OF_FILE;
+			options?.onProgress?.({ transferred: received, total });
+		}
+	} finally {
+		// After END_OF_FILE the brick has already released the handle. Without it
+		// — a failure, or all declared bytes read — the handle is still open.
+		if (!finished) {
+			await closeHandleQuietly(exchange, handle);
+		}
+	}
+	return content;
+}
+
+/**
+ * Throws unless the medium holding `path` — the SD card below {@link SD_CARD_ROOT},
+ * internal memory otherwise — has at least `size` bytes free. Space freed by
+ * overwriting an existing file is not taken into account.
+ */
+async function assertSpaceFor(exchange: PacketExchange, path: string, size: number, signal?: AbortSignal): Promise<void> {
+	const command = { kind: 'system:storage' } as const;
+	const reply = parseResponse(command, await exchange(buildCommand(command), signal));
+	if (reply.kind !== 'system:storage') {
+		return;
+	}
+	const onCard = path === SD_CARD_ROOT || path.startsWith(`${SD_CARD_ROOT}/`);
+	const medium = onCard ? reply.storage.sdCard : reply.storage.internal;
+	if (!medium) {
+		throw new CommandRejectedError(`No SD card in the brick for ${path}`, { commandKind: 'fs:write' });
+	}
+	if (medium.free < size) {
+		throw new CommandRejectedError(
+			`Not enough space on the brick for ${path}: ${size} bytes needed, ${medium.free} free`,
+			{ commandKind: 'fs:write' },
+		);
+	}
+}
+
+function readHandle(data: Uint8Array, commandKind: string): number {
+	if (data.length < 1) {
+		throw new ProtocolError(`EV3 reply for '${commandKind}' is missing the file handle`, { commandKind });
+	}
+	return data[0];
+}
+
+/** Copies `chunk` into `target` at `offset`, ignoring bytes past the declared size. */
+function appendChunk(target: Uint8Array, offset: number, chunk: Uint8Array): number {
+	const usable = chunk.subarray(0, target.length - offset);
+	target.set(usable, offset);
+	return offset + usable.length;
+}
+
+function throwIfAborted(signal: AbortSignal | undefined, path: string): void {
+	if (signal?.aborted) {
+		throw new AbortedError(`File operation aborted: ${path}`, signal.reason);
+	}
+}
+
+/** Best-effort CLOSE_FILEHANDLE — never masks the error that triggered it. */
+async function closeHandleQuietly(exchange: PacketExchange, handle: number): Promise<void> {
+	try {
+		await exchange(buildCloseFileHandle(handle));
+	} catch {
+		// The original failure is more useful to the caller.
+	}
+}
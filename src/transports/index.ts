@@ -11,13 +11,20 @@ export type { BtSppAdapterOptions } from './btSppAdapter';
 
 // Transport providers
 export { UsbTransportProvider } from './usbTransportProvider';
+export type { UsbTransportProviderOptions } from './usbTransportProvider';
 export { TcpTransportProvider } from './tcpTransportProvider';
 export type { TcpTransportProviderOptions } from './tcpTransportProvider';
 export { BtTransportProvider } from './btTransportProvider';
 export type { BtTransportProviderOptions, BtBackend, BtAdapterFactory, BtDiscoveryDevice, BtDiscoveryFunction } from './btTransportProvider';
 
 // Infrastructure
+export { uploadFile, downloadFile, listDirectory, createDirectory, removeDirectory, pathExists } from './fileTransfer';
+export type { PacketExchange } from './fileTransfer';
 export { BtConnectionQueue } from './btConnectionQueue';
+export {
+	ProtocolTrace, TracingAdapter, traceAdapter, serializeTrace, parseTrace, formatTraceEntry, TRACE_FILE_FORMAT,
+} from './protocolTrace';
+export type { TraceEntry, TraceEntryKind, ProtocolTraceOptions } from './protocolTrace';
 export { TransportGuard } from './transportGuard';
 export type { DegradationCallback, TransportGuardOptions } from './transportGuard';
 export { USB, TCP, BT, FIRMWARE_SAFETY } from './transportConstants';
@@ -5,6 +5,8 @@
  * and drain loops for receive buffers.
  */
 
+import { isMailboxWrite } from '../protocol/ev3Packet';
+
 /** State for a single outstanding send-and-wait-for-reply operation. */
 export interface PendingReply {
 	/** Called when the matching reply packet arrives. */
@@ -29,20 +31,38 @@ export function getMessageCounter(packet: Uint8Array): number {
 	return new DataView(packet.buffer, packet.byteOffset, packet.byteLength).getUint16(2, true);
 }
 
+/**
+ * Whether a raw packet is a WRITEMAILBOX system command sent by the brick.
+ * Its message counter comes from the brick's own sequence, so it can collide
+ * with the counter of a pending request and must never be taken as the reply.
+ */
+function isRawMailboxWrite(packet: Uint8Array): boolean {
+	return packet.length > 5 && isMailboxWrite(packet[4], packet[5]);
+}
+
 /** Maximum packets to consume per drain call to prevent CPU spin. */
 const MAX_DRAIN_ITERATIONS = 64;
 
+/** Receives packets that do not answer the pending request (e.g. mailbox messages from the brick). */
+export type UnsolicitedPacketHandler = (packet: Uint8Array) => void;
+
 /**
  * Drains a pending reply by extracting packets from the receive buffer
  * and matching against the expected message counter.
  *
+ * Without `onUnsolicited`, non-matching packets are discarded and nothing is
+ * read while no reply is pending. With it, every complete packet is consumed:
+ * the matching one resolves the pending reply, all others go to the handler.
+ * Mailbox writes from the brick never match, whatever their counter.
+ *
  * @returns `undefined` if resolved, or the original pending reply if no match was found.
  */
 export function drainPendingReply(
 	pendingReply: PendingReply | undefined,
-	extractNextPacket: () => Uint8Array | undefined
+	extractNextPacket: () => Uint8Array | undefined,
+	onUnsolicited?: UnsolicitedPacketHandler
 ): PendingReply | undefined {
-	if (!pendingReply) {
+	if (!pendingReply && !onUnsolicited) {
 		return undefined;
 	}
 
@@ -50,11 +70,17 @@ export function drainPendingReply(
 	let packet = extractNextPacket();
 	while (packet && iterations < MAX_DRAIN_ITERATIONS) {
 		iterations += 1;
-		const expected = pendingReply.expectedMessageCounter;
-		if (expected === undefined || getMessageCounter(packet) === expected) {
+		const expected = pendingReply?.expectedMessageCounter;
+		const matches = !isRawMailboxWrite(packet) && (expected === undefined || getMessageCounter(packet) === expected);
+		if (pendingReply && matches) {
 			pendingReply.cleanup();
 			pendingReply.resolve(packet);
-			return undefined;
+			pendingReply = undefined;
+			if (!onUnsolicited) {
+				return undefined;
+			}
+		} else {
+			onUnsolicited?.(packet);
 		}
 		packet = extractNextPacket();
 	}
@@ -5,11 +5,19 @@
  * can use to encode commands and decode responses.
  */
 
-import { BrickCommand, BrickResponse } from '../contracts';
-import { buildCommand, EncodedCommand } from '../protocol/ev3Commands';
-import { encodeEv3Packet, decodeEv3Packet } from '../protocol/ev3Packet';
-import { parseResponse } from '../protocol/ev3Responses';
+import { BrickCommand, BrickKey, BrickResponse, MailboxEvent, SendCommandOptions } from '../contracts';
+import {
+	buildCommand, buildBatchCommand, buildNoReplyCommand, isBatchable, isNoReplyCommand, planBatches,
+	BatchableCommand, EncodedCommand,
+} from '../protocol/ev3Commands';
+import { hexExcerpt } from '../protocol/ev3Bytecode';
+import { Ev3Packet, encodeEv3Packet, decodeEv3Packet } from '../protocol/ev3Packet';
+import { parseResponse, parseBatchResponse, parseMailboxPacket } from '../protocol/ev3Responses';
+import { ProtocolError, CommandRejectedError } from '../errors/CockpitError';
 import { getMessageCounter as getMsgCounter } from './pendingReply';
+import {
+	PacketExchange, uploadFile, downloadFile, listDirectory, createDirectory, removeDirectory, pathExists,
+} from './fileTransfer';
 
 /** Encode a BrickCommand into { type, payload } ready for packet framing. */
 export function encodeCommand(command: BrickCommand): EncodedCommand {
@@ -32,28 +40,194 @@ export function getMessageCounter(rawPacket: Uint8Array): number {
 	return getMsgCounter(rawPacket);
 }
 
+/** Minimal adapter surface needed to exchange packets. */
+export interface PacketAdapter {
+	send(packet: Uint8Array, options?: { expectedMessageCounter?: number; signal?: AbortSignal }): Promise<Uint8Array>;
+}
+
+/** Adapter surface needed to send packets the brick does not answer. */
+export interface NoReplyPacketAdapter {
+	sendNoReply?(packet: Uint8Array, options?: { signal?: AbortSignal }): Promise<void>;
+}
+
+/** Per-session message counter, advanced once for every packet sent. */
+export interface MessageCounterState {
+	messageCounter: number;
+}
+
+/** Advances the session counter and returns the value for the next packet. */
+function nextMessageCounter(counter: MessageCounterState): number {
+	counter.messageCounter = (counter.messageCounter + 1) & 0xffff;
+	return counter.messageCounter;
+}
+
+/**
+ * Creates a {@link PacketExchange} bound to one adapter: each call takes the next
+ * message counter, frames and sends the command, and verifies the reply counter.
+ */
+export function createPacketExchange(
+	adapter: PacketAdapter,
+	counter: MessageCounterState,
+	transportLabel: string,
+): PacketExchange {
+	return async (encoded: EncodedCommand, signal?: AbortSignal): Promise<Ev3Packet> => {
+		const messageCounter = nextMessageCounter(counter);
+		const packet = encodePacket(messageCounter, encoded.type, encoded.payload);
+
+		const reply = await adapter.send(packet, { expectedMessageCounter: messageCounter, signal });
+		const replyCounter = getMessageCounter(reply);
+		if (replyCounter !== messageCounter) {
+			throw new ProtocolError(
+				`${transportLabel} reply counter mismatch: expected ${messageCounter}, got ${replyCounter}.`,
+				{ packetExcerpt: hexExcerpt(reply) },
+			);
+		}
+		return decodeEv3Packet(reply);
+	};
+}
+
 /**
  * Shared provider helper: encode a BrickCommand, frame it, send via adapter,
  * verify the reply counter, and decode the response.
  *
+ * Commands whose payload does not fit one packet (file reads and writes,
+ * directory listings) run as multi-packet transfers; `options` carries their
+ * cancel and progress hooks.
+ *
  * Eliminates duplicate send logic across USB / TCP / BT providers.
  */
 export async function sendCommandViaAdapter(
-	adapter: { send(packet: Uint8Array, options?: { expectedMessageCounter?: number }): Promise<Uint8Array> },
+	adapter: PacketAdapter,
 	command: BrickCommand,
-	messageCounter: number,
+	counter: MessageCounterState,
 	transportLabel: string,
+	options?: SendCommandOptions,
 ): Promise<BrickResponse> {
-	const { type, payload } = encodeCommand(command);
-	const packet = encodePacket(messageCounter, type, payload);
+	const exchange = createPacketExchange(adapter, counter, transportLabel);
+
+	if (command.kind === 'fs:write') {
+		await uploadFile(exchange, command.path, Buffer.from(command.content, 'utf8'), options);
+		return { kind: 'fs:write' };
+	}
+	if (command.kind === 'fs:writeBinary') {
+		await uploadFile(exchange, command.path, command.content, options);
+		return { kind: 'fs:writeBinary' };
+	}
+	if (command.kind === 'fs:read') {
+		const content = await downloadFile(exchange, command.path, options);
+		return { kind: 'fs:read', content: Buffer.from(content).toString('utf8') };
+	}
+	if (command.kind === 'fs:list') {
+		return { kind: 'fs:list', entries: await listDirectory(exchange, command.path, options) };
+	}
+	if (command.kind === 'fs:mkdir') {
+		return { kind: 'fs:mkdir', created: await createDirectory(exchange, command.path, options) };
+	}
+	if (command.kind === 'fs:rmdir') {
+		try {
+			if (command.recursive) {
+				await removeDirectory(exchange, command.path, options);
+				return { kind: 'fs:rmdir', deleted: true };
+			}
+			return parseResponse(command, await exchange(encodeCommand(command), options?.signal));
+		} catch (error) {
+			// A folder that is not there is not deleted; other refusals (e.g. not empty) stay failures.
+			if (error instanceof CommandRejectedError && !(await pathExists(exchange, command.path, { signal: options?.signal }))) {
+				return { kind: 'fs:rmdir', deleted: false };
+			}
+			throw error;
+		}
+	}
+	if (command.kind === 'fs:readBinary') {
+		return { kind: 'fs:readBinary', content: await downloadFile(exchange, command.path, options) };
+	}
+	if (command.kind === 'fs:exists') {
+		return { kind: 'fs:exists', exists: await pathExists(exchange, command.path, { signal: options?.signal }) };
+	}
+
+	const reply = await exchange(encodeCommand(command), options?.signal);
+	return parseResponse(command, reply);
+}
+
+/**
+ * Shared provider helper: frames a command as its no-reply variant and writes
+ * it without waiting for the brick. The packet takes a message counter like
+ * any other, so replies to later commands still match.
+ *
+ * @throws Error if the command reads data back and so needs a reply, or the
+ *   adapter cannot send without one; nothing is sent then
+ */
+export async function sendNoReplyViaAdapter(
+	adapter: NoReplyPacketAdapter,
+	command: BrickCommand,
+	counter: MessageCounterState,
+	options?: SendCommandOptions,
+): Promise<void> {
+	if (!isNoReplyCommand(command)) {
+		throw new Error(`Command '${command.kind}' needs a reply and cannot be sent without one.`);
+	}
+	if (!adapter.sendNoReply) {
+		throw new Error(`Transport adapter does not support sending '${command.kind}' without a reply.`);
+	}
+	const encoded = buildNoReplyCommand(command);
+	const packet = encodePacket(nextMessageCounter(counter), encoded.type, encoded.payload);
+	await adapter.sendNoReply(packet, { signal: options?.signal });
+}
+
+/** Shared provider helper: whether {@link sendBatchViaAdapter} can combine `command` with others. */
+export function canBatchCommand(command: BrickCommand): boolean {
+	return isBatchable(command);
+}
 
-	const reply = await adapter.send(packet, { expectedMessageCounter: messageCounter });
-	const counter = getMessageCounter(reply);
-	if (counter !== messageCounter) {
-		throw new Error(
-			`${transportLabel} reply counter mismatch: expected ${messageCounter}, got ${counter}.`
-		);
+/**
+ * Shared provider helper: sends read-only commands combined into as few
+ * direct commands as their variables allow (see `planBatches`) and returns
+ * their responses in command order.
+ *
+ * @throws Error if a command cannot be batched; nothing is sent then
+ */
+export async function sendBatchViaAdapter(
+	adapter: PacketAdapter,
+	commands: readonly BrickCommand[],
+	counter: MessageCounterState,
+	transportLabel: string,
+	options?: SendCommandOptions,
+): Promise<BrickResponse[]> {
+	const reads = commands.map((command): BatchableCommand => {
+		if (!isBatchable(command)) {
+			throw new Error(`Command '${command.kind}' cannot be batched.`);
+		}
+		return command;
+	});
+	const exchange = createPacketExchange(adapter, counter, transportLabel);
+
+	const responses: BrickResponse[] = [];
+	for (const batch of planBatches(reads)) {
+		const reply = await exchange(buildBatchCommand(batch), options?.signal);
+		responses.push(...parseBatchResponse(batch, reply));
 	}
+	return responses;
+}
 
-	return decodeResponse(command, reply);
+/**
+ * Shared provider helper: builds an unsolicited-packet handler for one brick
+ * that turns incoming WRITEMAILBOX packets into {@link MailboxEvent}s.
+ * Anything else (late replies, malformed packets) is dropped.
+ */
+export function createMailboxPacketHandler(
+	brickKey: BrickKey,
+	onMessage: (event: MailboxEvent) => void,
+): (rawPacket: Uint8Array) => void {
+	return (rawPacket) => {
+		let packet: Ev3Packet;
+		try {
+			packet = decodeEv3Packet(rawPacket);
+		} catch {
+			return;
+		}
+		const message = parseMailboxPacket(packet);
+		if (message) {
+			onMessage({ brickKey, mailbox: message.mailbox, data: message.data, timestamp: Date.now() });
+		}
+	};
 }
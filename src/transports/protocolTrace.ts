@@ -0,0 +1,287 @@
+/**
+ * Protocol trace — opt-in recording of every packet a transport adapter sends
+ * or receives.
+ *
+ * {@link TracingAdapter} decorates a {@link TransportAdapter} and reports each
+ * request, reply, unsolicited packet and failed exchange to a shared
+ * {@link ProtocolTrace}, tagged with transport, brick and round-trip time.
+ * Nothing is recorded, or copied, while the trace is disabled.
+ *
+ * A trace saves to a JSON capture file ({@link serializeTrace}) that loads back
+ * with {@link parseTrace}; {@link formatTraceEntry} renders entries through the
+ * disassembler for the output channel.
+ */
+
+import * as vscode from 'vscode';
+import { BrickKey, Transport } from '../contracts';
+import { decodeEv3Packet } from '../protocol/ev3Packet';
+import { hexExcerpt } from '../protocol/ev3Bytecode';
+import { disassemble } from '../protocol/ev3Disassembler';
+import { TransportAdapter, SendOptions } from './transportAdapter';
+
+/** What a trace entry records. */
+export type TraceEntryKind = 'request' | 'reply' | 'unsolicited' | 'failure';
+
+export interface TraceEntry {
+	/** Epoch milliseconds when the packet went out or came in. */
+	readonly timestamp: number;
+	readonly transport: Transport;
+	readonly brickKey: BrickKey;
+	readonly kind: TraceEntryKind;
+	/** Raw packet as on the wire; empty for failures. */
+	readonly packet: Uint8Array;
+	/** Time from request to reply or failure, in milliseconds. */
+	readonly rttMs?: number;
+	/** Why a request got no reply. */
+	readonly error?: string;
+}
+
+export interface ProtocolTraceOptions {
+	/** Record from the start (default: false). */
+	enabled?: boolean;
+	/** Entries kept before the oldest are dropped (default: 10 000). */
+	maxEntries?: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+/** Bounded in-memory log of traced packets, shared by all transport providers. */
+export class ProtocolTrace implements vscode.Disposable {
+	/** Whether adapters record packets. Toggling keeps what was recorded so far. */
+	enabled: boolean;
+
+	private readonly maxEntries: number;
+	private readonly entries: TraceEntry[] = [];
+
+	private readonly _onEntry = new vscode.EventEmitter<TraceEntry>();
+	readonly onEntry: vscode.Event<TraceEntry> = this._onEntry.event;
+
+	constructor(options?: ProtocolTraceOptions) {
+		this.enabled = options?.enabled ?? false;
+		this.maxEntries = options?.maxEntries ?? DEFAULT_MAX_ENTRIES;
+	}
+
+	/** Appends an entry stamped with the current time. Ignored while disabled. */
+	record(entry: Omit<TraceEntry, 'timestamp'>): void {
+		if (!this.enabled) { return; }
+		const stamped: TraceEntry = { timestamp: Date.now(), ...entry };
+		this.entries.push(stamped);
+		if (this.entries.length > this.maxEntries) {
+			this.entries.splice(0, this.entries.length - this.maxEntries);
+		}
+		this._onEntry.fire(stamped);
+	}
+
+	/** Recorded entries, oldest first. */
+	snapshot(): readonly TraceEntry[] {
+		return [...this.entries];
+	}
+
+	clear(): void {
+		this.entries.length = 0;
+	}
+
+	dispose(): void {
+		this._onEntry.dispose();
+	}
+}
+
+/**
+ * Adapter decorator that reports traffic to a {@link ProtocolTrace}. Every
+ * other call passes straight through to the wrapped adapter.
+ */
+export class TracingAdapter implements TransportAdapter {
+	/** Present only when the wrapped adapter can send without a reply. */
+	readonly sendNoReply?: (packet: Uint8Array, options?: Pick<SendOptions, 'signal'>) => Promise<void>;
+
+	constructor(
+		private readonly inner: TransportAdapter,
+		private readonly trace: ProtocolTrace,
+		private readonly transport: Transport,
+		private readonly brickKey: BrickKey,
+	) {
+		const sendNoReply = inner.sendNoReply?.bind(inner);
+		this.sendNoReply = sendNoReply && ((packet, options) => this.traceNoReply(sendNoReply, packet, options));
+	}
+
+	get isOpen(): boolean {
+		return this.inner.isOpen;
+	}
+
+	open(): Promise<void> {
+		return this.inner.open();
+	}
+
+	close(): Promise<void> {
+		return this.inner.close();
+	}
+
+	async send(packet: Uint8Array, options?: SendOptions): Promise<Uint8Array> {
+		if (!this.trace.enabled) {
+			return this.inner.send(packet, options);
+		}
+		this.record('request', packet);
+		const started = performance.now();
+		try {
+			const reply = await this.inner.send(packet, options);
+			this.record('reply', reply, { rttMs: performance.now() - started });
+			return reply;
+		} catch (error) {
+			this.record('failure', new Uint8Array(), {
+				rttMs: performance.now() - started,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			throw error;
+		}
+	}
+
+	setUnsolicitedPacketHandler(handler: ((packet: Uint8Array) => void) | undefined): void {
+		this.inner.setUnsolicitedPacketHandler?.(handler && ((packet) => {
+			this.record('unsolicited', packet);
+			handler(packet);
+		}));
+	}
+
+	private async traceNoReply(
+		sendNoReply: NonNullable<TransportAdapter['sendNoReply']>, packet: Uint8Array, options?: Pick<SendOptions, 'signal'>,
+	): Promise<void> {
+		if (!this.trace.enabled) {
+			return sendNoReply(packet, options);
+		}
+		this.record('request', packet);
+		try {
+			await sendNoReply(packet, options);
+		} catch (error) {
+			this.record('failure', new Uint8Array(), { error: error instanceof Error ? error.message : String(error) });
+			throw error;
+		}
+	}
+
+	private record(kind: TraceEntryKind, packet: Uint8Array, extra?: Pick<TraceEntry, 'rttMs' | 'error'>): void {
+		// Adapters may reuse their receive buffers — keep a copy.
+		this.trace.record({ transport: this.transport, brickKey: this.brickKey, kind, packet: packet.slice(), ...extra });
+	}
+}
+
+/** Wraps `adapter` in a {@link TracingAdapter} when the provider was given a trace. */
+export function traceAdapter(
+	adapter: TransportAdapter,
+	trace: ProtocolTrace | undefined,
+	transport: Transport,
+	brickKey: BrickKey,
+): TransportAdapter {
+	return trace ? new TracingAdapter(adapter, trace, transport, brickKey) : adapter;
+}
+
+// ── Capture files ───────────────────────────────────────────────────
+
+/** Marks a JSON document as a protocol trace capture. */
+export const TRACE_FILE_FORMAT = 'ev3-cockpit-protocol-trace';
+const TRACE_FILE_VERSION = 1;
+
+/** One entry as stored in a capture file: the packet as a hex string. */
+interface StoredTraceEntry {
+	timestamp: number;
+	transport: string;
+	brickKey: string;
+	kind: string;
+	packet: string;
+	rttMs?: number;
+	error?: string;
+}
+
+const ENTRY_KINDS: readonly TraceEntryKind[] = ['request', 'reply', 'unsolicited', 'failure'];
+
+/** Serializes entries into the JSON capture format. */
+export function serializeTrace(entries: readonly TraceEntry[]): string {
+	const stored: StoredTraceEntry[] = entries.map((entry) => ({
+		timestamp: entry.timestamp,
+		transport: entry.transport,
+		brickKey: entry.brickKey,
+		kind: entry.kind,
+		packet: Buffer.from(entry.packet).toString('hex'),
+		rttMs: entry.rttMs,
+		error: entry.error,
+	}));
+	return JSON.stringify({ format: TRACE_FILE_FORMAT, version: TRACE_FILE_VERSION, entries: stored }, null, '\t');
+}
+
+/**
+ * Reads a capture written by {@link serializeTrace}.
+ *
+ * @throws Error if the text is not a capture of a supported version, or an entry is malformed
+ */
+export function parseTrace(text: string): TraceEntry[] {
+	let document: unknown;
+	try {
+		document = JSON.parse(text);
+	} catch (error) {
+		throw new Error(`Protocol trace capture is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+	}
+	if (!isRecord(document) || document.format !== TRACE_FILE_FORMAT) {
+		throw new Error('File is not a protocol trace capture.');
+	}
+	if (document.version !== TRACE_FILE_VERSION) {
+		throw new Error(`Unsupported protocol trace capture version: ${String(document.version)}`);
+	}
+	if (!Array.isArray(document.entries)) {
+		throw new Error('Protocol trace capture has no entries.');
+	}
+	return document.entries.map((entry: unknown, index) => parseStoredEntry(entry, index));
+}
+
+function parseStoredEntry(entry: unknown, index: number): TraceEntry {
+	const invalid = (field: string) => new Error(`Protocol trace entry ${index} has an invalid ${field}.`);
+	if (!isRecord(entry)) { throw invalid('shape'); }
+	const { timestamp, transport, brickKey, kind, packet, rttMs, error } = entry;
+	if (typeof timestamp !== 'number') { throw invalid('timestamp'); }
+	if (!Object.values<string>(Transport).includes(transport as string)) { throw invalid('transport'); }
+	if (typeof brickKey !== 'string') { throw invalid('brickKey'); }
+	if (!ENTRY_KINDS.includes(kind as TraceEntryKind)) { throw invalid('kind'); }
+	if (typeof packet !== 'string' || !/^(?:[0-9a-f]{2})*$/i.test(packet)) { throw invalid('packet'); }
+	if (rttMs !== undefined && typeof rttMs !== 'number') { throw invalid('rttMs'); }
+	if (error !== undefined && typeof error !== 'string') { throw invalid('error'); }
+	return {
+		timestamp,
+		transport: transport as Transport,
+		brickKey: brickKey as BrickKey,
+		kind: kind as TraceEntryKind,
+		packet: new Uint8Array(Buffer.from(packet, 'hex')),
+		...(rttMs !== undefined ? { rttMs } : {}),
+		...(error !== undefined ? { error } : {}),
+	};
+}
+
+// ── Formatting ──────────────────────────────────────────────────────
+
+const KIND_MARKERS: Record<TraceEntryKind, string> = {
+	request: '→',
+	reply: '←',
+	unsolicited: '⇠',
+	failure: '✗',
+};
+
+/**
+ * One trace entry as text: time, transport, brick and direction, then the
+ * disassembled packet. Continuation lines of the disassembly are indented.
+ */
+export function formatTraceEntry(entry: TraceEntry): string {
+	const time = new Date(entry.timestamp).toISOString().slice(11, 23);
+	const rtt = entry.rttMs !== undefined ? ` (${entry.rttMs.toFixed(1)} ms)` : '';
+	const prefix = `${time} ${entry.transport.toUpperCase()} ${entry.brickKey} ${KIND_MARKERS[entry.kind]}`;
+	if (entry.kind === 'failure') {
+		return `${prefix} ${entry.error ?? 'failed'}${rtt}`;
+	}
+	let body: string;
+	try {
+		body = disassemble(decodeEv3Packet(entry.packet));
+	} catch {
+		body = `?? ${hexExcerpt(entry.packet)}`;
+	}
+	const [first, ...rest] = body.split('\n');
+	return [`${prefix} ${first}${rtt}`, ...rest.map((line) => `    ${line}`)].join('\n');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -12,6 +12,7 @@ import { TransportAdapter, SendOptions } from './transportAdapter';
 import { TransportError, TimeoutError } from '../errors/CockpitError';
 import {
 	PendingReply,
+	UnsolicitedPacketHandler,
 	drainPendingReply,
 	rejectPendingReply,
 	extractLengthPrefixedPacket
@@ -103,6 +104,7 @@ export class TcpSocketAdapter implements TransportAdapter {
 	private receiveBuffer: Buffer = Buffer.alloc(0);
 	private handshakeBuffer: Buffer = Buffer.alloc(0);
 	private pendingReply?: PendingReply;
+	private unsolicitedHandler?: UnsolicitedPacketHandler;
 	private pendingHandshake?: PendingHandshake;
 
 	constructor(options: TcpAdapterOptions) {
@@ -207,6 +209,22 @@ export class TcpSocketAdapter implements TransportAdapter {
 		});
 	}
 
+	async sendNoReply(packet: Uint8Array, options?: Pick<SendOptions, 'signal'>): Promise<void> {
+		const socket = this.requireReadySocket();
+		if (options?.signal?.aborted) {
+			throw new TransportError('TCP send aborted before dispatch.');
+		}
+		await new Promise<void>((resolve, reject) => {
+			socket.write(Buffer.from(packet), (error?: Error | null) => (error ? reject(error) : resolve()));
+		});
+	}
+
+	setUnsolicitedPacketHandler(handler: UnsolicitedPacketHandler | undefined): void {
+		this.unsolicitedHandler = handler;
+		// Hand over anything that arrived while nobody was listening.
+		this.doDrainPendingReply();
+	}
+
 	// ── Internal ────────────────────────────────────────────────────
 
 	private async openInternal(): Promise<void> {
@@ -393,7 +411,11 @@ export class TcpSocketAdapter implements TransportAdapter {
 	}
 
 	private doDrainPendingReply(): void {
-		this.pendingReply = drainPendingReply(this.pendingReply, () => this.extractNextPacket());
+		this.pendingReply = drainPendingReply(
+			this.pendingReply,
+			() => this.extractNextPacket(),
+			this.unsolicitedHandler
+		);
 	}
 
 	private extractNextPacket(): Uint8Array | undefined {
@@ -5,23 +5,29 @@
  * TCP socket communication, and the protocol layer for command encoding/response parsing.
  */
 
+import * as vscode from 'vscode';
 import {
 	Transport, BrickKey, makeBrickKey,
 	TransportProvider, TransportCapabilities, SessionHandle,
-	DiscoveryScanResult, DiscoveryItem, BrickCommand, BrickResponse,
+	DiscoveryScanResult, DiscoveryItem, BrickCommand, BrickResponse, SendCommandOptions, MailboxEvent,
 	PresenceState,
 } from '../contracts';
 import { TransportError, ConnectionError } from '../errors/CockpitError';
 import { TcpSocketAdapter, TcpAdapterOptions, TcpDiscoveryInfo, parseBeaconMessage } from './tcpSocketAdapter';
 import { TCP } from './transportConstants';
-import { sendCommandViaAdapter } from './protocolBridge';
+import { TransportAdapter } from './transportAdapter';
+import { ProtocolTrace, traceAdapter } from './protocolTrace';
+import { TransportGuard } from './transportGuard';
+import {
+	sendCommandViaAdapter, sendBatchViaAdapter, sendNoReplyViaAdapter, canBatchCommand, createMailboxPacketHandler,
+} from './protocolBridge';
 
 import * as dgram from 'node:dgram';
 
 // ── Session tracking ────────────────────────────────────────────────
 
 interface TcpSession {
-	adapter: TcpSocketAdapter;
+	adapter: TransportAdapter;
 	messageCounter: number;
 	discoveryInfo?: TcpDiscoveryInfo;
 }
@@ -38,6 +44,10 @@ export interface TcpTransportProviderOptions {
 	discoveryPort?: number;
 	/** Discovery timeout in ms (default: 4000). */
 	discoveryTimeoutMs?: number;
+	/** Records session traffic when enabled. */
+	trace?: ProtocolTrace;
+	/** Rate-limits no-reply sends, which have no reply to pace them. */
+	guard?: TransportGuard;
 }
 
 /**
@@ -51,6 +61,9 @@ export class TcpTransportProvider implements TransportProvider {
 	private readonly sessions = new Map<BrickKey, TcpSession>();
 	private disposed = false;
 
+	private readonly _onMailboxMessage = new vscode.EventEmitter<MailboxEvent>();
+	readonly onMailboxMessage: vscode.Event<MailboxEvent> = this._onMailboxMessage.event;
+
 	constructor(options?: TcpTransportProviderOptions) {
 		this.options = options ?? {};
 	}
@@ -90,7 +103,7 @@ export class TcpTransportProvider implements TransportProvider {
 		}
 
 		const adapterOptions = this.buildAdapterOptions(brickKey);
-		const adapter = new TcpSocketAdapter(adapterOptions);
+		const adapter = traceAdapter(new TcpSocketAdapter(adapterOptions), this.options.trace, Transport.TCP, brickKey);
 		try {
 			await adapter.open();
 		} catch (error) {
@@ -100,6 +113,9 @@ export class TcpTransportProvider implements TransportProvider {
 			);
 		}
 
+		adapter.setUnsolicitedPacketHandler?.(
+			createMailboxPacketHandler(brickKey, (event) => this._onMailboxMessage.fire(event))
+		);
 		this.sessions.set(brickKey, { adapter, messageCounter: 0 });
 		return { brickKey, transport: Transport.TCP };
 	}
@@ -111,15 +127,39 @@ export class TcpTransportProvider implements TransportProvider {
 		await session.adapter.close();
 	}
 
-	async send(brickKey: BrickKey, command: BrickCommand): Promise<BrickResponse> {
+	async send(brickKey: BrickKey, command: BrickCommand, options?: SendCommandOptions): Promise<BrickResponse> {
+		this.assertNotDisposed();
+		const session = this.sessions.get(brickKey);
+		if (!session) {
+			throw new TransportError(`TCP brick ${brickKey} is not connected.`);
+		}
+
+		return sendCommandViaAdapter(session.adapter, command, session, 'TCP', options);
+	}
+
+	async sendBatch(brickKey: BrickKey, commands: readonly BrickCommand[], options?: SendCommandOptions): Promise<BrickResponse[]> {
+		this.assertNotDisposed();
+		const session = this.sessions.get(brickKey);
+		if (!session) {
+			throw new TransportError(`TCP brick ${brickKey} is not connected.`);
+		}
+
+		return sendBatchViaAdapter(session.adapter, commands, session, 'TCP', options);
+	}
+
+	canBatch(command: BrickCommand): boolean {
+		return canBatchCommand(command);
+	}
+
+	async sendNoReply(brickKey: BrickKey, command: BrickCommand, options?: SendCommandOptions): Promise<void> {
 		this.assertNotDisposed();
 		const session = this.sessions.get(brickKey);
 		if (!session) {
 			throw new TransportError(`TCP brick ${brickKey} is not connected.`);
 		}
 
-		session.messageCounter = (session.messageCounter + 1) & 0xffff;
-		return sendCommandViaAdapter(session.adapter, command, session.messageCounter, 'TCP');
+		this.options.guard?.checkRateLimit(brickKey);
+		return sendNoReplyViaAdapter(session.adapter, command, session, options);
 	}
 
 	dispose(): void {
@@ -128,6 +168,7 @@ export class TcpTransportProvider implements TransportProvider {
 			void session.adapter.close();
 		}
 		this.sessions.clear();
+		this._onMailboxMessage.dispose();
 	}
 
 	// ── Internal ────────────────────────────────────────────────────
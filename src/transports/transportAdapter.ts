@@ -18,7 +18,7 @@ export interface SendOptions {
 /**
  * Raw transport adapter that sends and receives byte packets.
  *
- * Lifecycle: `open()` → `send()` (repeated) → `close()`.
+ * Lifecycle: `open()` → `send()` / `sendNoReply?()` (repeated) → `close()`.
  * Implementations must be safe to call `close()` even if `open()` was never called.
  */
 export interface TransportAdapter {
@@ -31,6 +31,20 @@ export interface TransportAdapter {
 	/** Send a framed packet and receive the reply. */
 	send(packet: Uint8Array, options?: SendOptions): Promise<Uint8Array>;
 
+	/**
+	 * Send a framed packet the brick does not answer (a `*_NO_REPLY` command).
+	 * Resolves once the packet is written; may be called while a reply is pending.
+	 * Adapters without it cannot take no-reply sends.
+	 */
+	sendNoReply?(packet: Uint8Array, options?: Pick<SendOptions, 'signal'>): Promise<void>;
+
 	/** Whether the adapter is currently open. */
 	readonly isOpen: boolean;
+
+	/**
+	 * Install a handler for packets the brick sends without being asked
+	 * (anything that does not match the in-flight request's message counter).
+	 * Pass `undefined` to go back to discarding them.
+	 */
+	setUnsolicitedPacketHandler?(handler: ((packet: Uint8Array) => void) | undefined): void;
 }
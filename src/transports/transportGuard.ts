@@ -86,6 +86,8 @@ export class TransportGuard {
 
 	/**
 	 * Check rate limit before sending a command. Throws if the window is full.
+	 * Providers call it for no-reply sends only: a command with a reply is paced
+	 * by waiting for it, so only no-reply traffic can outrun the firmware.
 	 */
 	checkRateLimit(brickId: string): void {
 		const state = this.getOrCreate(brickId);
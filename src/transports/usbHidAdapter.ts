@@ -9,6 +9,7 @@ import { TransportAdapter, SendOptions } from './transportAdapter';
 import { TransportError } from '../errors/CockpitError';
 import {
 	PendingReply,
+	UnsolicitedPacketHandler,
 	drainPendingReply,
 	rejectPendingReply
 } from './pendingReply';
@@ -88,6 +89,7 @@ export class UsbHidAdapter implements TransportAdapter {
 	private closing = false;
 	private receiveBuffer = Buffer.alloc(0);
 	private pendingReply?: PendingReply;
+	private unsolicitedHandler?: UnsolicitedPacketHandler;
 
 	constructor(options: UsbHidAdapterOptions = {}) {
 		this.path = options.path?.trim() || undefined;
@@ -170,6 +172,21 @@ export class UsbHidAdapter implements TransportAdapter {
 		});
 	}
 
+	// eslint-disable-next-line @typescript-eslint/require-await
+	async sendNoReply(packet: Uint8Array, options?: Pick<SendOptions, 'signal'>): Promise<void> {
+		const device = this.requireDevice();
+		if (options?.signal?.aborted) {
+			throw new TransportError('USB send aborted before dispatch.');
+		}
+		device.write(this.formatWriteBuffer(packet));
+	}
+
+	setUnsolicitedPacketHandler(handler: UnsolicitedPacketHandler | undefined): void {
+		this.unsolicitedHandler = handler;
+		// Hand over anything that arrived while nobody was listening.
+		this.doDrainPendingReply();
+	}
+
 	// ── Internal ────────────────────────────────────────────────────
 
 	// eslint-disable-next-line @typescript-eslint/require-await
@@ -287,7 +304,11 @@ export class UsbHidAdapter implements TransportAdapter {
 	}
 
 	private doDrainPendingReply(): void {
-		this.pendingReply = drainPendingReply(this.pendingReply, () => this.extractNextPacket());
+		this.pendingReply = drainPendingReply(
+			this.pendingReply,
+			() => this.extractNextPacket(),
+			this.unsolicitedHandler
+		);
 	}
 
 	private doRejectPendingReply(error: unknown): void {
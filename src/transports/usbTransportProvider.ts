@@ -5,16 +5,22 @@
  * the USB adapter for raw I/O, and the protocol layer for command encoding/response parsing.
  */
 
+import * as vscode from 'vscode';
 import { Transport, BrickKey, makeBrickKey } from '../contracts';
 import {
 	TransportProvider, TransportCapabilities, SessionHandle,
-	DiscoveryScanResult, DiscoveryItem, BrickCommand, BrickResponse,
+	DiscoveryScanResult, DiscoveryItem, BrickCommand, BrickResponse, SendCommandOptions, MailboxEvent,
 	PresenceState
 } from '../contracts';
 import { TransportError, ConnectionError } from '../errors/CockpitError';
 import { UsbHidAdapter, UsbHidAdapterOptions } from './usbHidAdapter';
+import { TransportAdapter } from './transportAdapter';
+import { ProtocolTrace, traceAdapter } from './protocolTrace';
+import { TransportGuard } from './transportGuard';
 import { USB } from './transportConstants';
-import { sendCommandViaAdapter } from './protocolBridge';
+import {
+	sendCommandViaAdapter, sendBatchViaAdapter, sendNoReplyViaAdapter, canBatchCommand, createMailboxPacketHandler,
+} from './protocolBridge';
 
 // ── node-hid discovery (duck-typed) ─────────────────────────────────
 
@@ -55,10 +61,18 @@ const NAME_PROBE_TIMEOUT_MS = 1500;
 // ── Session tracking ────────────────────────────────────────────────
 
 interface UsbSession {
-	adapter: UsbHidAdapter;
+	adapter: TransportAdapter;
 	messageCounter: number;
 }
 
+/** Configuration for {@link UsbTransportProvider}. */
+export interface UsbTransportProviderOptions {
+	/** Records session traffic when enabled. */
+	trace?: ProtocolTrace;
+	/** Rate-limits no-reply sends, which have no reply to pace them. */
+	guard?: TransportGuard;
+}
+
 /**
  * USB HID transport provider.
  */
@@ -71,8 +85,18 @@ export class UsbTransportProvider implements TransportProvider {
 	private readonly lastKnownNames = new Map<string, string>();
 	/** Serials currently being probed — prevents concurrent probes for the same brick. */
 	private readonly probing = new Set<string>();
+	private readonly trace?: ProtocolTrace;
+	private readonly guard?: TransportGuard;
 	private disposed = false;
 
+	private readonly _onMailboxMessage = new vscode.EventEmitter<MailboxEvent>();
+	readonly onMailboxMessage: vscode.Event<MailboxEvent> = this._onMailboxMessage.event;
+
+	constructor(options?: UsbTransportProviderOptions) {
+		this.trace = options?.trace;
+		this.guard = options?.guard;
+	}
+
 	async discover(): Promise<DiscoveryScanResult> {
 		this.assertNotDisposed();
 		const hid = tryLoadNodeHid();
@@ -134,7 +158,7 @@ export class UsbTransportProvider implements TransportProvider {
 			? { path: `serial:${serial.toLowerCase()}` }
 			: {};
 
-		const adapter = new UsbHidAdapter(options);
+		const adapter = traceAdapter(new UsbHidAdapter(options), this.trace, Transport.USB, brickKey);
 		try {
 			await adapter.open();
 		} catch (error) {
@@ -144,6 +168,9 @@ export class UsbTransportProvider implements TransportProvider {
 			);
 		}
 
+		adapter.setUnsolicitedPacketHandler?.(
+			createMailboxPacketHandler(brickKey, (event) => this._onMailboxMessage.fire(event))
+		);
 		this.sessions.set(brickKey, { adapter, messageCounter: 0 });
 		return { brickKey, transport: Transport.USB };
 	}
@@ -155,15 +182,39 @@ export class UsbTransportProvider implements TransportProvider {
 		await session.adapter.close();
 	}
 
-	async send(brickKey: BrickKey, command: BrickCommand): Promise<BrickResponse> {
+	async send(brickKey: BrickKey, command: BrickCommand, options?: SendCommandOptions): Promise<BrickResponse> {
+		this.assertNotDisposed();
+		const session = this.sessions.get(brickKey);
+		if (!session) {
+			throw new TransportError(`USB brick ${brickKey} is not connected.`);
+		}
+
+		return sendCommandViaAdapter(session.adapter, command, session, 'USB', options);
+	}
+
+	async sendBatch(brickKey: BrickKey, commands: readonly BrickCommand[], options?: SendCommandOptions): Promise<BrickResponse[]> {
+		this.assertNotDisposed();
+		const session = this.sessions.get(brickKey);
+		if (!session) {
+			throw new TransportError(`USB brick ${brickKey} is not connected.`);
+		}
+
+		return sendBatchViaAdapter(session.adapter, commands, session, 'USB', options);
+	}
+
+	canBatch(command: BrickCommand): boolean {
+		return canBatchCommand(command);
+	}
+
+	async sendNoReply(brickKey: BrickKey, command: BrickCommand, options?: SendCommandOptions): Promise<void> {
 		this.assertNotDisposed();
 		const session = this.sessions.get(brickKey);
 		if (!session) {
 			throw new TransportError(`USB brick ${brickKey} is not connected.`);
 		}
 
-		session.messageCounter = (session.messageCounter + 1) & 0xffff;
-		return sendCommandViaAdapter(session.adapter, command, session.messageCounter, 'USB');
+		this.guard?.checkRateLimit(brickKey);
+		return sendNoReplyViaAdapter(session.adapter, command, session, options);
 	}
 
 	dispose(): void {
@@ -172,6 +223,7 @@ export class UsbTransportProvider implements TransportProvider {
 			void session.adapter.close();
 		}
 		this.sessions.clear();
+		this._onMailboxMessage.dispose();
 	}
 
 	// ── Internal ────────────────────────────────────────────────────
@@ -188,7 +240,7 @@ export class UsbTransportProvider implements TransportProvider {
 			const timeoutSignal = AbortSignal.timeout(NAME_PROBE_TIMEOUT_MS);
 			await adapter.open();
 			const response = await Promise.race([
-				sendCommandViaAdapter(adapter, { kind: 'info' }, 1, 'USB-probe'),
+				sendCommandViaAdapter(adapter, { kind: 'info' }, { messageCounter: 0 }, 'USB-probe'),
 				new Promise<never>((_, reject) =>
 					timeoutSignal.addEventListener('abort', () => reject(new Error('probe timeout')), { once: true })
 				),
@@ -0,0 +1,73 @@
+/**
+ * Protocol Trace output channel and commands.
+ *
+ * Streams entries of the shared {@link ProtocolTrace} into a "Protocol Trace"
+ * output channel while the `ev3-cockpit.protocolTrace.enabled` setting is on,
+ * and saves or loads capture files. A loaded capture replaces the channel
+ * contents; live entries keep appending below it.
+ */
+
+import * as vscode from 'vscode';
+import { ProtocolTrace, formatTraceEntry, parseTrace, serializeTrace } from '../transports/protocolTrace';
+
+const CONFIG_SECTION = 'ev3-cockpit';
+const ENABLED_SETTING = 'protocolTrace.enabled';
+const CAPTURE_FILTERS = { 'Protocol trace': ['ev3trace', 'json'] };
+
+export function registerProtocolTraceView(trace: ProtocolTrace): vscode.Disposable {
+	const channel = vscode.window.createOutputChannel('Protocol Trace');
+	const readEnabled = () => vscode.workspace.getConfiguration(CONFIG_SECTION).get<boolean>(ENABLED_SETTING, false);
+	trace.enabled = readEnabled();
+
+	return vscode.Disposable.from(
+		channel,
+		trace.onEntry((entry) => channel.appendLine(formatTraceEntry(entry))),
+		vscode.workspace.onDidChangeConfiguration((e) => {
+			if (e.affectsConfiguration(`${CONFIG_SECTION}.${ENABLED_SETTING}`)) {
+				trace.enabled = readEnabled();
+				channel.appendLine(`── Protocol trace ${trace.enabled ? 'started' : 'stopped'} ──`);
+			}
+		}),
+		vscode.commands.registerCommand('ev3-cockpit.protocolTrace.show', () => channel.show(true)),
+		vscode.commands.registerCommand('ev3-cockpit.protocolTrace.clear', () => {
+			trace.clear();
+			channel.clear();
+		}),
+		vscode.commands.registerCommand('ev3-cockpit.protocolTrace.save', async () => {
+			const entries = trace.snapshot();
+			if (entries.length === 0) {
+				void vscode.window.showInformationMessage(
+					`The protocol trace is empty. Enable "${CONFIG_SECTION}.${ENABLED_SETTING}" to record traffic.`,
+				);
+				return;
+			}
+			const target = await vscode.window.showSaveDialog({ filters: CAPTURE_FILTERS });
+			if (!target) { return; }
+			try {
+				await vscode.workspace.fs.writeFile(target, Buffer.from(serializeTrace(entries), 'utf8'));
+				void vscode.window.showInformationMessage(`Saved ${entries.length} trace entries to ${target.fsPath}.`);
+			} catch (error) {
+				void vscode.window.showErrorMessage(
+					`Cannot save protocol trace: ${error instanceof Error ? error.message : String(error)}`,
+				);
+			}
+		}),
+		vscode.commands.registerCommand('ev3-cockpit.protocolTrace.load', async () => {
+			const [source] = await vscode.window.showOpenDialog({ filters: CAPTURE_FILTERS, canSelectMany: false }) ?? [];
+			if (!source) { return; }
+			try {
+				const entries = parseTrace(Buffer.from(await vscode.workspace.fs.readFile(source)).toString('utf8'));
+				channel.clear();
+				channel.appendLine(`── Capture ${source.fsPath}: ${entries.length} entries ──`);
+				for (const entry of entries) {
+					channel.appendLine(formatTraceEntry(entry));
+				}
+				channel.show(true);
+			} catch (error) {
+				void vscode.window.showErrorMessage(
+					`Cannot load protocol trace: ${error instanceof Error ? error.message : String(error)}`,
+				);
+			}
+		}),
+	);
+}